@@ -3,6 +3,59 @@ import {dotEnvConvict} from './convict.js';
 export const ENVS = ['LOCAL', 'DEV', 'PREPROD', 'PROD', 'TEST'] as const;
 export type EnvType = (typeof ENVS)[number];
 
+export const NOTIFICATION_ADAPTERS = ['smtp', 'webhook', 'log'] as const;
+export type NotificationAdapterName = (typeof NOTIFICATION_ADAPTERS)[number];
+
+// In the order of Date.getDay()
+export const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+dotEnvConvict.addFormat({
+	name: 'notification-adapters',
+	validate(value: unknown) {
+		const unknownAdapters = (value as string[]).filter(name => !(NOTIFICATION_ADAPTERS as readonly string[]).includes(name));
+		if (unknownAdapters.length > 0) {
+			throw new Error(`unknown notification adapters: ${unknownAdapters.join(', ')}`);
+		}
+	},
+	coerce: (value: string) => value.split(',').map(name => name.trim()).filter(Boolean),
+});
+
+dotEnvConvict.addFormat({
+	name: 'weekdays',
+	validate(value: unknown) {
+		const days = value as string[];
+		if (days.length === 0) {
+			throw new Error('at least one working day is needed');
+		}
+
+		const unknownDays = days.filter(day => !(WEEKDAYS as readonly string[]).includes(day));
+		if (unknownDays.length > 0) {
+			throw new Error(`unknown days: ${unknownDays.join(', ')}`);
+		}
+	},
+	coerce: (value: string) => value.split(',').map(day => day.trim().toUpperCase()).filter(Boolean),
+});
+
+dotEnvConvict.addFormat({
+	name: 'business-dates',
+	validate(value: unknown) {
+		const invalidDates = (value as string[]).filter(date => !/^\d{4}-\d{2}-\d{2}$/.test(date));
+		if (invalidDates.length > 0) {
+			throw new Error(`dates must be given as YYYY-MM-DD: ${invalidDates.join(', ')}`);
+		}
+	},
+	coerce: (value: string) => value.split(',').map(date => date.trim()).filter(Boolean),
+});
+
+dotEnvConvict.addFormat({
+	name: 'timezone',
+	validate(value: unknown) {
+		// Throws a RangeError on a time zone the runtime does not know
+		new Intl.DateTimeFormat(undefined, {timeZone: value as string}).resolvedOptions();
+	},
+});
+
 export const CONFIG = dotEnvConvict({
 	app: {
 		env: {
@@ -26,6 +79,26 @@ export const CONFIG = dotEnvConvict({
 			env: 'SERVER_TIMEOUT',
 		},
 	},
+	business: {
+		timezone: {
+			doc: 'IANA time zone business dates, such as the days of a season, are expressed in',
+			format: 'timezone',
+			default: 'UTC',
+			env: 'BUSINESS_TIMEZONE',
+		},
+		workingDays: {
+			doc: 'Days goods are shipped and received on, comma separated (MON, TUE, WED, THU, FRI, SAT, SUN)',
+			format: 'weekdays',
+			default: ['MON', 'TUE', 'WED', 'THU', 'FRI'] as Weekday[],
+			env: 'BUSINESS_WORKING_DAYS',
+		},
+		holidays: {
+			doc: 'Days off on top of the non-working days of the week, comma separated YYYY-MM-DD dates',
+			format: 'business-dates',
+			default: [] as string[],
+			env: 'BUSINESS_HOLIDAYS',
+		},
+	},
 	db: {
 		url: {
 			doc: 'Database connection uri',
@@ -34,6 +107,217 @@ export const CONFIG = dotEnvConvict({
 			env: 'DB_URI',
 		},
 	},
+	reservation: {
+		ttl: {
+			doc: 'Time a stock reservation holds stock before it expires (in ms)',
+			format: 'int',
+			default: 15 * 60 * 1000,
+			env: 'RESERVATION_TTL',
+		},
+	},
+	notifications: {
+		pollInterval: {
+			doc: 'Interval between two runs of the notification dispatcher (in ms)',
+			format: 'int',
+			default: 5000,
+			env: 'NOTIFICATIONS_POLL_INTERVAL',
+		},
+		maxAttempts: {
+			doc: 'Delivery attempts of a notification before it is dead-lettered',
+			format: 'int',
+			default: 5,
+			env: 'NOTIFICATIONS_MAX_ATTEMPTS',
+		},
+		retryDelay: {
+			doc: 'Delay before the first retry of a failed notification, doubled on each further retry (in ms)',
+			format: 'int',
+			default: 30 * 1000,
+			env: 'NOTIFICATIONS_RETRY_DELAY',
+		},
+		dedupWindow: {
+			delay: {
+				doc: 'Time during which a further delay notification for the same product is dropped (in ms), 0 to keep them all',
+				format: 'int',
+				default: 60 * 60 * 1000,
+				env: 'NOTIFICATIONS_DEDUP_WINDOW_DELAY',
+			},
+			outOfStock: {
+				doc: 'Time during which a further out of stock notification for the same product is dropped (in ms), 0 to keep them all',
+				format: 'int',
+				default: 60 * 60 * 1000,
+				env: 'NOTIFICATIONS_DEDUP_WINDOW_OUT_OF_STOCK',
+			},
+			expiration: {
+				doc: 'Time during which a further expiration notification for the same product is dropped (in ms), 0 to keep them all',
+				format: 'int',
+				default: 24 * 60 * 60 * 1000,
+				env: 'NOTIFICATIONS_DEDUP_WINDOW_EXPIRATION',
+			},
+		},
+		digest: {
+			doc: 'Send the notifications of one processed order as a single digest',
+			format: Boolean,
+			default: false,
+			env: 'NOTIFICATIONS_DIGEST',
+		},
+		rateLimit: {
+			max: {
+				doc: 'Notifications a recipient receives per rate limit window, the others are dropped, 0 for no limit',
+				format: 'int',
+				default: 30,
+				env: 'NOTIFICATIONS_RATE_LIMIT_MAX',
+			},
+			window: {
+				doc: 'Sliding window the notifications of a recipient are counted over (in ms)',
+				format: 'int',
+				default: 60 * 60 * 1000,
+				env: 'NOTIFICATIONS_RATE_LIMIT_WINDOW',
+			},
+		},
+		adapters: {
+			doc: 'Adapters every notification is delivered through, comma separated (smtp, webhook, log)',
+			format: 'notification-adapters',
+			default: ['log'] as NotificationAdapterName[],
+			env: 'NOTIFICATIONS_ADAPTERS',
+		},
+		smtp: {
+			host: {
+				doc: 'SMTP server notifications are mailed through',
+				format: String,
+				default: 'localhost',
+				env: 'NOTIFICATIONS_SMTP_HOST',
+			},
+			port: {
+				doc: 'SMTP server port',
+				format: 'port',
+				default: 25,
+				env: 'NOTIFICATIONS_SMTP_PORT',
+			},
+			secure: {
+				doc: 'Connect to the SMTP server over TLS, otherwise the connection is upgraded with STARTTLS when the server offers it',
+				format: Boolean,
+				default: false,
+				env: 'NOTIFICATIONS_SMTP_SECURE',
+			},
+			user: {
+				doc: 'SMTP user, no authentication when empty. Credentials are only sent over TLS',
+				format: String,
+				default: '',
+				env: 'NOTIFICATIONS_SMTP_USER',
+			},
+			password: {
+				doc: 'SMTP password',
+				format: String,
+				default: '',
+				sensitive: true,
+				env: 'NOTIFICATIONS_SMTP_PASSWORD',
+			},
+			from: {
+				doc: 'Sender of notification mails',
+				format: String,
+				default: 'stock@localhost',
+				env: 'NOTIFICATIONS_SMTP_FROM',
+			},
+			to: {
+				doc: 'Recipients of notification mails, comma separated',
+				format: Array,
+				default: [] as string[],
+				env: 'NOTIFICATIONS_SMTP_TO',
+			},
+			timeout: {
+				doc: 'Time the SMTP server has to answer (in ms)',
+				format: 'int',
+				default: 10 * 1000,
+				env: 'NOTIFICATIONS_SMTP_TIMEOUT',
+			},
+		},
+		webhook: {
+			url: {
+				doc: 'URL notifications are posted to as JSON',
+				format: String,
+				default: '',
+				env: 'NOTIFICATIONS_WEBHOOK_URL',
+			},
+			timeout: {
+				doc: 'Time the webhook has to answer (in ms)',
+				format: 'int',
+				default: 5000,
+				env: 'NOTIFICATIONS_WEBHOOK_TIMEOUT',
+			},
+		},
+	},
+	webhooks: {
+		pollInterval: {
+			doc: 'Interval between two runs of the webhook dispatcher (in ms)',
+			format: 'int',
+			default: 5000,
+			env: 'WEBHOOKS_POLL_INTERVAL',
+		},
+		timeout: {
+			doc: 'Time a webhook endpoint has to answer (in ms)',
+			format: 'int',
+			default: 5000,
+			env: 'WEBHOOKS_TIMEOUT',
+		},
+		maxAttempts: {
+			doc: 'Delivery attempts of a webhook event before it is given up',
+			format: 'int',
+			default: 8,
+			env: 'WEBHOOKS_MAX_ATTEMPTS',
+		},
+		retryDelay: {
+			doc: 'Delay before the first retry of a failed webhook delivery, doubled on each further retry (in ms)',
+			format: 'int',
+			default: 30 * 1000,
+			env: 'WEBHOOKS_RETRY_DELAY',
+		},
+		disableAfterFailures: {
+			doc: 'Consecutive failed attempts after which a webhook subscription is disabled',
+			format: 'int',
+			default: 20,
+			env: 'WEBHOOKS_DISABLE_AFTER_FAILURES',
+		},
+		allowPrivateTargets: {
+			doc: 'Let webhooks be sent to loopback, private and link-local hosts, for local development only',
+			format: Boolean,
+			default: false,
+			env: 'WEBHOOKS_ALLOW_PRIVATE_TARGETS',
+		},
+	},
+	expirySweep: {
+		interval: {
+			doc: 'Interval between two runs of the expiry sweeper, which writes off expired stock (in ms)',
+			format: 'int',
+			default: 60 * 60 * 1000,
+			env: 'EXPIRY_SWEEP_INTERVAL',
+		},
+		warningDays: {
+			doc: 'Days before its expiry date stock is warned about, 0 for no warnings',
+			format: 'int',
+			default: 3,
+			env: 'EXPIRY_SWEEP_WARNING_DAYS',
+		},
+	},
+	idempotency: {
+		lease: {
+			doc: 'Time a request holds its idempotency key, after which a request with the same key may run again (in ms)',
+			format: 'int',
+			default: 5 * 60 * 1000,
+			env: 'IDEMPOTENCY_LEASE',
+		},
+		ttl: {
+			doc: 'Time the response of a request is replayed for its idempotency key (in ms)',
+			format: 'int',
+			default: 24 * 60 * 60 * 1000,
+			env: 'IDEMPOTENCY_TTL',
+		},
+		cleanupInterval: {
+			doc: 'Interval between two deletions of the expired idempotency keys (in ms)',
+			format: 'int',
+			default: 60 * 60 * 1000,
+			env: 'IDEMPOTENCY_CLEANUP_INTERVAL',
+		},
+	},
 	log: {
 		level: {
 			doc: 'Log level',
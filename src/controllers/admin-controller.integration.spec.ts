@@ -0,0 +1,75 @@
+import {
+	describe, it, expect, beforeEach,
+	afterEach,
+} from 'vitest';
+import {type FastifyInstance} from 'fastify';
+import supertest from 'supertest';
+import {type DeepMockProxy, mockDeep} from 'vitest-mock-extended';
+import {asValue} from 'awilix';
+import {type INotificationService} from '@/services/notifications.port.js';
+import {notificationOutbox, products} from '@/db/schema.js';
+import {buildFastify} from '@/fastify.js';
+
+describe('AdminController Integration Tests', () => {
+	let fastify: FastifyInstance;
+	let notificationServiceMock: DeepMockProxy<INotificationService>;
+
+	beforeEach(async () => {
+		notificationServiceMock = mockDeep<INotificationService>();
+
+		fastify = await buildFastify();
+		fastify.diContainer.register({
+			ns: asValue(notificationServiceMock as INotificationService),
+		});
+		await fastify.ready();
+	});
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	it('should list dead-lettered notifications and replay one of them', async () => {
+		const client = supertest(fastify.server);
+		const now = new Date();
+		await fastify.database.insert(notificationOutbox).values([
+			{
+				kind: 'DELAY', productName: 'USB Dongle', leadTime: 10, status: 'DEAD_LETTER', attempts: 5, lastError: 'Mail server unreachable', nextAttemptAt: now, createdAt: now,
+			},
+			{
+				kind: 'OUT_OF_STOCK', productName: 'Grapes', status: 'DELIVERED', attempts: 1, nextAttemptAt: now, createdAt: now, deliveredAt: now,
+			},
+		]);
+
+		const deadLetters = await client.get('/admin/notifications/dead-letters').expect(200);
+		const replay = await client.post('/admin/notifications/1/replay').expect(200);
+		await fastify.diContainer.resolve('notificationDispatcher').dispatchDue();
+		const deliveredReplay = await client.post('/admin/notifications/2/replay').expect(409);
+		await client.post('/admin/notifications/42/replay').expect(404);
+
+		expect(deadLetters.body).toMatchObject([{
+			id: 1, kind: 'DELAY', status: 'DEAD_LETTER', attempts: 5, lastError: 'Mail server unreachable',
+		}]);
+		expect(replay.body).toMatchObject({id: 1, status: 'PENDING', attempts: 0});
+		expect(deliveredReplay.body).toMatchObject({code: 'NOTIFICATION_NOT_DEAD_LETTERED'});
+		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(10, 'USB Dongle');
+		expect(notificationServiceMock.sendOutOfStockNotification).not.toHaveBeenCalled();
+	});
+
+	it('should run the expiry sweeper on demand and list its runs', async () => {
+		const client = supertest(fastify.server);
+		await fastify.database.insert(products).values({
+			leadTime: 10, available: 4, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date('2000-01-01'),
+		});
+
+		const sweep = await client.post('/admin/expiry-sweeps').expect(201);
+		const runs = await client.get('/admin/expiry-sweeps').expect(200);
+		const movements = await client.get('/products/1/stock-movements').expect(200);
+
+		expect(sweep.body).toMatchObject({
+			trigger: 'MANUAL', status: 'SUCCEEDED', checkedProducts: 1, writtenOffQuantity: 4, warnings: 0,
+		});
+		expect(runs.body).toEqual([sweep.body]);
+		expect(movements.body).toMatchObject([{kind: 'EXPIRY_WRITE_OFF', quantity: -4, balanceAfter: 0}]);
+		const metrics = await client.get('/metrics/events').expect(200);
+		expect(metrics.body).toMatchObject({ProductExpired: 1});
+	});
+});
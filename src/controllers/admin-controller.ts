@@ -0,0 +1,100 @@
+import fastifyPlugin from 'fastify-plugin';
+import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
+import {z} from 'zod';
+import {
+	EXPIRY_SWEEP_STATUSES, EXPIRY_SWEEP_TRIGGERS, NOTIFICATION_KINDS, OUTBOX_MESSAGE_STATUSES,
+} from '@/db/schema.js';
+
+const outboxMessageSchema = z.object({
+	id: z.number(),
+	kind: z.enum(NOTIFICATION_KINDS),
+	productName: z.string(),
+	leadTime: z.number().nullable(),
+	expiryDate: z.date().nullable(),
+	orderId: z.number().nullable(),
+	quantity: z.number().nullable(),
+	digestId: z.string().nullable(),
+	status: z.enum(OUTBOX_MESSAGE_STATUSES),
+	attempts: z.number(),
+	nextAttemptAt: z.date(),
+	lastError: z.string().nullable(),
+	createdAt: z.date(),
+	deliveredAt: z.date().nullable(),
+});
+
+const expirySweepSchema = z.object({
+	id: z.number(),
+	trigger: z.enum(EXPIRY_SWEEP_TRIGGERS),
+	status: z.enum(EXPIRY_SWEEP_STATUSES),
+	startedAt: z.date(),
+	finishedAt: z.date(),
+	checkedProducts: z.number(),
+	writtenOffQuantity: z.number(),
+	warnings: z.number(),
+	error: z.string().nullable(),
+});
+
+export const adminController = fastifyPlugin(async server => {
+	// Add schema validator and serializer
+	server.setValidatorCompiler(validatorCompiler);
+	server.setSerializerCompiler(serializerCompiler);
+
+	server.withTypeProvider<ZodTypeProvider>().get('/admin/notifications/dead-letters', {
+		schema: {
+			response: {
+				200: z.array(outboxMessageSchema),
+			},
+		},
+	}, async (_request, reply) => {
+		const notificationDispatcher = server.diContainer.resolve('notificationDispatcher');
+
+		const deadLetters = await notificationDispatcher.listDeadLetters();
+
+		await reply.send(deadLetters);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/admin/notifications/:notificationId/replay', {
+		schema: {
+			params: z.object({
+				notificationId: z.coerce.number(),
+			}),
+			response: {
+				200: outboxMessageSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const notificationDispatcher = server.diContainer.resolve('notificationDispatcher');
+
+		const message = await notificationDispatcher.replay(request.params.notificationId);
+
+		await reply.send(message);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/admin/expiry-sweeps', {
+		schema: {
+			response: {
+				201: expirySweepSchema,
+			},
+		},
+	}, async (_request, reply) => {
+		const expirySweeper = server.diContainer.resolve('expirySweeper');
+
+		const run = await expirySweeper.sweep('MANUAL');
+
+		await reply.code(201).send(run);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/admin/expiry-sweeps', {
+		schema: {
+			response: {
+				200: z.array(expirySweepSchema),
+			},
+		},
+	}, async (_request, reply) => {
+		const expirySweeper = server.diContainer.resolve('expirySweeper');
+
+		const runs = await expirySweeper.listRuns();
+
+		await reply.send(runs);
+	});
+});
@@ -8,6 +8,8 @@ import {eq} from 'drizzle-orm';
 import {type DeepMockProxy, mockDeep} from 'vitest-mock-extended';
 import {asValue} from 'awilix';
 import {type INotificationService} from '@/services/notifications.port.js';
+import {SystemClock} from '@/services/impl/clock.js';
+import {EtaService} from '@/services/impl/eta.service.js';
 import {
 	type ProductInsert,
 	products,
@@ -36,6 +38,10 @@ describe('MyController Integration Tests', () => {
 		await fastify.close();
 	});
 
+	async function dispatchNotifications() {
+		await fastify.diContainer.resolve('notificationDispatcher').dispatchDue();
+	}
+
 	it('should process order with mixed product types successfully', async () => {
 		const client = supertest(fastify.server);
 		const allProducts = createProducts();
@@ -46,15 +52,39 @@ describe('MyController Integration Tests', () => {
 			return order!.orderId;
 		});
 
-		await client.post(`/orders/${orderId}/processOrder`).expect(200).expect('Content-Type', /application\/json/);
+		const response = await client.post(`/orders/${orderId}/processOrder`).expect(200).expect('Content-Type', /application\/json/);
 
 		const resultOrder = await database.query.orders.findFirst({where: eq(orders.id, orderId)});
 		expect(resultOrder!.id).toBe(orderId);
 
-		// Verify that notifications were sent appropriately
+		// Verify that notifications were queued, then sent appropriately
+		await dispatchNotifications();
 		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(10, 'USB Dongle');
 		expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalled();
 		expect(notificationServiceMock.sendOutOfStockNotification).toHaveBeenCalledWith('Grapes');
+
+		// Verify the outcome of each line is reported
+		expect(response.body.status).toBe('PARTIALLY_FULFILLED');
+		expect(response.body.lines).toEqual([
+			expect.objectContaining({
+				productName: 'USB Cable', outcome: 'FULFILLED', stockBefore: 30, stockAfter: 29,
+			}),
+			expect.objectContaining({
+				productName: 'USB Dongle', outcome: 'DELAYED', reason: 'AWAITING_RESTOCK', leadTime: 10, stockBefore: 0, stockAfter: 0,
+			}),
+			expect.objectContaining({productName: 'Butter', outcome: 'FULFILLED'}),
+			expect.objectContaining({
+				productName: 'Milk', outcome: 'EXPIRED', reason: 'PRODUCT_EXPIRED', stockBefore: 6, stockAfter: 0,
+			}),
+			expect.objectContaining({productName: 'Watermelon', outcome: 'FULFILLED'}),
+			expect.objectContaining({productName: 'Grapes', outcome: 'OUT_OF_SEASON', reason: 'SEASON_NOT_STARTED'}),
+		]);
+
+		// Verify subscribers were told about the processing
+		const metrics = await client.get('/metrics/events').expect(200);
+		expect(metrics.body).toEqual({
+			StockDecremented: 3, ProductDelayed: 1, ProductOutOfSeason: 1, ProductExpired: 1, ProductLowOnStock: 0, ProductExpiringSoon: 0, OrderProcessed: 1,
+		});
 	});
 
 	it('should handle normal product with sufficient stock', async () => {
@@ -72,16 +102,97 @@ describe('MyController Integration Tests', () => {
 			return order!.orderId;
 		});
 
-		await client.post(`/orders/${orderId}/processOrder`).expect(200);
+		const response = await client.post(`/orders/${orderId}/processOrder`).expect(200);
 
+		expect(response.body).toEqual({
+			orderId,
+			status: 'FULFILLED',
+			lines: [{
+				productId: 1,
+				productName: 'USB Cable',
+				quantity: 1,
+				fulfilledQuantity: 1,
+				unfulfilledQuantity: 0,
+				outcome: 'FULFILLED',
+				reason: 'IN_STOCK',
+				// In stock, so promised for today if it is a working day of the default calendar
+				promisedDate: new EtaService({clock: new SystemClock()}).promisedDate(),
+				stockBefore: 10,
+				stockAfter: 9,
+			}],
+		});
 		// Verify stock was decreased
 		const updatedProduct = await database.query.products.findFirst({
 			where: (products, {eq}) => eq(products.id, 1),
 		});
 		expect(updatedProduct?.available).toBe(9);
+
+		// A second call must not process the order again
+		await client.post(`/orders/${orderId}/processOrder`).expect(409);
+		await dispatchNotifications();
 		expect(notificationServiceMock.sendDelayNotification).not.toHaveBeenCalled();
 	});
 
+	it('should consume the ordered quantity of each line', async () => {
+		const client = supertest(fastify.server);
+		const testProducts = [
+			{
+				leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Cable',
+			},
+		];
+
+		const orderId = await database.transaction(async tx => {
+			const productList = await tx.insert(products).values(testProducts).returning({productId: products.id});
+			const [order] = await tx.insert(orders).values([{}]).returning({orderId: orders.id});
+			await tx.insert(ordersToProducts).values(productList.map(p => ({orderId: order!.orderId, productId: p.productId, quantity: 3})));
+			return order!.orderId;
+		});
+
+		await client.post(`/orders/${orderId}/processOrder`).expect(200);
+
+		const updatedProduct = await database.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 1),
+		});
+		expect(updatedProduct?.available).toBe(7);
+	});
+
+	it('should answer 404 for an unknown order', async () => {
+		const client = supertest(fastify.server);
+
+		const response = await client.post('/orders/404/processOrder').expect(404);
+
+		expect(response.body).toMatchObject({code: 'ORDER_NOT_FOUND'});
+	});
+
+	it('should leave the whole order untouched when a line has a product type without strategy', async () => {
+		const client = supertest(fastify.server);
+		const testProducts = [
+			{
+				leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Cable',
+			},
+			{
+				leadTime: 15, available: 10, type: 'UNKNOWN', name: 'Mystery Box',
+			},
+		];
+
+		const orderId = await database.transaction(async tx => {
+			const productList = await tx.insert(products).values(testProducts).returning({productId: products.id});
+			const [order] = await tx.insert(orders).values([{}]).returning({orderId: orders.id});
+			await tx.insert(ordersToProducts).values(productList.map(p => ({orderId: order!.orderId, productId: p.productId})));
+			return order!.orderId;
+		});
+
+		const response = await client.post(`/orders/${orderId}/processOrder`).expect(422);
+
+		expect(response.body).toMatchObject({code: 'UNKNOWN_PRODUCT_TYPE'});
+		const order = await database.query.orders.findFirst({where: eq(orders.id, orderId)});
+		expect(order!.status).toBe('PENDING');
+		const unchangedProduct = await database.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 1),
+		});
+		expect(unchangedProduct?.available).toBe(10);
+	});
+
 	it('should handle seasonal product in season', async () => {
 		const client = supertest(fastify.server);
 		const currentDate = new Date();
@@ -110,6 +221,7 @@ describe('MyController Integration Tests', () => {
 			where: (products, {eq}) => eq(products.id, 1),
 		});
 		expect(updatedProduct?.available).toBe(4);
+		await dispatchNotifications();
 		expect(notificationServiceMock.sendOutOfStockNotification).not.toHaveBeenCalled();
 	});
 
@@ -140,9 +252,116 @@ describe('MyController Integration Tests', () => {
 			where: (products, {eq}) => eq(products.id, 1),
 		});
 		expect(updatedProduct?.available).toBe(2);
+		await dispatchNotifications();
 		expect(notificationServiceMock.sendExpirationNotification).not.toHaveBeenCalled();
 	});
 
+	it('should create an order, then retrieve and list it', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values(createProducts());
+
+		const creation = await client.post('/orders')
+			.send({lines: [{productId: 1, quantity: 2}, {productId: 3}]})
+			.expect(201);
+		const orderId = (creation.body as {id: number}).id;
+		await client.post(`/orders/${orderId}/processOrder`).expect(200);
+		const promisedDate = new EtaService({clock: new SystemClock()}).promisedDate();
+		const retrieval = await client.get(`/orders/${orderId}`).expect(200);
+		const listing = await client.get('/orders?status=FULFILLED&limit=5').expect(200);
+
+		expect(creation.body).toMatchObject({status: 'PENDING'});
+		expect(retrieval.body).toMatchObject({
+			id: orderId,
+			status: 'FULFILLED',
+			lines: [
+				{
+					productId: 1, quantity: 2, promisedDate, product: {name: 'USB Cable', available: 28},
+				},
+				{
+					productId: 3, quantity: 1, promisedDate, product: {name: 'Butter', available: 29},
+				},
+			],
+			statusTransitions: [
+				{fromStatus: null, toStatus: 'PENDING'},
+				{fromStatus: 'PENDING', toStatus: 'PROCESSING'},
+				{fromStatus: 'PROCESSING', toStatus: 'FULFILLED'},
+			],
+		});
+		expect(listing.body).toEqual({
+			items: [expect.objectContaining({id: orderId, lines: [{productId: 1, quantity: 2}, {productId: 3, quantity: 1}]})],
+			nextCursor: null,
+		});
+	});
+
+	it('should reject an order with an unknown product or a duplicated line', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values(createProducts());
+
+		const unknownProduct = await client.post('/orders').send({lines: [{productId: 99, quantity: 1}]}).expect(422);
+		await client.post('/orders').send({lines: [{productId: 1}, {productId: 1}]}).expect(400);
+		await client.post('/orders').send({lines: [{productId: 1, quantity: 0}]}).expect(400);
+
+		expect(unknownProduct.body).toMatchObject({code: 'UNKNOWN_PRODUCT'});
+		expect(await database.query.orders.findMany()).toEqual([]);
+	});
+
+	it('should replay the original response when a request is retried with the same idempotency key', async () => {
+		const client = supertest(fastify.server);
+		const orderId = await database.transaction(async tx => {
+			const productList = await tx.insert(products).values(createProducts()).returning({productId: products.id});
+			const [order] = await tx.insert(orders).values([{}]).returning({orderId: orders.id});
+			await tx.insert(ordersToProducts).values(productList.map(p => ({orderId: order!.orderId, productId: p.productId})));
+			return order!.orderId;
+		});
+
+		const first = await client.post(`/orders/${orderId}/processOrder`).set('Idempotency-Key', 'retry-1').expect(200);
+		const retry = await client.post(`/orders/${orderId}/processOrder`).set('Idempotency-Key', 'retry-1').expect(200);
+		const reuse = await client.post('/orders/999/processOrder').set('Idempotency-Key', 'retry-1').expect(422);
+
+		expect(first.headers['idempotent-replayed']).toBe('false');
+		expect(retry.headers['idempotent-replayed']).toBe('true');
+		expect(retry.body).toEqual(first.body);
+		expect(reuse.body).toMatchObject({code: 'IDEMPOTENCY_KEY_REUSED'});
+		const updatedProduct = await database.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 1),
+		});
+		expect(updatedProduct?.available).toBe(29);
+		await dispatchNotifications();
+		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledTimes(1);
+	});
+
+	it('should hold reserved stock for the order that reserved it', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 15, available: 1, type: 'NORMAL', name: 'USB Cable',
+		});
+
+		const firstCart = await client.post('/orders').send({lines: [{productId: 1}]}).expect(201);
+		const secondCart = await client.post('/orders').send({lines: [{productId: 1}]}).expect(201);
+		const secondProcessing = await client.post(`/orders/${(secondCart.body as {id: number}).id}/processOrder`).expect(200);
+		const firstProcessing = await client.post(`/orders/${(firstCart.body as {id: number}).id}/processOrder`).expect(200);
+
+		expect(firstCart.body).toMatchObject({reservations: [{productId: 1, quantity: 1, status: 'ACTIVE'}]});
+		expect(secondCart.body).toMatchObject({reservations: []});
+		expect(secondProcessing.body).toMatchObject({status: 'BACKORDERED'});
+		expect(firstProcessing.body).toMatchObject({status: 'FULFILLED'});
+	});
+
+	it('should release the reserved stock of a cancelled order', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 15, available: 1, type: 'NORMAL', name: 'USB Cable',
+		});
+
+		const firstCart = await client.post('/orders').send({lines: [{productId: 1}]}).expect(201);
+		const cancellation = await client.post(`/orders/${(firstCart.body as {id: number}).id}/cancel`).expect(200);
+		const secondCart = await client.post('/orders').send({lines: [{productId: 1}]}).expect(201);
+		await client.post(`/orders/${(firstCart.body as {id: number}).id}/cancel`).expect(409);
+
+		expect(cancellation.body).toMatchObject({status: 'CANCELLED', reservations: [{status: 'RELEASED'}]});
+		expect(secondCart.body).toMatchObject({reservations: [{quantity: 1, status: 'ACTIVE'}]});
+	});
+
 	function createProducts(): ProductInsert[] {
 		const d = 24 * 60 * 60 * 1000;
 		return [
@@ -166,4 +385,27 @@ describe('MyController Integration Tests', () => {
 			},
 		];
 	}
+
+	it('should simulate the processing of an order at another date without changing anything', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 15, available: 3, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date('2030-12-10'),
+		});
+		const creation = await client.post('/orders').send({lines: [{productId: 1, quantity: 2}]}).expect(201);
+		const orderId = (creation.body as {id: number}).id;
+
+		const simulation = await client.get(`/orders/${orderId}/processOrder/dry-run?asOf=2030-12-20`).expect(200);
+
+		expect(simulation.body).toMatchObject({
+			orderId,
+			status: 'CANCELLED',
+			asOf: '2030-12-20T00:00:00.000Z',
+			lines: [{
+				productId: 1, outcome: 'EXPIRED', stockBefore: 3, stockAfter: 0,
+			}],
+			notifications: [{kind: 'EXPIRATION', productName: 'Milk', expiryDate: '2030-12-10T00:00:00.000Z'}],
+		});
+		const order = await client.get(`/orders/${orderId}`).expect(200);
+		expect(order.body).toMatchObject({status: 'PENDING', lines: [{product: {available: 3}}]});
+	});
 });
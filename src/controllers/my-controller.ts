@@ -1,47 +1,229 @@
-import {eq} from 'drizzle-orm';
 import fastifyPlugin from 'fastify-plugin';
 import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
 import {z} from 'zod';
-import {orders} from '@/db/schema.js';
+import {productSchema} from './schemas.js';
+import {
+	BACKORDER_STATUSES, NOTIFICATION_KINDS, ORDER_STATUSES, RESERVATION_STATUSES,
+} from '@/db/schema.js';
+import {LINE_OUTCOMES, LINE_REASON_CODES} from '@/services/impl/product-strategy.js';
+
+const orderLineReportSchema = z.object({
+	productId: z.number(),
+	productName: z.string(),
+	quantity: z.number(),
+	fulfilledQuantity: z.number(),
+	unfulfilledQuantity: z.number(),
+	outcome: z.enum(LINE_OUTCOMES),
+	reason: z.enum(LINE_REASON_CODES),
+	leadTime: z.number().optional(),
+	promisedDate: z.string().optional(),
+	blockedBy: z.object({
+		productId: z.number(),
+		productName: z.string(),
+		outcome: z.enum(LINE_OUTCOMES),
+		reason: z.enum(LINE_REASON_CODES),
+	}).optional(),
+	stockBefore: z.number(),
+	stockAfter: z.number(),
+});
+
+const processedOrderSchema = z.object({
+	orderId: z.number(),
+	status: z.enum(ORDER_STATUSES),
+	lines: z.array(orderLineReportSchema),
+});
+
+const simulatedOrderSchema = processedOrderSchema.extend({
+	asOf: z.date(),
+	notifications: z.array(z.object({
+		kind: z.enum(NOTIFICATION_KINDS),
+		productName: z.string(),
+		leadTime: z.number().optional(),
+		expiryDate: z.date().optional(),
+	})),
+});
+
+const orderSchema = z.object({
+	id: z.number(),
+	status: z.enum(ORDER_STATUSES),
+	createdAt: z.date(),
+	statusUpdatedAt: z.date(),
+});
+
+const orderDetailSchema = orderSchema.extend({
+	lines: z.array(z.object({
+		productId: z.number(),
+		quantity: z.number(),
+		fulfilledQuantity: z.number(),
+		promisedDate: z.string().nullable(),
+		product: productSchema,
+	})),
+	statusTransitions: z.array(z.object({
+		fromStatus: z.enum(ORDER_STATUSES).nullable(),
+		toStatus: z.enum(ORDER_STATUSES),
+		occurredAt: z.date(),
+	})),
+	reservations: z.array(z.object({
+		productId: z.number(),
+		quantity: z.number(),
+		status: z.enum(RESERVATION_STATUSES),
+		expiresAt: z.date(),
+	})),
+	backorders: z.array(z.object({
+		productId: z.number(),
+		quantity: z.number(),
+		status: z.enum(BACKORDER_STATUSES),
+	})),
+});
+
+const orderPageSchema = z.object({
+	items: z.array(orderSchema.extend({
+		lines: z.array(z.object({
+			productId: z.number(),
+			quantity: z.number(),
+		})),
+	})),
+	nextCursor: z.number().nullable(),
+});
+
+const createOrderBodySchema = z.object({
+	lines: z.array(z.object({
+		productId: z.number().int().positive(),
+		quantity: z.number().int().positive().default(1),
+	})).min(1).refine(
+		lines => new Set(lines.map(({productId}) => productId)).size === lines.length,
+		{message: 'Each product can only appear on one line'},
+	),
+});
 
 export const myController = fastifyPlugin(async server => {
 	// Add schema validator and serializer
 	server.setValidatorCompiler(validatorCompiler);
 	server.setSerializerCompiler(serializerCompiler);
 
+	server.withTypeProvider<ZodTypeProvider>().post('/orders', {
+		schema: {
+			body: createOrderBodySchema,
+			response: {
+				201: orderDetailSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const orderService = server.diContainer.resolve('orderService');
+
+		const order = await orderService.createOrder(request.body.lines);
+
+		await reply.status(201).send(order);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/orders', {
+		schema: {
+			querystring: z.object({
+				cursor: z.coerce.number().int().optional(),
+				limit: z.coerce.number().int().min(1).max(100).default(20),
+				status: z.enum(ORDER_STATUSES).optional(),
+				productId: z.coerce.number().int().optional(),
+				createdFrom: z.coerce.date().optional(),
+				createdTo: z.coerce.date().optional(),
+			}),
+			response: {
+				200: orderPageSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const orderService = server.diContainer.resolve('orderService');
+
+		const page = await orderService.listOrders(request.query);
+
+		await reply.send(page);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/orders/:orderId', {
+		schema: {
+			params: z.object({
+				orderId: z.coerce.number(),
+			}),
+			response: {
+				200: orderDetailSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const orderService = server.diContainer.resolve('orderService');
+
+		const order = await orderService.getOrder(request.params.orderId);
+
+		await reply.send(order);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/orders/:orderId/cancel', {
+		schema: {
+			params: z.object({
+				orderId: z.coerce.number(),
+			}),
+			response: {
+				200: orderDetailSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const orderService = server.diContainer.resolve('orderService');
+
+		const order = await orderService.cancelOrder(request.params.orderId);
+
+		await reply.send(order);
+	});
+
 	server.withTypeProvider<ZodTypeProvider>().post('/orders/:orderId/processOrder', {
 		schema: {
 			params: z.object({
 				orderId: z.coerce.number(),
 			}),
+			headers: z.object({
+				'idempotency-key': z.string().min(1).max(255).optional(),
+			}).passthrough(),
+			response: {
+				200: processedOrderSchema,
+			},
 		},
 	}, async (request, reply) => {
-		const database = server.diContainer.resolve('db');
 		const orderProcessingService = server.diContainer.resolve('orderProcessingService');
+		const idempotencyService = server.diContainer.resolve('idempotencyService');
+		const {orderId} = request.params;
+		const idempotencyKey = request.headers['idempotency-key'];
 
-		const order = (await database.query.orders
-			.findFirst({
-				where: eq(orders.id, request.params.orderId),
-				with: {
-					products: {
-						columns: {},
-						with: {
-							product: true,
-						},
-					},
-				},
-			}))!;
-
-		console.log(order);
-
-		const {products: productList} = order;
-
-		if (productList) {
-			const productsToProcess = productList.map(({product}) => product);
-			await orderProcessingService.processOrder(productsToProcess);
+		if (!idempotencyKey) {
+			await reply.send(await orderProcessingService.processOrderById(orderId));
+			return;
 		}
 
-		await reply.send({orderId: order.id});
+		// A retried request replays the stored response instead of processing the order again
+		const {response, replayed} = await idempotencyService.execute(
+			'processOrder',
+			idempotencyKey,
+			request.params,
+			async () => orderProcessingService.processOrderById(orderId),
+		);
+
+		await reply.header('Idempotent-Replayed', String(replayed)).send(response);
 	});
-});
 
+	server.withTypeProvider<ZodTypeProvider>().get('/orders/:orderId/processOrder/dry-run', {
+		schema: {
+			params: z.object({
+				orderId: z.coerce.number(),
+			}),
+			querystring: z.object({
+				asOf: z.coerce.date().optional(),
+			}),
+			response: {
+				200: simulatedOrderSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const orderSimulationService = server.diContainer.resolve('orderSimulationService');
+		const clock = server.diContainer.resolve('clock');
+
+		const simulation = await orderSimulationService.simulateOrder(request.params.orderId, request.query.asOf ?? clock.now());
+
+		await reply.send(simulation);
+	});
+});
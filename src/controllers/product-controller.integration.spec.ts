@@ -0,0 +1,156 @@
+import {
+	describe, it, expect, beforeEach,
+	afterEach,
+} from 'vitest';
+import {type FastifyInstance} from 'fastify';
+import supertest from 'supertest';
+import {buildFastify} from '@/fastify.js';
+
+describe('ProductController Integration Tests', () => {
+	let fastify: FastifyInstance;
+
+	beforeEach(async () => {
+		fastify = await buildFastify();
+		await fastify.ready();
+	});
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	it('should create, update, list and delete a product', async () => {
+		const client = supertest(fastify.server);
+
+		const creation = await client.post('/products')
+			.send({
+				type: 'EXPIRABLE', name: 'Milk', leadTime: 15, available: 3, expiryDate: '2030-01-01T00:00:00.000Z',
+			})
+			.expect(201);
+		const productId = (creation.body as {id: number}).id;
+		const update = await client.patch(`/products/${productId}`).send({leadTime: 20}).expect(200);
+		const listing = await client.get('/products?type=EXPIRABLE').expect(200);
+		await client.delete(`/products/${productId}`).expect(204);
+		await client.get(`/products/${productId}`).expect(404);
+
+		expect(creation.body).toEqual({
+			id: productId,
+			type: 'EXPIRABLE',
+			name: 'Milk',
+			leadTime: 15,
+			available: 3,
+			expiryDate: '2030-01-01T00:00:00.000Z',
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		});
+		expect(update.body).toMatchObject({leadTime: 20, expiryDate: '2030-01-01T00:00:00.000Z'});
+		expect(listing.body).toEqual([update.body]);
+	});
+
+	it('should require the fields of each product type', async () => {
+		const client = supertest(fastify.server);
+
+		await client.post('/products').send({
+			type: 'SEASONAL', name: 'Grapes', leadTime: 15, available: 3,
+		}).expect(400);
+		await client.post('/products').send({
+			type: 'EXPIRABLE', name: 'Milk', leadTime: 15, available: 3,
+		}).expect(400);
+		await client.post('/products').send({
+			type: 'SEASONAL', name: 'Grapes', leadTime: 15, available: 3, seasonStartDate: '2030-09-01', seasonEndDate: '2030-06-01',
+		}).expect(400);
+		await client.post('/products').send({
+			type: 'SEASONAL', name: 'Grapes', leadTime: 15, available: 3, seasonWindows: [{startsOn: '2030-06-01', endsOn: '2031-06-01', recurring: true}],
+		}).expect(400);
+		await client.post('/products').send({
+			type: 'UNKNOWN', name: 'Mystery Box', leadTime: 15, available: 3,
+		}).expect(400);
+	});
+
+	it('should refuse a type change that would leave the product invalid', async () => {
+		const client = supertest(fastify.server);
+		const creation = await client.post('/products').send({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 3,
+		}).expect(201);
+		const productId = (creation.body as {id: number}).id;
+
+		const refusal = await client.patch(`/products/${productId}`).send({type: 'EXPIRABLE'}).expect(422);
+		await client.put(`/products/${productId}`).send({
+			type: 'EXPIRABLE', name: 'USB Cable', leadTime: 15, available: 3, expiryDate: '2030-01-01',
+		}).expect(200);
+
+		expect(refusal.body).toMatchObject({code: 'INVALID_PRODUCT'});
+	});
+
+	it('should define a seasonal product by its season windows', async () => {
+		const client = supertest(fastify.server);
+		const seasonWindows = [
+			{startsOn: '2030-04-01', endsOn: '2030-05-31', recurring: true},
+			{startsOn: '2030-11-15', endsOn: '2031-02-15', recurring: true},
+		];
+
+		const creation = await client.post('/products').send({
+			type: 'SEASONAL', name: 'Chestnuts', leadTime: 15, available: 3, seasonWindows,
+		}).expect(201);
+		const productId = (creation.body as {id: number}).id;
+		const response = await client.get(`/products/${productId}/season-windows`).expect(200);
+
+		expect(response.body).toEqual(seasonWindows);
+	});
+
+	it('should expose the stock movements of a product and reconcile the stock', async () => {
+		const client = supertest(fastify.server);
+		const creation = await client.post('/products').send({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 3,
+		}).expect(201);
+		const productId = (creation.body as {id: number}).id;
+		await client.patch(`/products/${productId}`).send({available: 1}).expect(200);
+
+		const history = await client.get(`/products/${productId}/stock-movements`).expect(200);
+		const reconciliation = await client.get('/stock/reconciliation').expect(200);
+
+		expect(history.body).toMatchObject([
+			{kind: 'INITIAL', quantity: 3, balanceAfter: 3},
+			{kind: 'MANUAL_ADJUSTMENT', quantity: -2, balanceAfter: 1},
+		]);
+		expect(reconciliation.body).toMatchObject({checkedProducts: 1, drifts: []});
+	});
+
+	it('should define a bundle from its components and process it as one line', async () => {
+		const client = supertest(fastify.server);
+		const card = await client.post('/products').send({
+			type: 'NORMAL', name: 'Greeting Card', leadTime: 5, available: 3,
+		}).expect(201);
+		const milk = await client.post('/products').send({
+			type: 'EXPIRABLE', name: 'Milk', leadTime: 5, available: 3, expiryDate: '2000-01-01T00:00:00.000Z',
+		}).expect(201);
+		const cardId = (card.body as {id: number}).id;
+		const milkId = (milk.body as {id: number}).id;
+
+		const bundle = await client.post('/products').send({
+			type: 'BUNDLE', name: 'Breakfast Box', leadTime: 5, components: [{productId: cardId, quantity: 1}, {productId: milkId, quantity: 2}],
+		}).expect(201);
+		const bundleId = (bundle.body as {id: number}).id;
+		const components = await client.get(`/products/${bundleId}/components`).expect(200);
+		await client.post('/products').send({
+			type: 'BUNDLE', name: 'Box of boxes', leadTime: 5, components: [{productId: bundleId}],
+		}).expect(422);
+		await client.delete(`/products/${cardId}`).expect(409);
+		const order = await client.post('/orders').send({lines: [{productId: bundleId, quantity: 1}]}).expect(201);
+		const processing = await client.post(`/orders/${(order.body as {id: number}).id}/processOrder`).expect(200);
+
+		expect(bundle.body).toMatchObject({type: 'BUNDLE', available: 0});
+		expect(components.body).toEqual([{productId: cardId, quantity: 1}, {productId: milkId, quantity: 2}]);
+		expect(processing.body).toMatchObject({
+			status: 'CANCELLED',
+			lines: [{
+				productId: bundleId,
+				fulfilledQuantity: 0,
+				outcome: 'EXPIRED',
+				blockedBy: {productId: milkId, productName: 'Milk', outcome: 'EXPIRED'},
+			}],
+		});
+		await client.get(`/products/${cardId}`).expect(200).expect(response => {
+			expect(response.body).toMatchObject({available: 3});
+		});
+	});
+});
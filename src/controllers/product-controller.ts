@@ -0,0 +1,182 @@
+import fastifyPlugin from 'fastify-plugin';
+import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
+import {z} from 'zod';
+import {productSchema, stockMovementSchema} from './schemas.js';
+import {productPatchSchema} from '@/services/impl/product-catalog.service.js';
+
+const productParametersSchema = z.object({
+	productId: z.coerce.number(),
+});
+
+export const productController = fastifyPlugin(async server => {
+	// Add schema validator and serializer
+	server.setValidatorCompiler(validatorCompiler);
+	server.setSerializerCompiler(serializerCompiler);
+	// Products of every type a strategy is registered for can be defined
+	const productDefinitionSchema = server.diContainer.resolve('productStrategyRegistry').definitionSchema;
+
+	server.withTypeProvider<ZodTypeProvider>().post('/products', {
+		schema: {
+			body: productDefinitionSchema,
+			response: {
+				201: productSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const product = await productCatalogService.createProduct(request.body);
+
+		await reply.status(201).send(product);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products', {
+		schema: {
+			querystring: z.object({
+				type: z.string().optional(),
+			}),
+			response: {
+				200: z.array(productSchema),
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const productList = await productCatalogService.listProducts(request.query.type);
+
+		await reply.send(productList);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products/:productId', {
+		schema: {
+			params: productParametersSchema,
+			response: {
+				200: productSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const product = await productCatalogService.getProduct(request.params.productId);
+
+		await reply.send(product);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().put('/products/:productId', {
+		schema: {
+			params: productParametersSchema,
+			body: productDefinitionSchema,
+			response: {
+				200: productSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const product = await productCatalogService.replaceProduct(request.params.productId, request.body);
+
+		await reply.send(product);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().patch('/products/:productId', {
+		schema: {
+			params: productParametersSchema,
+			body: productPatchSchema,
+			response: {
+				200: productSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const product = await productCatalogService.updateProduct(request.params.productId, request.body);
+
+		await reply.send(product);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().delete('/products/:productId', {
+		schema: {
+			params: productParametersSchema,
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		await productCatalogService.deleteProduct(request.params.productId);
+
+		await reply.status(204).send();
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products/:productId/stock-movements', {
+		schema: {
+			params: productParametersSchema,
+			response: {
+				200: z.array(stockMovementSchema),
+			},
+		},
+	}, async (request, reply) => {
+		const stockLedgerService = server.diContainer.resolve('stockLedgerService');
+
+		const history = await stockLedgerService.getHistory(request.params.productId);
+
+		await reply.send(history);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products/:productId/components', {
+		schema: {
+			params: productParametersSchema,
+			response: {
+				200: z.array(z.object({
+					productId: z.number(),
+					quantity: z.number(),
+				})),
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const components = await productCatalogService.getBundleComponents(request.params.productId);
+
+		await reply.send(components);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products/:productId/season-windows', {
+		schema: {
+			params: productParametersSchema,
+			response: {
+				200: z.array(z.object({
+					startsOn: z.string(),
+					endsOn: z.string(),
+					recurring: z.boolean(),
+				})),
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const seasonWindows = await productCatalogService.getSeasonWindows(request.params.productId);
+
+		await reply.send(seasonWindows);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products/:productId/lots', {
+		schema: {
+			params: productParametersSchema,
+			response: {
+				200: z.array(z.object({
+					id: z.number(),
+					lotNumber: z.string(),
+					quantity: z.number(),
+					expiryDate: z.date(),
+					receivedAt: z.date(),
+					receiptId: z.number().nullable(),
+				})),
+			},
+		},
+	}, async (request, reply) => {
+		const productCatalogService = server.diContainer.resolve('productCatalogService');
+
+		const lots = await productCatalogService.listStockLots(request.params.productId);
+
+		await reply.send(lots);
+	});
+});
@@ -0,0 +1,66 @@
+import {
+	describe, it, expect, beforeEach,
+	afterEach,
+} from 'vitest';
+import {type FastifyInstance} from 'fastify';
+import supertest from 'supertest';
+import {buildFastify} from '@/fastify.js';
+
+describe('PurchasingController Integration Tests', () => {
+	let fastify: FastifyInstance;
+
+	beforeEach(async () => {
+		fastify = await buildFastify();
+		await fastify.ready();
+	});
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	it('should draft a purchase order once an order leaves the stock below the reorder point, then take it through to receipt', async () => {
+		const client = supertest(fastify.server);
+		await client.post('/products').send({
+			type: 'NORMAL', name: 'USB Cable', available: 6, leadTime: 10, reorderPoint: 5,
+		}).expect(201);
+		await client.post('/suppliers').send({name: 'Cables & Co', email: 'orders@cables.example'}).expect(201);
+		const terms = await client.put('/products/1/suppliers/1').send({leadTime: 2, minimumOrderQuantity: 10}).expect(200);
+
+		const order = await client.post('/orders').send({lines: [{productId: 1, quantity: 2}]}).expect(201);
+		await client.post(`/orders/${(order.body as {id: number}).id}/processOrder`).expect(200);
+		const drafts = await client.get('/purchase-orders?status=DRAFT').expect(200);
+		const purchaseOrderId = (drafts.body as Array<{id: number}>)[0]!.id;
+		await client.post(`/purchase-orders/${purchaseOrderId}/approve`).expect(200);
+		const sent = await client.post(`/purchase-orders/${purchaseOrderId}/send`).expect(200);
+		const received = await client.post(`/purchase-orders/${purchaseOrderId}/receive`).send({}).expect(200);
+		const product = await client.get('/products/1').expect(200);
+
+		expect(terms.body).toEqual({
+			productId: 1, supplierId: 1, leadTime: 2, minimumOrderQuantity: 10,
+		});
+		expect(drafts.body).toMatchObject([{supplierId: 1, status: 'DRAFT', lines: [{productId: 1, quantity: 10}]}]);
+		expect(sent.body).toMatchObject({status: 'SENT', expectedOn: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/) as string});
+		expect(received.body).toMatchObject({status: 'RECEIVED', receiptId: 1});
+		expect(product.body).toMatchObject({available: 14, reorderPoint: 5});
+	});
+
+	it('should refuse an illegal transition and unknown suppliers', async () => {
+		const client = supertest(fastify.server);
+		await client.post('/products').send({
+			type: 'NORMAL', name: 'USB Cable', available: 1, leadTime: 10, reorderPoint: 5,
+		}).expect(201);
+		await client.post('/suppliers').send({name: 'Cables & Co'}).expect(201);
+		await client.put('/products/1/suppliers/1').send({leadTime: 2}).expect(200);
+		const order = await client.post('/orders').send({lines: [{productId: 1, quantity: 1}]}).expect(201);
+		await client.post(`/orders/${(order.body as {id: number}).id}/processOrder`).expect(200);
+
+		const receiving = await client.post('/purchase-orders/1/receive').send({}).expect(409);
+		const unknownSupplier = await client.put('/products/1/suppliers/2').send({leadTime: 2}).expect(404);
+		await client.post('/suppliers').send({name: 'Cables & Co', email: 'not an email'}).expect(400);
+		await client.delete('/products/1/suppliers/1').expect(204);
+		const suppliers = await client.get('/products/1/suppliers').expect(200);
+
+		expect(receiving.body).toMatchObject({code: 'ILLEGAL_PURCHASE_ORDER_STATUS_TRANSITION'});
+		expect(unknownSupplier.body).toMatchObject({code: 'SUPPLIER_NOT_FOUND'});
+		expect(suppliers.body).toEqual([]);
+	});
+});
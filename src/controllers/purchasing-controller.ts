@@ -0,0 +1,243 @@
+import fastifyPlugin from 'fastify-plugin';
+import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
+import {z} from 'zod';
+import {PURCHASE_ORDER_STATUSES} from '@/db/schema.js';
+
+const supplierSchema = z.object({
+	id: z.number(),
+	name: z.string(),
+	email: z.string().nullable(),
+	createdAt: z.date(),
+});
+
+const productSupplierSchema = z.object({
+	productId: z.number(),
+	supplierId: z.number(),
+	leadTime: z.number(),
+	minimumOrderQuantity: z.number(),
+});
+
+const purchaseOrderSchema = z.object({
+	id: z.number(),
+	supplierId: z.number(),
+	status: z.enum(PURCHASE_ORDER_STATUSES),
+	createdAt: z.date(),
+	approvedAt: z.date().nullable(),
+	sentAt: z.date().nullable(),
+	expectedOn: z.string().nullable(),
+	receivedAt: z.date().nullable(),
+	receiptId: z.number().nullable(),
+	lines: z.array(z.object({
+		productId: z.number(),
+		quantity: z.number(),
+	})),
+});
+
+const createSupplierBodySchema = z.object({
+	name: z.string().min(1),
+	email: z.string().email().optional(),
+});
+
+const supplyTermsBodySchema = z.object({
+	leadTime: z.number().int().min(0),
+	minimumOrderQuantity: z.number().int().positive().default(1),
+});
+
+const receivePurchaseOrderBodySchema = z.object({
+	lines: z.array(z.object({
+		productId: z.number().int().positive(),
+		// Zero when the line was not delivered at all
+		quantity: z.number().int().min(0).optional(),
+		expiryDate: z.coerce.date().optional(),
+		lotNumber: z.string().min(1).optional(),
+	})).refine(
+		lines => new Set(lines.map(({productId}) => productId)).size === lines.length,
+		{message: 'Each product can only appear on one line'},
+	).default([]),
+}).default({});
+
+const supplierParametersSchema = z.object({
+	supplierId: z.coerce.number(),
+});
+
+const productSupplierParametersSchema = z.object({
+	productId: z.coerce.number(),
+	supplierId: z.coerce.number(),
+});
+
+const purchaseOrderParametersSchema = z.object({
+	purchaseOrderId: z.coerce.number(),
+});
+
+export const purchasingController = fastifyPlugin(async server => {
+	// Add schema validator and serializer
+	server.setValidatorCompiler(validatorCompiler);
+	server.setSerializerCompiler(serializerCompiler);
+
+	server.withTypeProvider<ZodTypeProvider>().post('/suppliers', {
+		schema: {
+			body: createSupplierBodySchema,
+			response: {
+				201: supplierSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const supplierService = server.diContainer.resolve('supplierService');
+
+		const supplier = await supplierService.createSupplier(request.body);
+
+		await reply.status(201).send(supplier);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/suppliers', {
+		schema: {
+			response: {
+				200: z.array(supplierSchema),
+			},
+		},
+	}, async (_request, reply) => {
+		const supplierService = server.diContainer.resolve('supplierService');
+
+		const supplierList = await supplierService.listSuppliers();
+
+		await reply.send(supplierList);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/suppliers/:supplierId', {
+		schema: {
+			params: supplierParametersSchema,
+			response: {
+				200: supplierSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const supplierService = server.diContainer.resolve('supplierService');
+
+		const supplier = await supplierService.getSupplier(request.params.supplierId);
+
+		await reply.send(supplier);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/products/:productId/suppliers', {
+		schema: {
+			params: z.object({
+				productId: z.coerce.number(),
+			}),
+			response: {
+				200: z.array(productSupplierSchema),
+			},
+		},
+	}, async (request, reply) => {
+		const supplierService = server.diContainer.resolve('supplierService');
+
+		const productSuppliers = await supplierService.listProductSuppliers(request.params.productId);
+
+		await reply.send(productSuppliers);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().put('/products/:productId/suppliers/:supplierId', {
+		schema: {
+			params: productSupplierParametersSchema,
+			body: supplyTermsBodySchema,
+			response: {
+				200: productSupplierSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const supplierService = server.diContainer.resolve('supplierService');
+
+		const productSupplier = await supplierService.setProductSupplier(request.params.productId, request.params.supplierId, request.body);
+
+		await reply.send(productSupplier);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().delete('/products/:productId/suppliers/:supplierId', {
+		schema: {
+			params: productSupplierParametersSchema,
+		},
+	}, async (request, reply) => {
+		const supplierService = server.diContainer.resolve('supplierService');
+
+		await supplierService.removeProductSupplier(request.params.productId, request.params.supplierId);
+
+		await reply.status(204).send();
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/purchase-orders', {
+		schema: {
+			querystring: z.object({
+				status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+			}),
+			response: {
+				200: z.array(purchaseOrderSchema),
+			},
+		},
+	}, async (request, reply) => {
+		const purchaseOrderService = server.diContainer.resolve('purchaseOrderService');
+
+		const purchaseOrderList = await purchaseOrderService.listPurchaseOrders(request.query.status);
+
+		await reply.send(purchaseOrderList);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/purchase-orders/:purchaseOrderId', {
+		schema: {
+			params: purchaseOrderParametersSchema,
+			response: {
+				200: purchaseOrderSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const purchaseOrderService = server.diContainer.resolve('purchaseOrderService');
+
+		const purchaseOrder = await purchaseOrderService.getPurchaseOrder(request.params.purchaseOrderId);
+
+		await reply.send(purchaseOrder);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/purchase-orders/:purchaseOrderId/approve', {
+		schema: {
+			params: purchaseOrderParametersSchema,
+			response: {
+				200: purchaseOrderSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const purchaseOrderService = server.diContainer.resolve('purchaseOrderService');
+
+		const purchaseOrder = await purchaseOrderService.approvePurchaseOrder(request.params.purchaseOrderId);
+
+		await reply.send(purchaseOrder);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/purchase-orders/:purchaseOrderId/send', {
+		schema: {
+			params: purchaseOrderParametersSchema,
+			response: {
+				200: purchaseOrderSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const purchaseOrderService = server.diContainer.resolve('purchaseOrderService');
+
+		const purchaseOrder = await purchaseOrderService.sendPurchaseOrder(request.params.purchaseOrderId);
+
+		await reply.send(purchaseOrder);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/purchase-orders/:purchaseOrderId/receive', {
+		schema: {
+			params: purchaseOrderParametersSchema,
+			body: receivePurchaseOrderBodySchema,
+			response: {
+				200: purchaseOrderSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const purchaseOrderService = server.diContainer.resolve('purchaseOrderService');
+
+		const purchaseOrder = await purchaseOrderService.receivePurchaseOrder(request.params.purchaseOrderId, request.body.lines);
+
+		await reply.send(purchaseOrder);
+	});
+});
@@ -0,0 +1,25 @@
+import {z} from 'zod';
+import {STOCK_MOVEMENT_KINDS} from '@/db/schema.js';
+
+export const productSchema = z.object({
+	id: z.number(),
+	leadTime: z.number(),
+	available: z.number(),
+	type: z.string(),
+	name: z.string(),
+	expiryDate: z.date().nullable(),
+	seasonStartDate: z.date().nullable(),
+	seasonEndDate: z.date().nullable(),
+	reorderPoint: z.number().nullable(),
+});
+
+export const stockMovementSchema = z.object({
+	id: z.number(),
+	productId: z.number(),
+	kind: z.enum(STOCK_MOVEMENT_KINDS),
+	quantity: z.number(),
+	balanceAfter: z.number(),
+	orderId: z.number().nullable(),
+	reference: z.string().nullable(),
+	occurredAt: z.date(),
+});
@@ -0,0 +1,146 @@
+import {
+	describe, it, expect, beforeEach,
+	afterEach,
+} from 'vitest';
+import {type FastifyInstance} from 'fastify';
+import supertest from 'supertest';
+import {products, productSuppliers, suppliers} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+import {buildFastify} from '@/fastify.js';
+
+describe('StockController Integration Tests', () => {
+	let fastify: FastifyInstance;
+	let database: Database;
+
+	beforeEach(async () => {
+		fastify = await buildFastify();
+		await fastify.ready();
+		database = fastify.database;
+	});
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	it('should receive goods and return the recorded receipt', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 10, available: 0, type: 'NORMAL', name: 'USB Dongle',
+		});
+
+		const creation = await client.post('/stock/receipts')
+			.send({supplierReference: 'DN-2042', lines: [{productId: 1, quantity: 12}]})
+			.expect(201);
+		const retrieval = await client.get(`/stock/receipts/${(creation.body as {id: number}).id}`).expect(200);
+
+		expect(retrieval.body).toEqual(creation.body);
+		expect(creation.body).toMatchObject({supplierReference: 'DN-2042', lines: [{productId: 1, quantity: 12, expiryDate: null}]});
+		const product = await database.query.products.findFirst();
+		expect(product?.available).toBe(12);
+	});
+
+	it('should refuse expiry dates on goods that do not expire and unknown products', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 10, available: 0, type: 'NORMAL', name: 'USB Dongle',
+		});
+
+		const expiring = await client.post('/stock/receipts')
+			.send({supplierReference: 'DN-2042', lines: [{productId: 1, quantity: 12, expiryDate: '2030-01-01'}]})
+			.expect(422);
+		const unknown = await client.post('/stock/receipts')
+			.send({supplierReference: 'DN-2042', lines: [{productId: 7, quantity: 12}]})
+			.expect(422);
+
+		expect(expiring.body).toMatchObject({code: 'INVALID_GOODS_RECEIPT'});
+		expect(unknown.body).toMatchObject({code: 'UNKNOWN_PRODUCT'});
+	});
+
+	it('should serve waiting backorders when goods are received', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 10, available: 1, type: 'NORMAL', name: 'USB Dongle',
+		});
+		const creation = await client.post('/orders').send({lines: [{productId: 1, quantity: 3}]}).expect(201);
+		const orderId = (creation.body as {id: number}).id;
+		await client.post(`/orders/${orderId}/processOrder`).expect(200);
+
+		const waiting = await client.get('/stock/backorders').expect(200);
+		await client.post('/stock/receipts')
+			.send({supplierReference: 'DN-2043', lines: [{productId: 1, quantity: 5}]})
+			.expect(201);
+		const order = await client.get(`/orders/${orderId}`).expect(200);
+
+		expect(waiting.body).toMatchObject([{orderId, productId: 1, quantity: 2}]);
+		expect(order.body).toMatchObject({
+			status: 'FULFILLED',
+			lines: [{productId: 1, quantity: 3, fulfilledQuantity: 3}],
+			backorders: [{productId: 1, quantity: 0, status: 'FULFILLED'}],
+		});
+		const product = await database.query.products.findFirst();
+		expect(product?.available).toBe(3);
+		await client.get('/stock/backorders').expect(200, []);
+	});
+
+	it('should track expirable goods by lot and only write off the expired lot', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(products).values({
+			leadTime: 10, available: 0, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date('2030-01-01'),
+		});
+
+		await client.post('/stock/receipts')
+			.send({
+				supplierReference: 'DN-1',
+				lines: [{
+					productId: 1, quantity: 2, expiryDate: '2000-01-01', lotNumber: 'L-OLD',
+				}],
+			})
+			.expect(201);
+		await client.post('/stock/receipts')
+			.send({supplierReference: 'DN-2', lines: [{productId: 1, quantity: 3, expiryDate: '2030-06-01'}]})
+			.expect(201);
+		const creation = await client.post('/orders').send({lines: [{productId: 1, quantity: 2}]}).expect(201);
+		const processing = await client.post(`/orders/${(creation.body as {id: number}).id}/processOrder`).expect(200);
+		const lots = await client.get('/products/1/lots').expect(200);
+		const movements = await client.get('/products/1/stock-movements').expect(200);
+
+		expect(processing.body).toMatchObject({status: 'FULFILLED', lines: [{fulfilledQuantity: 2, stockBefore: 5, stockAfter: 1}]});
+		expect(lots.body).toMatchObject([
+			{lotNumber: 'L-OLD', quantity: 0},
+			{lotNumber: 'DN-2', quantity: 1},
+		]);
+		expect((movements.body as Array<{kind: string; quantity: number; reference: string}>).map(({kind, quantity, reference}) => [kind, quantity, reference])).toEqual([
+			['RESTOCK', 2, 'DN-1'],
+			['RESTOCK', 3, 'DN-2'],
+			['EXPIRY_WRITE_OFF', -2, 'L-OLD'],
+			['ORDER_CONSUMPTION', -2, 'DN-2'],
+		]);
+	});
+
+	it('should report the products left below their reorder point with their lead times', async () => {
+		const client = supertest(fastify.server);
+		await database.insert(suppliers).values({id: 1, name: 'Cables & Co'});
+		await database.insert(products).values([
+			{
+				leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Cable', reorderPoint: 8,
+			},
+			{
+				leadTime: 10, available: 10, type: 'NORMAL', name: 'USB Dongle', reorderPoint: 2,
+			},
+		]);
+		await database.insert(productSuppliers).values({
+			productId: 1, supplierId: 1, leadTime: 4, minimumOrderQuantity: 1,
+		});
+		const creation = await client.post('/orders').send({lines: [{productId: 1, quantity: 3}, {productId: 2, quantity: 3}]}).expect(201);
+		await client.post(`/orders/${(creation.body as {id: number}).id}/processOrder`).expect(200);
+
+		const report = await client.get('/stock/low-stock').expect(200);
+
+		expect(report.body).toMatchObject({
+			products: [{
+				productId: 1, productName: 'USB Cable', available: 7, reorderPoint: 8, leadTime: 15, supplierLeadTime: 4, onOrder: 1,
+			}],
+		});
+		const metrics = await client.get('/metrics/events').expect(200);
+		expect(metrics.body).toMatchObject({ProductLowOnStock: 1});
+	});
+});
@@ -0,0 +1,147 @@
+import fastifyPlugin from 'fastify-plugin';
+import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
+import {z} from 'zod';
+import {BACKORDER_STATUSES} from '@/db/schema.js';
+
+const stockReconciliationSchema = z.object({
+	checkedAt: z.date(),
+	checkedProducts: z.number(),
+	drifts: z.array(z.object({
+		productId: z.number(),
+		productName: z.string(),
+		available: z.number(),
+		ledgerBalance: z.number(),
+		drift: z.number(),
+	})),
+});
+
+const lowStockReportSchema = z.object({
+	checkedAt: z.date(),
+	products: z.array(z.object({
+		productId: z.number(),
+		productName: z.string(),
+		available: z.number(),
+		reorderPoint: z.number(),
+		leadTime: z.number(),
+		supplierLeadTime: z.number().optional(),
+		onOrder: z.number(),
+	})),
+});
+
+const goodsReceiptSchema = z.object({
+	id: z.number(),
+	supplierReference: z.string(),
+	receivedAt: z.date(),
+	lines: z.array(z.object({
+		productId: z.number(),
+		quantity: z.number(),
+		expiryDate: z.date().nullable(),
+		lotNumber: z.string().nullable(),
+	})),
+});
+
+const backorderSchema = z.object({
+	id: z.number(),
+	orderId: z.number(),
+	productId: z.number(),
+	quantity: z.number(),
+	status: z.enum(BACKORDER_STATUSES),
+	createdAt: z.date(),
+	closedAt: z.date().nullable(),
+});
+
+const receiveGoodsBodySchema = z.object({
+	supplierReference: z.string().min(1),
+	lines: z.array(z.object({
+		productId: z.number().int().positive(),
+		quantity: z.number().int().positive(),
+		expiryDate: z.coerce.date().optional(),
+		lotNumber: z.string().min(1).optional(),
+	})).min(1).refine(
+		lines => new Set(lines.map(({productId}) => productId)).size === lines.length,
+		{message: 'Each product can only appear on one line'},
+	),
+});
+
+export const stockController = fastifyPlugin(async server => {
+	// Add schema validator and serializer
+	server.setValidatorCompiler(validatorCompiler);
+	server.setSerializerCompiler(serializerCompiler);
+
+	server.withTypeProvider<ZodTypeProvider>().post('/stock/receipts', {
+		schema: {
+			body: receiveGoodsBodySchema,
+			response: {
+				201: goodsReceiptSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const goodsReceivingService = server.diContainer.resolve('goodsReceivingService');
+
+		const receipt = await goodsReceivingService.receiveGoods(request.body);
+
+		await reply.status(201).send(receipt);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/stock/receipts/:receiptId', {
+		schema: {
+			params: z.object({
+				receiptId: z.coerce.number(),
+			}),
+			response: {
+				200: goodsReceiptSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const goodsReceivingService = server.diContainer.resolve('goodsReceivingService');
+
+		const receipt = await goodsReceivingService.getReceipt(request.params.receiptId);
+
+		await reply.send(receipt);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/stock/reconciliation', {
+		schema: {
+			response: {
+				200: stockReconciliationSchema,
+			},
+		},
+	}, async (_request, reply) => {
+		const stockLedgerService = server.diContainer.resolve('stockLedgerService');
+
+		const reconciliation = await stockLedgerService.reconcile();
+
+		await reply.send(reconciliation);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/stock/low-stock', {
+		schema: {
+			response: {
+				200: lowStockReportSchema,
+			},
+		},
+	}, async (_request, reply) => {
+		const lowStockService = server.diContainer.resolve('lowStockService');
+
+		const report = await lowStockService.getReport();
+
+		await reply.send(report);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/stock/backorders', {
+		schema: {
+			querystring: z.object({
+				productId: z.coerce.number().int().optional(),
+			}),
+			response: {
+				200: z.array(backorderSchema),
+			},
+		},
+	}, async (request, reply) => {
+		const backorderService = server.diContainer.resolve('backorderService');
+
+		const backorders = await backorderService.listOpenBackorders(request.query.productId);
+
+		await reply.send(backorders);
+	});
+});
@@ -0,0 +1,61 @@
+import {
+	describe, it, expect, beforeEach,
+	afterEach,
+} from 'vitest';
+import {type FastifyInstance} from 'fastify';
+import supertest from 'supertest';
+import {buildFastify} from '@/fastify.js';
+
+describe('WebhookController Integration Tests', () => {
+	let fastify: FastifyInstance;
+
+	beforeEach(async () => {
+		fastify = await buildFastify();
+		await fastify.ready();
+	});
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	it('should register a subscription and queue a delivery of each event it asked for', async () => {
+		const client = supertest(fastify.server);
+		await client.post('/products').send({
+			type: 'NORMAL', name: 'USB Cable', available: 1, leadTime: 10,
+		}).expect(201);
+
+		const creation = await client.post('/webhooks').send({
+			url: 'https://partner.example/hooks', eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123',
+		}).expect(201);
+		const subscriptionId = (creation.body as {id: number}).id;
+		const order = await client.post('/orders').send({lines: [{productId: 1, quantity: 1}]}).expect(201);
+		await client.post(`/orders/${(order.body as {id: number}).id}/processOrder`).expect(200);
+		const deliveries = await client.get(`/webhooks/${subscriptionId}/deliveries`).expect(200);
+
+		expect(creation.body).toMatchObject({
+			url: 'https://partner.example/hooks', eventTypes: ['ORDER_FULFILLED'], status: 'ACTIVE', consecutiveFailures: 0,
+		});
+		expect(creation.body).not.toHaveProperty('secret');
+		expect(deliveries.body).toMatchObject([{
+			eventType: 'ORDER_FULFILLED', payload: {orderId: 1}, status: 'PENDING', attempts: [],
+		}]);
+	});
+
+	it('should refuse an invalid subscription and remove a subscription with its deliveries', async () => {
+		const client = supertest(fastify.server);
+
+		await client.post('/webhooks').send({url: 'ftp://partner.example', eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123'}).expect(400);
+		await client.post('/webhooks').send({url: 'https://partner.example', eventTypes: [], secret: 'partner-secret-0123'}).expect(400);
+		await client.post('/webhooks').send({url: 'https://partner.example', eventTypes: ['ORDER_FULFILLED'], secret: 'short'}).expect(400);
+		const metadata = await client.post('/webhooks').send({url: 'http://169.254.169.254/latest', eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123'}).expect(422);
+		await client.post('/webhooks').send({url: 'http://[::ffff:127.0.0.1]:8080/hooks', eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123'}).expect(422);
+		await client.post('/webhooks').send({url: 'http://localhost/hooks', eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123'}).expect(422);
+		await client.post('/webhooks').send({url: 'https://partner.example', eventTypes: ['PRODUCT_OUT_OF_STOCK'], secret: 'partner-secret-0123'}).expect(201);
+		await client.delete('/webhooks/1').expect(204);
+
+		const missing = await client.get('/webhooks/1').expect(404);
+		const list = await client.get('/webhooks').expect(200);
+		expect(metadata.body).toMatchObject({code: 'WEBHOOK_TARGET_NOT_ALLOWED'});
+		expect(missing.body).toMatchObject({code: 'WEBHOOK_SUBSCRIPTION_NOT_FOUND'});
+		expect(list.body).toEqual([]);
+	});
+});
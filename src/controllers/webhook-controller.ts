@@ -0,0 +1,133 @@
+import fastifyPlugin from 'fastify-plugin';
+import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
+import {z} from 'zod';
+import {WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES, WEBHOOK_SUBSCRIPTION_STATUSES} from '@/db/schema.js';
+
+const webhookSubscriptionSchema = z.object({
+	id: z.number(),
+	url: z.string(),
+	eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)),
+	status: z.enum(WEBHOOK_SUBSCRIPTION_STATUSES),
+	consecutiveFailures: z.number(),
+	createdAt: z.date(),
+	disabledAt: z.date().nullable(),
+});
+
+const webhookDeliverySchema = z.object({
+	id: z.number(),
+	eventType: z.enum(WEBHOOK_EVENT_TYPES),
+	payload: z.record(z.unknown()),
+	status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+	attempts: z.array(z.object({
+		attemptedAt: z.date(),
+		statusCode: z.number().nullable(),
+		error: z.string().nullable(),
+		durationMs: z.number(),
+	})),
+	nextAttemptAt: z.date(),
+	createdAt: z.date(),
+	deliveredAt: z.date().nullable(),
+});
+
+const createWebhookSubscriptionBodySchema = z.object({
+	url: z.string().url().refine(url => /^https?:/.test(url), {message: 'Only http and https URLs can be subscribed'}),
+	eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+	// Shared with the partner to check the signature of each delivery
+	secret: z.string().min(16),
+});
+
+const webhookSubscriptionParametersSchema = z.object({
+	subscriptionId: z.coerce.number(),
+});
+
+export const webhookController = fastifyPlugin(async server => {
+	// Add schema validator and serializer
+	server.setValidatorCompiler(validatorCompiler);
+	server.setSerializerCompiler(serializerCompiler);
+
+	server.withTypeProvider<ZodTypeProvider>().post('/webhooks', {
+		schema: {
+			body: createWebhookSubscriptionBodySchema,
+			response: {
+				201: webhookSubscriptionSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const webhookSubscriptionService = server.diContainer.resolve('webhookSubscriptionService');
+
+		const subscription = await webhookSubscriptionService.createSubscription(request.body);
+
+		await reply.status(201).send(subscription);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/webhooks', {
+		schema: {
+			response: {
+				200: z.array(webhookSubscriptionSchema),
+			},
+		},
+	}, async (_request, reply) => {
+		const webhookSubscriptionService = server.diContainer.resolve('webhookSubscriptionService');
+
+		const subscriptions = await webhookSubscriptionService.listSubscriptions();
+
+		await reply.send(subscriptions);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/webhooks/:subscriptionId', {
+		schema: {
+			params: webhookSubscriptionParametersSchema,
+			response: {
+				200: webhookSubscriptionSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const webhookSubscriptionService = server.diContainer.resolve('webhookSubscriptionService');
+
+		const subscription = await webhookSubscriptionService.getSubscription(request.params.subscriptionId);
+
+		await reply.send(subscription);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().post('/webhooks/:subscriptionId/enable', {
+		schema: {
+			params: webhookSubscriptionParametersSchema,
+			response: {
+				200: webhookSubscriptionSchema,
+			},
+		},
+	}, async (request, reply) => {
+		const webhookSubscriptionService = server.diContainer.resolve('webhookSubscriptionService');
+
+		const subscription = await webhookSubscriptionService.enableSubscription(request.params.subscriptionId);
+
+		await reply.send(subscription);
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().delete('/webhooks/:subscriptionId', {
+		schema: {
+			params: webhookSubscriptionParametersSchema,
+		},
+	}, async (request, reply) => {
+		const webhookSubscriptionService = server.diContainer.resolve('webhookSubscriptionService');
+
+		await webhookSubscriptionService.deleteSubscription(request.params.subscriptionId);
+
+		await reply.status(204).send();
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/webhooks/:subscriptionId/deliveries', {
+		schema: {
+			params: webhookSubscriptionParametersSchema,
+			response: {
+				200: z.array(webhookDeliverySchema),
+			},
+		},
+	}, async (request, reply) => {
+		const webhookSubscriptionService = server.diContainer.resolve('webhookSubscriptionService');
+
+		const deliveries = await webhookSubscriptionService.listDeliveries(request.params.subscriptionId);
+
+		await reply.send(deliveries);
+	});
+});
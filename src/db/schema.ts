@@ -13,13 +13,48 @@ export const products = sqliteTable('products', {
 	expiryDate: integer('expiry_date', {mode: 'timestamp_ms'}),
 	seasonStartDate: integer('season_start_date', {mode: 'timestamp_ms'}),
 	seasonEndDate: integer('season_end_date', {mode: 'timestamp_ms'}),
+	// Stock level under which a purchase order is drafted, none when the product is not reordered automatically
+	reorderPoint: integer('reorder_point'),
 });
 
 export type Product = typeof products.$inferSelect;
 export type ProductInsert = typeof products.$inferInsert;
 
+/**
+ * Bill of materials of BUNDLE products: how many of each component one bundle is made of.
+ */
+export const bundleComponents = sqliteTable('bundle_components', {
+	bundleId: integer('bundle_id').references(() => products.id).notNull(),
+	componentId: integer('component_id').references(() => products.id).notNull(),
+	quantity: integer('quantity').notNull(),
+}, table => ({
+	pk: primaryKey({columns: [table.bundleId, table.componentId]}),
+}));
+
+export type BundleComponent = typeof bundleComponents.$inferSelect;
+
+/**
+ * Period a SEASONAL product is sold in, from its first to its last day included, both business dates
+ * (YYYY-MM-DD in the business time zone). A recurring window comes back every year on the same days.
+ */
+export const seasonWindows = sqliteTable('season_windows', {
+	id: integer('id').notNull().primaryKey(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	startsOn: text('starts_on').notNull(),
+	endsOn: text('ends_on').notNull(),
+	recurring: integer('recurring', {mode: 'boolean'}).notNull().default(false),
+});
+
+export type SeasonWindow = typeof seasonWindows.$inferSelect;
+
+export const ORDER_STATUSES = ['PENDING', 'PROCESSING', 'FULFILLED', 'PARTIALLY_FULFILLED', 'BACKORDERED', 'CANCELLED'] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
 export const orders = sqliteTable('orders', {
 	id: integer('id').notNull().primaryKey(),
+	status: text('status', {enum: ORDER_STATUSES}).notNull().default('PENDING'),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull().$defaultFn(() => new Date()),
+	statusUpdatedAt: integer('status_updated_at', {mode: 'timestamp_ms'}).notNull().$defaultFn(() => new Date()),
 });
 
 export type Order = typeof orders.$inferSelect;
@@ -28,16 +63,330 @@ export type OrderInsert = typeof orders.$inferInsert;
 export const ordersToProducts = sqliteTable('orders_to_products', {
 	orderId: integer('order_id').references(() => orders.id).notNull(),
 	productId: integer('product_id').references(() => products.id).notNull(),
+	quantity: integer('quantity').notNull().default(1),
+	// Served so far, by processing then by backorder allocations
+	fulfilledQuantity: integer('fulfilled_quantity').notNull().default(0),
+	// Business date (YYYY-MM-DD) the line was promised for when the order was processed
+	promisedDate: text('promised_date'),
 }, t => ({
 	pk: primaryKey({columns: [t.orderId, t.productId]}),
 }));
 
+export type OrderLine = typeof ordersToProducts.$inferSelect;
+export type OrderLineInsert = typeof ordersToProducts.$inferInsert;
+
+export const orderStatusTransitions = sqliteTable('order_status_transitions', {
+	id: integer('id').notNull().primaryKey(),
+	orderId: integer('order_id').references(() => orders.id).notNull(),
+	fromStatus: text('from_status', {enum: ORDER_STATUSES}),
+	toStatus: text('to_status', {enum: ORDER_STATUSES}).notNull(),
+	occurredAt: integer('occurred_at', {mode: 'timestamp_ms'}).notNull(),
+});
+
+export type OrderStatusTransition = typeof orderStatusTransitions.$inferSelect;
+
+export const STOCK_MOVEMENT_KINDS = ['INITIAL', 'ORDER_CONSUMPTION', 'EXPIRY_WRITE_OFF', 'RESTOCK', 'MANUAL_ADJUSTMENT'] as const;
+export type StockMovementKind = (typeof STOCK_MOVEMENT_KINDS)[number];
+
+// Append-only: the sum of the quantities of a product is its stock
+export const stockMovements = sqliteTable('stock_movements', {
+	id: integer('id').notNull().primaryKey(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	kind: text('kind', {enum: STOCK_MOVEMENT_KINDS}).notNull(),
+	// Signed change of the stock
+	quantity: integer('quantity').notNull(),
+	balanceAfter: integer('balance_after').notNull(),
+	orderId: integer('order_id').references(() => orders.id),
+	reference: text('reference'),
+	occurredAt: integer('occurred_at', {mode: 'timestamp_ms'}).notNull(),
+});
+
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockMovementInsert = typeof stockMovements.$inferInsert;
+
+export const RESERVATION_STATUSES = ['ACTIVE', 'CONSUMED', 'RELEASED', 'EXPIRED'] as const;
+export type ReservationStatus = (typeof RESERVATION_STATUSES)[number];
+
+export const stockReservations = sqliteTable('stock_reservations', {
+	id: integer('id').notNull().primaryKey(),
+	orderId: integer('order_id').references(() => orders.id).notNull(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	quantity: integer('quantity').notNull(),
+	status: text('status', {enum: RESERVATION_STATUSES}).notNull().default('ACTIVE'),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull(),
+	expiresAt: integer('expires_at', {mode: 'timestamp_ms'}).notNull(),
+	closedAt: integer('closed_at', {mode: 'timestamp_ms'}),
+});
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
+export const BACKORDER_STATUSES = ['OPEN', 'FULFILLED', 'CANCELLED'] as const;
+export type BackorderStatus = (typeof BACKORDER_STATUSES)[number];
+
+export const backorders = sqliteTable('backorders', {
+	id: integer('id').notNull().primaryKey(),
+	orderId: integer('order_id').references(() => orders.id).notNull(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	// Quantity still owed to the customer
+	quantity: integer('quantity').notNull(),
+	status: text('status', {enum: BACKORDER_STATUSES}).notNull().default('OPEN'),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull(),
+	closedAt: integer('closed_at', {mode: 'timestamp_ms'}),
+});
+
+export type Backorder = typeof backorders.$inferSelect;
+
+export const goodsReceipts = sqliteTable('goods_receipts', {
+	id: integer('id').notNull().primaryKey(),
+	supplierReference: text('supplier_reference').notNull(),
+	receivedAt: integer('received_at', {mode: 'timestamp_ms'}).notNull(),
+});
+
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+
+export const goodsReceiptLines = sqliteTable('goods_receipt_lines', {
+	id: integer('id').notNull().primaryKey(),
+	receiptId: integer('receipt_id').references(() => goodsReceipts.id).notNull(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	quantity: integer('quantity').notNull(),
+	expiryDate: integer('expiry_date', {mode: 'timestamp_ms'}),
+	lotNumber: text('lot_number'),
+});
+
+export type GoodsReceiptLine = typeof goodsReceiptLines.$inferSelect;
+
+/**
+ * Stock of an expirable product received as one batch. The quantity is what is left of the lot,
+ * the product's own available stock includes it.
+ */
+export const stockLots = sqliteTable('stock_lots', {
+	id: integer('id').notNull().primaryKey(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	lotNumber: text('lot_number').notNull(),
+	quantity: integer('quantity').notNull(),
+	expiryDate: integer('expiry_date', {mode: 'timestamp_ms'}).notNull(),
+	receivedAt: integer('received_at', {mode: 'timestamp_ms'}).notNull(),
+	receiptId: integer('receipt_id').references(() => goodsReceipts.id),
+});
+
+export type StockLot = typeof stockLots.$inferSelect;
+
+export const suppliers = sqliteTable('suppliers', {
+	id: integer('id').notNull().primaryKey(),
+	name: text('name').notNull(),
+	email: text('email'),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull().$defaultFn(() => new Date()),
+});
+
+export type Supplier = typeof suppliers.$inferSelect;
+
+/**
+ * Supplier a product can be bought from, on the terms of that supplier.
+ */
+export const productSuppliers = sqliteTable('product_suppliers', {
+	productId: integer('product_id').references(() => products.id).notNull(),
+	supplierId: integer('supplier_id').references(() => suppliers.id).notNull(),
+	// Days the supplier takes to deliver
+	leadTime: integer('lead_time').notNull(),
+	minimumOrderQuantity: integer('minimum_order_quantity').notNull().default(1),
+}, table => ({
+	pk: primaryKey({columns: [table.productId, table.supplierId]}),
+}));
+
+export type ProductSupplier = typeof productSuppliers.$inferSelect;
+
+export const PURCHASE_ORDER_STATUSES = ['DRAFT', 'APPROVED', 'SENT', 'RECEIVED'] as const;
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export const purchaseOrders = sqliteTable('purchase_orders', {
+	id: integer('id').notNull().primaryKey(),
+	supplierId: integer('supplier_id').references(() => suppliers.id).notNull(),
+	status: text('status', {enum: PURCHASE_ORDER_STATUSES}).notNull().default('DRAFT'),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull().$defaultFn(() => new Date()),
+	approvedAt: integer('approved_at', {mode: 'timestamp_ms'}),
+	sentAt: integer('sent_at', {mode: 'timestamp_ms'}),
+	// Business date (YYYY-MM-DD) the goods are expected on, known once the order is sent
+	expectedOn: text('expected_on'),
+	receivedAt: integer('received_at', {mode: 'timestamp_ms'}),
+	receiptId: integer('receipt_id').references(() => goodsReceipts.id),
+});
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+export const purchaseOrderLines = sqliteTable('purchase_order_lines', {
+	id: integer('id').notNull().primaryKey(),
+	purchaseOrderId: integer('purchase_order_id').references(() => purchaseOrders.id).notNull(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	quantity: integer('quantity').notNull(),
+});
+
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+
+export const EXPIRY_SWEEP_TRIGGERS = ['SCHEDULED', 'MANUAL'] as const;
+export type ExpirySweepTrigger = (typeof EXPIRY_SWEEP_TRIGGERS)[number];
+
+export const EXPIRY_SWEEP_STATUSES = ['SUCCEEDED', 'FAILED'] as const;
+export type ExpirySweepStatus = (typeof EXPIRY_SWEEP_STATUSES)[number];
+
+/**
+ * Run of the expiry sweeper, which writes off the expired stock of every expirable product and
+ * warns about the stock about to expire. A failed run changed nothing.
+ */
+export const expirySweeps = sqliteTable('expiry_sweeps', {
+	id: integer('id').notNull().primaryKey(),
+	trigger: text('trigger', {enum: EXPIRY_SWEEP_TRIGGERS}).notNull(),
+	status: text('status', {enum: EXPIRY_SWEEP_STATUSES}).notNull(),
+	startedAt: integer('started_at', {mode: 'timestamp_ms'}).notNull(),
+	finishedAt: integer('finished_at', {mode: 'timestamp_ms'}).notNull(),
+	checkedProducts: integer('checked_products').notNull().default(0),
+	writtenOffQuantity: integer('written_off_quantity').notNull().default(0),
+	warnings: integer('warnings').notNull().default(0),
+	error: text('error'),
+});
+
+export type ExpirySweep = typeof expirySweeps.$inferSelect;
+
+/**
+ * Warning sent about stock about to expire, kept so that the same stock is only warned about once.
+ */
+export const expiryWarnings = sqliteTable('expiry_warnings', {
+	id: integer('id').notNull().primaryKey(),
+	sweepId: integer('sweep_id').references(() => expirySweeps.id).notNull(),
+	productId: integer('product_id').references(() => products.id).notNull(),
+	// None for stock that was not received as a lot, which expires with the product itself
+	lotId: integer('lot_id').references(() => stockLots.id),
+	quantity: integer('quantity').notNull(),
+	expiryDate: integer('expiry_date', {mode: 'timestamp_ms'}).notNull(),
+	warnedAt: integer('warned_at', {mode: 'timestamp_ms'}).notNull(),
+});
+
+export type ExpiryWarning = typeof expiryWarnings.$inferSelect;
+
+export const idempotencyKeys = sqliteTable('idempotency_keys', {
+	scope: text('scope').notNull(),
+	key: text('key').notNull(),
+	requestHash: text('request_hash').notNull(),
+	// Null while the original request is still running
+	response: text('response', {mode: 'json'}),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull(),
+}, t => ({
+	pk: primaryKey({columns: [t.scope, t.key]}),
+}));
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+
+export const NOTIFICATION_KINDS = ['DELAY', 'OUT_OF_STOCK', 'EXPIRATION', 'BACKORDER_FULFILLED'] as const;
+export type NotificationKind = (typeof NOTIFICATION_KINDS)[number];
+
+export const OUTBOX_MESSAGE_STATUSES = ['PENDING', 'DELIVERED', 'DEAD_LETTER'] as const;
+export type OutboxMessageStatus = (typeof OUTBOX_MESSAGE_STATUSES)[number];
+
+/**
+ * Notification written in the same transaction as the stock change that caused it,
+ * and delivered afterwards by the dispatcher.
+ */
+export const notificationOutbox = sqliteTable('notification_outbox', {
+	id: integer('id').notNull().primaryKey(),
+	kind: text('kind', {enum: NOTIFICATION_KINDS}).notNull(),
+	productName: text('product_name').notNull(),
+	leadTime: integer('lead_time'),
+	expiryDate: integer('expiry_date', {mode: 'timestamp_ms'}),
+	// Order served and quantity allocated to it, for a backorder fulfilled on restock
+	orderId: integer('order_id'),
+	quantity: integer('quantity'),
+	// Shared by the messages of one processed order when they are sent as a single digest
+	digestId: text('digest_id'),
+	status: text('status', {enum: OUTBOX_MESSAGE_STATUSES}).notNull().default('PENDING'),
+	attempts: integer('attempts').notNull().default(0),
+	nextAttemptAt: integer('next_attempt_at', {mode: 'timestamp_ms'}).notNull(),
+	lastError: text('last_error'),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull(),
+	deliveredAt: integer('delivered_at', {mode: 'timestamp_ms'}),
+});
+
+export type OutboxMessage = typeof notificationOutbox.$inferSelect;
+
+export const WEBHOOK_EVENT_TYPES = ['ORDER_FULFILLED', 'PRODUCT_OUT_OF_STOCK', 'PRODUCT_WRITTEN_OFF', 'PRODUCT_LOW_ON_STOCK', 'PRODUCT_EXPIRING_SOON'] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_SUBSCRIPTION_STATUSES = ['ACTIVE', 'DISABLED'] as const;
+export type WebhookSubscriptionStatus = (typeof WEBHOOK_SUBSCRIPTION_STATUSES)[number];
+
+export const webhookSubscriptions = sqliteTable('webhook_subscriptions', {
+	id: integer('id').notNull().primaryKey(),
+	url: text('url').notNull(),
+	eventTypes: text('event_types', {mode: 'json'}).$type<WebhookEventType[]>().notNull(),
+	// Key of the HMAC signature of every delivery, never sent back
+	secret: text('secret').notNull(),
+	status: text('status', {enum: WEBHOOK_SUBSCRIPTION_STATUSES}).notNull().default('ACTIVE'),
+	// Failed attempts since the last successful one, the subscription is disabled past a threshold
+	consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull(),
+	disabledAt: integer('disabled_at', {mode: 'timestamp_ms'}),
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+export const WEBHOOK_DELIVERY_STATUSES = ['PENDING', 'DELIVERED', 'FAILED'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * One event to send to one subscription, written in the transaction the event happened in.
+ */
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+	id: integer('id').notNull().primaryKey(),
+	subscriptionId: integer('subscription_id').references(() => webhookSubscriptions.id).notNull(),
+	eventType: text('event_type', {enum: WEBHOOK_EVENT_TYPES}).notNull(),
+	payload: text('payload', {mode: 'json'}).$type<Record<string, unknown>>().notNull(),
+	status: text('status', {enum: WEBHOOK_DELIVERY_STATUSES}).notNull().default('PENDING'),
+	attempts: integer('attempts').notNull().default(0),
+	nextAttemptAt: integer('next_attempt_at', {mode: 'timestamp_ms'}).notNull(),
+	createdAt: integer('created_at', {mode: 'timestamp_ms'}).notNull(),
+	deliveredAt: integer('delivered_at', {mode: 'timestamp_ms'}),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export const webhookDeliveryAttempts = sqliteTable('webhook_delivery_attempts', {
+	id: integer('id').notNull().primaryKey(),
+	deliveryId: integer('delivery_id').references(() => webhookDeliveries.id).notNull(),
+	attemptedAt: integer('attempted_at', {mode: 'timestamp_ms'}).notNull(),
+	// Null when no response was received at all
+	statusCode: integer('status_code'),
+	error: text('error'),
+	durationMs: integer('duration_ms').notNull(),
+});
+
+export type WebhookDeliveryAttempt = typeof webhookDeliveryAttempts.$inferSelect;
+
 export const productsRelations = relations(products, ({many}) => ({
 	orders: many(ordersToProducts),
+	stockMovements: many(stockMovements),
+	lots: many(stockLots),
+	seasonWindows: many(seasonWindows),
+	suppliers: many(productSuppliers),
+	components: many(bundleComponents, {relationName: 'bundle'}),
+	bundles: many(bundleComponents, {relationName: 'component'}),
+}));
+
+export const bundleComponentsRelations = relations(bundleComponents, ({one}) => ({
+	bundle: one(products, {
+		fields: [bundleComponents.bundleId],
+		references: [products.id],
+		relationName: 'bundle',
+	}),
+	component: one(products, {
+		fields: [bundleComponents.componentId],
+		references: [products.id],
+		relationName: 'component',
+	}),
 }));
 
 export const ordersRelations = relations(orders, ({many}) => ({
 	products: many(ordersToProducts),
+	statusTransitions: many(orderStatusTransitions),
+	reservations: many(stockReservations),
+	backorders: many(backorders),
 }));
 
 export const ordersToProductsRelations = relations(ordersToProducts, ({one}) => ({
@@ -51,3 +400,152 @@ export const ordersToProductsRelations = relations(ordersToProducts, ({one}) =>
 	}),
 }));
 
+export const orderStatusTransitionsRelations = relations(orderStatusTransitions, ({one}) => ({
+	order: one(orders, {
+		fields: [orderStatusTransitions.orderId],
+		references: [orders.id],
+	}),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({one}) => ({
+	product: one(products, {
+		fields: [stockMovements.productId],
+		references: [products.id],
+	}),
+	order: one(orders, {
+		fields: [stockMovements.orderId],
+		references: [orders.id],
+	}),
+}));
+
+export const stockReservationsRelations = relations(stockReservations, ({one}) => ({
+	product: one(products, {
+		fields: [stockReservations.productId],
+		references: [products.id],
+	}),
+	order: one(orders, {
+		fields: [stockReservations.orderId],
+		references: [orders.id],
+	}),
+}));
+
+export const goodsReceiptsRelations = relations(goodsReceipts, ({many}) => ({
+	lines: many(goodsReceiptLines),
+}));
+
+export const goodsReceiptLinesRelations = relations(goodsReceiptLines, ({one}) => ({
+	receipt: one(goodsReceipts, {
+		fields: [goodsReceiptLines.receiptId],
+		references: [goodsReceipts.id],
+	}),
+	product: one(products, {
+		fields: [goodsReceiptLines.productId],
+		references: [products.id],
+	}),
+}));
+
+export const seasonWindowsRelations = relations(seasonWindows, ({one}) => ({
+	product: one(products, {
+		fields: [seasonWindows.productId],
+		references: [products.id],
+	}),
+}));
+
+export const stockLotsRelations = relations(stockLots, ({one}) => ({
+	product: one(products, {
+		fields: [stockLots.productId],
+		references: [products.id],
+	}),
+	receipt: one(goodsReceipts, {
+		fields: [stockLots.receiptId],
+		references: [goodsReceipts.id],
+	}),
+}));
+
+export const backordersRelations = relations(backorders, ({one}) => ({
+	product: one(products, {
+		fields: [backorders.productId],
+		references: [products.id],
+	}),
+	order: one(orders, {
+		fields: [backorders.orderId],
+		references: [orders.id],
+	}),
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({many}) => ({
+	deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({one, many}) => ({
+	subscription: one(webhookSubscriptions, {
+		fields: [webhookDeliveries.subscriptionId],
+		references: [webhookSubscriptions.id],
+	}),
+	attempts: many(webhookDeliveryAttempts),
+}));
+
+export const webhookDeliveryAttemptsRelations = relations(webhookDeliveryAttempts, ({one}) => ({
+	delivery: one(webhookDeliveries, {
+		fields: [webhookDeliveryAttempts.deliveryId],
+		references: [webhookDeliveries.id],
+	}),
+}));
+
+export const suppliersRelations = relations(suppliers, ({many}) => ({
+	products: many(productSuppliers),
+	purchaseOrders: many(purchaseOrders),
+}));
+
+export const productSuppliersRelations = relations(productSuppliers, ({one}) => ({
+	product: one(products, {
+		fields: [productSuppliers.productId],
+		references: [products.id],
+	}),
+	supplier: one(suppliers, {
+		fields: [productSuppliers.supplierId],
+		references: [suppliers.id],
+	}),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({one, many}) => ({
+	supplier: one(suppliers, {
+		fields: [purchaseOrders.supplierId],
+		references: [suppliers.id],
+	}),
+	receipt: one(goodsReceipts, {
+		fields: [purchaseOrders.receiptId],
+		references: [goodsReceipts.id],
+	}),
+	lines: many(purchaseOrderLines),
+}));
+
+export const purchaseOrderLinesRelations = relations(purchaseOrderLines, ({one}) => ({
+	purchaseOrder: one(purchaseOrders, {
+		fields: [purchaseOrderLines.purchaseOrderId],
+		references: [purchaseOrders.id],
+	}),
+	product: one(products, {
+		fields: [purchaseOrderLines.productId],
+		references: [products.id],
+	}),
+}));
+
+export const expirySweepsRelations = relations(expirySweeps, ({many}) => ({
+	warnings: many(expiryWarnings),
+}));
+
+export const expiryWarningsRelations = relations(expiryWarnings, ({one}) => ({
+	sweep: one(expirySweeps, {
+		fields: [expiryWarnings.sweepId],
+		references: [expirySweeps.id],
+	}),
+	product: one(products, {
+		fields: [expiryWarnings.productId],
+		references: [products.id],
+	}),
+	lot: one(stockLots, {
+		fields: [expiryWarnings.lotId],
+		references: [stockLots.id],
+	}),
+}));
@@ -1,5 +1,9 @@
 import {type BetterSQLite3Database} from 'drizzle-orm/better-sqlite3';
+import {type BaseSQLiteDatabase} from 'drizzle-orm/sqlite-core';
+import {type RunResult} from 'better-sqlite3';
 import type * as schema from './schema.js';
 
 export type Database = BetterSQLite3Database<typeof schema>;
 
+// Either the database itself or an open transaction, both run queries synchronously
+export type DatabaseExecutor = BaseSQLiteDatabase<'sync', RunResult, typeof schema>;
@@ -1,11 +1,35 @@
 import {type Cradle, diContainer} from '@fastify/awilix';
-import {asClass, asValue} from 'awilix';
+import {asClass, asFunction, asValue} from 'awilix';
 import {type FastifyBaseLogger, type FastifyInstance} from 'fastify';
 import {type INotificationService} from '@/services/notifications.port.js';
-import {NotificationService} from '@/services/impl/notification.service.js';
+import {createNotificationService} from '@/services/impl/notification-adapters.js';
 import {type Database} from '@/db/type.js';
 import {ProductService} from '@/services/impl/product.service.js';
+import {
+	builtInProductStrategies, ProductStrategyRegistry, type ProductStrategies, type ProductStrategiesFactory,
+} from '@/services/impl/product-strategy-registry.js';
+import {type IClock} from '@/services/clock.port.js';
+import {SystemClock} from '@/services/impl/clock.js';
+import {BundleProductStrategy} from '@/services/impl/bundle-product-strategy.js';
 import {OrderProcessingService} from '@/services/impl/order-processing.service.js';
+import {OrderService} from '@/services/impl/order.service.js';
+import {ProductCatalogService} from '@/services/impl/product-catalog.service.js';
+import {IdempotencyService} from '@/services/impl/idempotency.service.js';
+import {StockLedgerService} from '@/services/impl/stock-ledger.service.js';
+import {GoodsReceivingService} from '@/services/impl/goods-receiving.service.js';
+import {type IFulfilmentNotificationService} from '@/services/fulfilment-notifications.port.js';
+import {BackorderService} from '@/services/impl/backorder.service.js';
+import {OrderSimulationService} from '@/services/impl/order-simulation.service.js';
+import {OutboxNotificationService} from '@/services/impl/notification-outbox.service.js';
+import {NotificationDispatcher} from '@/services/impl/notification-dispatcher.service.js';
+import {WebhookSubscriptionService} from '@/services/impl/webhook-subscription.service.js';
+import {WebhookDispatcher} from '@/services/impl/webhook-dispatcher.service.js';
+import {type IEventBus} from '@/services/event-bus.port.js';
+import {InProcessEventBus} from '@/services/impl/event-bus.js';
+import {SupplierService} from '@/services/impl/supplier.service.js';
+import {PurchaseOrderService} from '@/services/impl/purchase-order.service.js';
+import {LowStockService} from '@/services/impl/low-stock.service.js';
+import {ExpirySweeper} from '@/services/impl/expiry-sweeper.service.js';
 
 declare module '@fastify/awilix' {
 
@@ -13,8 +37,29 @@ declare module '@fastify/awilix' {
 		logger: FastifyBaseLogger;
 		db: Database;
 		ns: INotificationService;
+		fns: IFulfilmentNotificationService;
+		notificationOutbox: OutboxNotificationService;
+		notificationDispatcher: NotificationDispatcher;
+		clock: IClock;
+		eventBus: IEventBus;
+		createProductStrategies: ProductStrategiesFactory;
+		productStrategies: ProductStrategies;
+		productStrategyRegistry: ProductStrategyRegistry;
 		ps: ProductService;
 		orderProcessingService: OrderProcessingService;
+		orderService: OrderService;
+		productCatalogService: ProductCatalogService;
+		idempotencyService: IdempotencyService;
+		stockLedgerService: StockLedgerService;
+		goodsReceivingService: GoodsReceivingService;
+		backorderService: BackorderService;
+		orderSimulationService: OrderSimulationService;
+		webhookSubscriptionService: WebhookSubscriptionService;
+		webhookDispatcher: WebhookDispatcher;
+		supplierService: SupplierService;
+		purchaseOrderService: PurchaseOrderService;
+		lowStockService: LowStockService;
+		expirySweeper: ExpirySweeper;
 	}
 }
 
@@ -28,7 +73,43 @@ export async function configureDiContext(
 		db: asValue(server.database),
 	});
 	diContainer.register({
-		ns: asClass(NotificationService),
+		// Adapters are picked by the notifications.adapters configuration key, and shared so that rate limits hold
+		ns: asFunction(createNotificationService).singleton(),
+	});
+	diContainer.register({
+		// Fulfilled backorders are notified through the outbox, like the notifications of the strategies
+		fns: asFunction(({notificationOutbox}: Cradle): IFulfilmentNotificationService => notificationOutbox),
+	});
+	diContainer.register({
+		clock: asClass<IClock>(SystemClock).singleton(),
+	});
+	diContainer.register({
+		// Shared, so that order processing groups in one digest what the strategies queue
+		notificationOutbox: asClass(OutboxNotificationService).singleton(),
+	});
+	diContainer.register({
+		notificationDispatcher: asClass(NotificationDispatcher).singleton(),
+	});
+	diContainer.register({
+		// Register the strategy of any further product type here, keyed by that type
+		createProductStrategies: asFunction(({db}: Cradle): ProductStrategiesFactory => (ns, clock) => {
+			const strategies = builtInProductStrategies(ns, db, clock);
+			return {
+				...strategies,
+				BUNDLE: new BundleProductStrategy(db, strategies, clock),
+			};
+		}).singleton(),
+	});
+	diContainer.register({
+		// Strategies queue their notifications, the dispatcher delivers them through the notifier
+		productStrategies: asFunction(({createProductStrategies, notificationOutbox, clock}: Cradle) => createProductStrategies(notificationOutbox, clock)).singleton(),
+	});
+	diContainer.register({
+		productStrategyRegistry: asClass(ProductStrategyRegistry).singleton(),
+	});
+	diContainer.register({
+		// Shared by every publisher so that subscribers attached at startup see all events
+		eventBus: asClass<IEventBus>(InProcessEventBus).singleton(),
 	});
 	diContainer.register({
 		ps: asClass(ProductService),
@@ -36,6 +117,45 @@ export async function configureDiContext(
 	diContainer.register({
 		orderProcessingService: asClass(OrderProcessingService),
 	});
+	diContainer.register({
+		orderService: asClass(OrderService),
+	});
+	diContainer.register({
+		productCatalogService: asClass(ProductCatalogService),
+	});
+	diContainer.register({
+		idempotencyService: asClass(IdempotencyService).singleton(),
+	});
+	diContainer.register({
+		stockLedgerService: asClass(StockLedgerService),
+	});
+	diContainer.register({
+		goodsReceivingService: asClass(GoodsReceivingService),
+	});
+	diContainer.register({
+		backorderService: asClass(BackorderService),
+	});
+	diContainer.register({
+		orderSimulationService: asClass(OrderSimulationService),
+	});
+	diContainer.register({
+		webhookSubscriptionService: asClass(WebhookSubscriptionService),
+	});
+	diContainer.register({
+		webhookDispatcher: asClass(WebhookDispatcher).singleton(),
+	});
+	diContainer.register({
+		supplierService: asClass(SupplierService),
+	});
+	diContainer.register({
+		purchaseOrderService: asClass(PurchaseOrderService),
+	});
+	diContainer.register({
+		lowStockService: asClass(LowStockService),
+	});
+	diContainer.register({
+		expirySweeper: asClass(ExpirySweeper).singleton(),
+	});
 }
 
 export function resolve<Service extends keyof Cradle>(
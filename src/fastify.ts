@@ -5,6 +5,13 @@ import {configureDiContext} from './di/di.context.js';
 import shutdownPlugin from './shutdown/shutdown.plugin.js';
 import {drizzlePlugin} from './db/drizzle.plugin.js';
 import {myController} from './controllers/my-controller.js';
+import {productController} from './controllers/product-controller.js';
+import {stockController} from './controllers/stock-controller.js';
+import {adminController} from './controllers/admin-controller.js';
+import {webhookController} from './controllers/webhook-controller.js';
+import {purchasingController} from './controllers/purchasing-controller.js';
+import {auditSubscriber} from './subscribers/audit-subscriber.js';
+import {metricsSubscriber} from './subscribers/metrics-subscriber.js';
 
 export async function buildFastify() {
 	const server = fastify();
@@ -14,6 +21,35 @@ export async function buildFastify() {
 	await server.register(shutdownPlugin);
 	await server.register(configureDiContext);
 	await server.register(myController);
+	await server.register(productController);
+	await server.register(stockController);
+	await server.register(adminController);
+	await server.register(webhookController);
+	await server.register(purchasingController);
+	// Subscribers react to the domain events published while processing orders
+	await server.register(auditSubscriber);
+	await server.register(metricsSubscriber);
+
+	// Refuse to start when the catalog holds a product type without a registered strategy
+	server.addHook('onReady', async () => {
+		await server.diContainer.resolve('productStrategyRegistry').assertCatalogIsCovered();
+	});
+
+	server.addHook('onReady', async () => {
+		// Orders are processed in this process only, so none of them can still be processing at startup
+		server.diContainer.resolve('orderProcessingService').releaseInterruptedOrders();
+		server.diContainer.resolve('idempotencyService').releaseInterruptedKeys();
+		server.diContainer.resolve('idempotencyService').start();
+		server.diContainer.resolve('notificationDispatcher').start();
+		server.diContainer.resolve('webhookDispatcher').start();
+		server.diContainer.resolve('expirySweeper').start();
+	});
+	server.addHook('onClose', async () => {
+		server.diContainer.resolve('notificationDispatcher').stop();
+		server.diContainer.resolve('webhookDispatcher').stop();
+		server.diContainer.resolve('expirySweeper').stop();
+		server.diContainer.resolve('idempotencyService').stop();
+	});
 
 	server.addHook('onRequest', async request => {
 		request.diScope.register({
@@ -0,0 +1,3 @@
+export type IClock = {
+	now(): Date;
+};
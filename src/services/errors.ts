@@ -0,0 +1,133 @@
+import createError from '@fastify/error';
+
+export class OrderRolledBackError extends createError<'ORDER_ROLLED_BACK', 409, [string]>(
+	'ORDER_ROLLED_BACK',
+	'Order processing was rolled back, no stock was changed: %s',
+	409,
+) {}
+
+export class StockConflictError extends createError<'STOCK_CONFLICT', 409, [string]>(
+	'STOCK_CONFLICT',
+	'Stock of product "%s" changed while the order was being processed',
+	409,
+) {}
+
+export class OrderNotFoundError extends createError<'ORDER_NOT_FOUND', 404, [number]>(
+	'ORDER_NOT_FOUND',
+	'Order %s not found',
+	404,
+) {}
+
+export class IllegalOrderStatusTransitionError extends createError<'ILLEGAL_ORDER_STATUS_TRANSITION', 409, [number, string, string]>(
+	'ILLEGAL_ORDER_STATUS_TRANSITION',
+	'Order %s cannot move from %s to %s',
+	409,
+) {}
+
+export class UnknownProductError extends createError<'UNKNOWN_PRODUCT', 422, [string]>(
+	'UNKNOWN_PRODUCT',
+	'Products not found in the catalog: %s',
+	422,
+) {}
+
+export class ProductNotFoundError extends createError<'PRODUCT_NOT_FOUND', 404, [number]>(
+	'PRODUCT_NOT_FOUND',
+	'Product %s not found',
+	404,
+) {}
+
+export class InvalidProductError extends createError<'INVALID_PRODUCT', 422, [string]>(
+	'INVALID_PRODUCT',
+	'Invalid product: %s',
+	422,
+) {}
+
+export class ProductInUseError extends createError<'PRODUCT_IN_USE', 409, [number]>(
+	'PRODUCT_IN_USE',
+	'Product %s is in use or has a stock history and cannot be deleted',
+	409,
+) {}
+
+export class ProductStockChangedError extends createError<'PRODUCT_STOCK_CHANGED', 409, [number]>(
+	'PRODUCT_STOCK_CHANGED',
+	'Stock of product %s changed while it was being updated, retry with the current stock',
+	409,
+) {}
+
+export class IdempotencyKeyReusedError extends createError<'IDEMPOTENCY_KEY_REUSED', 422, [string]>(
+	'IDEMPOTENCY_KEY_REUSED',
+	'Idempotency key "%s" was already used with a different payload',
+	422,
+) {}
+
+export class IdempotentRequestInProgressError extends createError<'IDEMPOTENT_REQUEST_IN_PROGRESS', 409, [string]>(
+	'IDEMPOTENT_REQUEST_IN_PROGRESS',
+	'A request with idempotency key "%s" is still being processed',
+	409,
+) {}
+
+export class InvalidGoodsReceiptError extends createError<'INVALID_GOODS_RECEIPT', 422, [string]>(
+	'INVALID_GOODS_RECEIPT',
+	'Invalid goods receipt: %s',
+	422,
+) {}
+
+export class GoodsReceiptNotFoundError extends createError<'GOODS_RECEIPT_NOT_FOUND', 404, [number]>(
+	'GOODS_RECEIPT_NOT_FOUND',
+	'Goods receipt %s not found',
+	404,
+) {}
+
+export class UnknownProductTypeError extends createError<'UNKNOWN_PRODUCT_TYPE', 422, [string]>(
+	'UNKNOWN_PRODUCT_TYPE',
+	'No strategy is registered for product type %s',
+	422,
+) {}
+
+export class NotificationNotFoundError extends createError<'NOTIFICATION_NOT_FOUND', 404, [number]>(
+	'NOTIFICATION_NOT_FOUND',
+	'Notification %s not found',
+	404,
+) {}
+
+export class NotificationNotDeadLetteredError extends createError<'NOTIFICATION_NOT_DEAD_LETTERED', 409, [number]>(
+	'NOTIFICATION_NOT_DEAD_LETTERED',
+	'Notification %s is not dead-lettered and cannot be replayed',
+	409,
+) {}
+
+export class WebhookTargetNotAllowedError extends createError<'WEBHOOK_TARGET_NOT_ALLOWED', 422, [string]>(
+	'WEBHOOK_TARGET_NOT_ALLOWED',
+	'Webhooks cannot be sent to %s, a loopback, private or link-local host',
+	422,
+) {}
+
+export class WebhookSubscriptionNotFoundError extends createError<'WEBHOOK_SUBSCRIPTION_NOT_FOUND', 404, [number]>(
+	'WEBHOOK_SUBSCRIPTION_NOT_FOUND',
+	'Webhook subscription %s not found',
+	404,
+) {}
+
+export class SupplierNotFoundError extends createError<'SUPPLIER_NOT_FOUND', 404, [number]>(
+	'SUPPLIER_NOT_FOUND',
+	'Supplier %s not found',
+	404,
+) {}
+
+export class ProductSupplierNotFoundError extends createError<'PRODUCT_SUPPLIER_NOT_FOUND', 404, [number, number]>(
+	'PRODUCT_SUPPLIER_NOT_FOUND',
+	'Product %s is not supplied by supplier %s',
+	404,
+) {}
+
+export class PurchaseOrderNotFoundError extends createError<'PURCHASE_ORDER_NOT_FOUND', 404, [number]>(
+	'PURCHASE_ORDER_NOT_FOUND',
+	'Purchase order %s not found',
+	404,
+) {}
+
+export class IllegalPurchaseOrderStatusTransitionError extends createError<'ILLEGAL_PURCHASE_ORDER_STATUS_TRANSITION', 409, [number, string, string]>(
+	'ILLEGAL_PURCHASE_ORDER_STATUS_TRANSITION',
+	'Purchase order %s cannot move from %s to %s',
+	409,
+) {}
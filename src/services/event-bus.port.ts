@@ -0,0 +1,74 @@
+import {type LineReasonCode} from './impl/product-strategy.js';
+import {type OrderLineReport} from './impl/order-processing.service.js';
+import {type OrderStatus} from '@/db/schema.js';
+
+export const DOMAIN_EVENT_NAMES = ['StockDecremented', 'ProductDelayed', 'ProductOutOfSeason', 'ProductExpired', 'ProductLowOnStock', 'ProductExpiringSoon', 'OrderProcessed'] as const;
+export type DomainEventName = (typeof DOMAIN_EVENT_NAMES)[number];
+
+/**
+ * Payload of each domain event, keyed by its name. The order is absent when lines were processed on their own.
+ */
+export type DomainEvents = {
+	StockDecremented: {
+		productId: number;
+		productName: string;
+		quantity: number;
+		balanceAfter: number;
+		orderId?: number | undefined;
+	};
+	ProductDelayed: {
+		productId: number;
+		productName: string;
+		// Quantity left to serve once the product is restocked
+		quantity: number;
+		leadTime: number;
+		orderId?: number | undefined;
+	};
+	ProductOutOfSeason: {
+		productId: number;
+		productName: string;
+		quantity: number;
+		reason: LineReasonCode;
+		orderId?: number | undefined;
+	};
+	ProductExpired: {
+		productId: number;
+		productName: string;
+		// Stock written off because it expired
+		quantity: number;
+		orderId?: number | undefined;
+	};
+	ProductLowOnStock: {
+		productId: number;
+		productName: string;
+		available: number;
+		reorderPoint: number;
+		// Days it takes to restock the product
+		leadTime: number;
+		orderId?: number | undefined;
+	};
+	ProductExpiringSoon: {
+		productId: number;
+		productName: string;
+		// None for stock that was not received as a lot
+		lotNumber?: string | undefined;
+		quantity: number;
+		expiryDate: Date;
+		// Whole days left before the stock expires, rounded up
+		daysLeft: number;
+	};
+	OrderProcessed: {
+		orderId: number;
+		status: OrderStatus;
+		lines: OrderLineReport[];
+	};
+};
+
+export type DomainEventHandler<Name extends DomainEventName> = (event: DomainEvents[Name]) => void | Promise<void>;
+
+export type IEventBus = {
+	// Returns the function that unsubscribes the handler
+	subscribe<Name extends DomainEventName>(name: Name, handler: DomainEventHandler<Name>): () => void;
+
+	publish<Name extends DomainEventName>(name: Name, event: DomainEvents[Name]): Promise<void>;
+};
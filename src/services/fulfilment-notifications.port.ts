@@ -0,0 +1,3 @@
+export type IFulfilmentNotificationService = {
+	sendBackorderFulfilledNotification(orderId: number, productName: string, quantity: number): void;
+};
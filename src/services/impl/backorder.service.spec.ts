@@ -0,0 +1,172 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {eq} from 'drizzle-orm';
+import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {type FastifyBaseLogger} from 'fastify';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {BackorderService} from './backorder.service.js';
+import {FixedClock, SystemClock} from './clock.js';
+import {LogNotificationService} from './notification-adapters.js';
+import {NotificationDispatcher} from './notification-dispatcher.service.js';
+import {OutboxNotificationService} from './notification-outbox.service.js';
+import {type OrderProcessingService} from './order-processing.service.js';
+import {OrderService} from './order.service.js';
+import {
+	bundleComponents, orders, ordersToProducts, products,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('BackorderService Tests', () => {
+	let fulfilmentNotificationServiceMock: DeepMockProxy<IFulfilmentNotificationService>;
+	let backorderService: BackorderService;
+	let orderProcessingService: OrderProcessingService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		fulfilmentNotificationServiceMock = mockDeep<IFulfilmentNotificationService>();
+		backorderService = new BackorderService({db: databaseMock, fns: fulfilmentNotificationServiceMock, clock: new SystemClock()});
+		orderProcessingService = createOrderProcessingService(databaseMock);
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 1, type: 'NORMAL', name: 'USB Cable',
+		});
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	async function restock(quantity: number) {
+		await databaseMock.update(products).set({available: quantity});
+		return backorderService.allocate([1]);
+	}
+
+	it('should queue the delayed part of a line as a backorder', async () => {
+		// GIVEN
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1, quantity: 3});
+
+		// WHEN
+		await orderProcessingService.processOrderById(1);
+
+		// THEN
+		const backorders = await backorderService.listOpenBackorders(1);
+		expect(backorders).toMatchObject([{orderId: 1, productId: 1, quantity: 2}]);
+		const line = await databaseMock.query.ordersToProducts.findFirst();
+		expect(line?.fulfilledQuantity).toBe(1);
+	});
+
+	it('should serve backorders oldest first and complete the orders', async () => {
+		// GIVEN
+		await databaseMock.update(products).set({available: 0});
+		await databaseMock.insert(orders).values([{id: 1}, {id: 2}]);
+		await databaseMock.insert(ordersToProducts).values([
+			{orderId: 1, productId: 1, quantity: 2},
+			{orderId: 2, productId: 1, quantity: 2},
+		]);
+		await orderProcessingService.processOrderById(1);
+		await orderProcessingService.processOrderById(2);
+
+		// WHEN
+		const allocations = await restock(3);
+
+		// THEN
+		expect(allocations).toEqual([
+			{
+				orderId: 1, productId: 1, productName: 'USB Cable', quantity: 2,
+			},
+			{
+				orderId: 2, productId: 1, productName: 'USB Cable', quantity: 1,
+			},
+		]);
+		const allOrders = await databaseMock.query.orders.findMany({orderBy: (orders, {asc}) => asc(orders.id)});
+		expect(allOrders.map(({status}) => status)).toEqual(['FULFILLED', 'PARTIALLY_FULFILLED']);
+		expect(await backorderService.listOpenBackorders(1)).toMatchObject([{orderId: 2, quantity: 1}]);
+		const product = await databaseMock.query.products.findFirst();
+		expect(product?.available).toBe(0);
+		expect(fulfilmentNotificationServiceMock.sendBackorderFulfilledNotification).toHaveBeenCalledWith(1, 'USB Cable', 2);
+		expect(fulfilmentNotificationServiceMock.sendBackorderFulfilledNotification).toHaveBeenCalledWith(2, 'USB Cable', 1);
+	});
+
+	it('should notify a served backorder through the outbox and the notification adapters', async () => {
+		// GIVEN
+		const clock = new FixedClock(new Date('2030-01-01T00:00:00Z'));
+		const logger = mockDeep<FastifyBaseLogger>();
+		const outboxBackorderService = new BackorderService({db: databaseMock, fns: new OutboxNotificationService({db: databaseMock, clock}), clock});
+		await databaseMock.update(products).set({available: 0});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1, quantity: 2});
+		await orderProcessingService.processOrderById(1);
+		await databaseMock.update(products).set({available: 2});
+
+		// WHEN
+		await outboxBackorderService.allocate([1]);
+		const report = await new NotificationDispatcher({
+			db: databaseMock, ns: new LogNotificationService(logger), clock, logger,
+		}).dispatchDue();
+
+		// THEN
+		expect(report.delivered).toBe(1);
+		expect(logger.info).toHaveBeenCalledWith(
+			{
+				notification: {
+					kind: 'BACKORDER_FULFILLED', productName: 'USB Cable', orderId: 1, quantity: 2,
+				},
+			},
+			'2 USB Cable owed to order 1 were allocated to it on restock.',
+		);
+	});
+
+	it('should serve the backorder of a bundle once its missing component is restocked', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values([
+			{
+				id: 2, leadTime: 0, available: 0, type: 'BUNDLE', name: 'Desk Kit',
+			},
+			{
+				id: 3, leadTime: 10, available: 0, type: 'NORMAL', name: 'Mouse',
+			},
+		]);
+		await databaseMock.insert(bundleComponents).values([
+			{bundleId: 2, componentId: 1, quantity: 1},
+			{bundleId: 2, componentId: 3, quantity: 2},
+		]);
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 2, quantity: 1});
+		await orderProcessingService.processOrderById(1);
+
+		// WHEN
+		await databaseMock.update(products).set({available: 3}).where(eq(products.id, 3));
+		const allocations = await backorderService.allocate([3]);
+
+		// THEN
+		expect(allocations).toEqual([{
+			orderId: 1, productId: 2, productName: 'Desk Kit', quantity: 1,
+		}]);
+		const order = await databaseMock.query.orders.findFirst();
+		expect(order?.status).toBe('FULFILLED');
+		expect(await backorderService.listOpenBackorders()).toEqual([]);
+		const allProducts = await databaseMock.query.products.findMany({orderBy: (products, {asc}) => asc(products.id)});
+		expect(allProducts.map(({available}) => available)).toEqual([0, 0, 1]);
+		expect(fulfilmentNotificationServiceMock.sendBackorderFulfilledNotification).toHaveBeenCalledWith(1, 'Desk Kit', 1);
+	});
+
+	it('should leave backorders of cancelled orders aside', async () => {
+		// GIVEN
+		await databaseMock.update(products).set({available: 0});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1, quantity: 2});
+		await orderProcessingService.processOrderById(1);
+		await new OrderService({db: databaseMock, clock: new SystemClock()}).cancelOrder(1);
+
+		// WHEN
+		const allocations = await restock(5);
+
+		// THEN
+		expect(allocations).toEqual([]);
+		expect(await backorderService.listOpenBackorders(1)).toEqual([]);
+		expect(fulfilmentNotificationServiceMock.sendBackorderFulfilledNotification).not.toHaveBeenCalled();
+	});
+});
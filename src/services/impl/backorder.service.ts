@@ -0,0 +1,206 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	and, asc, eq, inArray, sql,
+} from 'drizzle-orm';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {type IClock} from '../clock.port.js';
+import {canTransitionOrderStatus, deriveOrderStatusFromLines, transitionOrderStatus} from './order-status.js';
+import {recordStockMovement} from './stock-ledger.service.js';
+import {applyLotChanges, getStockLots, planLotConsumption} from './stock-lots.js';
+import {expireReservations, getReservedQuantities} from './stock-reservations.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+import {
+	backorders, bundleComponents, orders, ordersToProducts, products, type Backorder, type Product,
+} from '@/db/schema.js';
+
+export type BackorderAllocation = {
+	orderId: number;
+	productId: number;
+	productName: string;
+	quantity: number;
+};
+
+/**
+ * Remembers the quantity of an order line that is owed to the customer once the product is restocked.
+ */
+export function openBackorder(
+	executor: DatabaseExecutor,
+	backorder: Pick<Backorder, 'orderId' | 'productId' | 'quantity'>,
+	createdAt: Date,
+): void {
+	executor.insert(backorders).values({...backorder, createdAt}).run();
+}
+
+export function cancelBackorders(executor: DatabaseExecutor, orderId: number, closedAt: Date): void {
+	executor
+		.update(backorders)
+		.set({status: 'CANCELLED', closedAt})
+		.where(and(eq(backorders.orderId, orderId), eq(backorders.status, 'OPEN')))
+		.run();
+}
+
+export class BackorderService {
+	private readonly database: Database;
+	private readonly fulfilmentNotificationService: IFulfilmentNotificationService;
+	private readonly clock: IClock;
+
+	constructor({db, fns, clock}: Pick<Cradle, 'db' | 'fns' | 'clock'>) {
+		this.database = db;
+		this.fulfilmentNotificationService = fns;
+		this.clock = clock;
+	}
+
+	async listOpenBackorders(productId?: number): Promise<Backorder[]> {
+		return this.database.query.backorders.findMany({
+			where: and(eq(backorders.status, 'OPEN'), productId === undefined ? undefined : eq(backorders.productId, productId)),
+			orderBy: asc(backorders.id),
+		});
+	}
+
+	/**
+	 * Serves the open backorders of the given products from their free stock, oldest first,
+	 * then moves the orders concerned forward and notifies them with the allocation. Backorders of
+	 * the bundles made of these products are served next, from what is left of their components.
+	 */
+	async allocate(productIds: number[]): Promise<BackorderAllocation[]> {
+		const now = this.clock.now();
+		const allocations = this.database.transaction(tx => {
+			expireReservations(tx, now);
+			const billsOfMaterials = this.billsOfMaterials(tx, productIds);
+			const stockProductIds = [...new Set([...productIds, ...[...billsOfMaterials.values()].flat().map(({componentId}) => componentId)])];
+			const reserved = getReservedQuantities(tx, stockProductIds, {now});
+			const free = new Map(tx
+				.select()
+				.from(products)
+				.where(inArray(products.id, stockProductIds))
+				.all()
+				.map(product => [product.id, this.usableStock(tx, product, now) - (reserved.get(product.id) ?? 0)]));
+			const allocations: BackorderAllocation[] = [];
+
+			const bundles = billsOfMaterials.size === 0 ? [] : tx.select().from(products).where(inArray(products.id, [...billsOfMaterials.keys()])).all();
+			for (const product of [...tx.select().from(products).where(inArray(products.id, productIds)).all(), ...bundles]) {
+				const components = billsOfMaterials.get(product.id) ?? [{componentId: product.id, quantity: 1}];
+				for (const backorder of this.openBackorders(tx, product.id)) {
+					// A bundle is served as many times as its scarcest component allows
+					const quantity = Math.min(
+						backorder.quantity,
+						...components.map(({componentId, quantity: quantityPerUnit}) => Math.floor(Math.max(free.get(componentId)!, 0) / quantityPerUnit)),
+					);
+					if (quantity <= 0) {
+						break;
+					}
+
+					allocations.push({
+						orderId: backorder.orderId, productId: product.id, productName: product.name, quantity,
+					});
+					this.allocateBackorder(tx, backorder, quantity, now);
+					for (const {componentId, quantity: quantityPerUnit} of components) {
+						free.set(componentId, free.get(componentId)! - (quantityPerUnit * quantity));
+						this.consumeStock(tx, {productId: componentId, quantity: quantityPerUnit * quantity, orderId: backorder.orderId}, now);
+					}
+				}
+			}
+
+			for (const orderId of new Set(allocations.map(({orderId}) => orderId))) {
+				this.advanceOrder(tx, orderId, now);
+			}
+
+			// Queued in the outbox, so the notifications commit with the allocations
+			for (const {orderId, productName, quantity} of allocations) {
+				this.fulfilmentNotificationService.sendBackorderFulfilledNotification(orderId, productName, quantity);
+			}
+
+			return allocations;
+		});
+
+		return allocations;
+	}
+
+	// Expired lots of an expirable product are left for the write-off, they cannot serve a backorder
+	private usableStock(tx: DatabaseExecutor, product: Product, now: Date): number {
+		if (product.type !== 'EXPIRABLE') {
+			return product.available;
+		}
+
+		return getStockLots(tx, product)
+			.filter(({expiryDate}) => expiryDate > now)
+			.reduce((total, {quantity}) => total + quantity, 0);
+	}
+
+	// Components of the bundles containing the given products, by bundle
+	private billsOfMaterials(tx: DatabaseExecutor, productIds: number[]): Map<number, Array<{componentId: number; quantity: number}>> {
+		const bundleIds = tx
+			.selectDistinct({bundleId: bundleComponents.bundleId})
+			.from(bundleComponents)
+			.where(inArray(bundleComponents.componentId, productIds))
+			.all()
+			.map(({bundleId}) => bundleId);
+		const billsOfMaterials = new Map<number, Array<{componentId: number; quantity: number}>>();
+		if (bundleIds.length === 0) {
+			return billsOfMaterials;
+		}
+
+		for (const {bundleId, componentId, quantity} of tx.select().from(bundleComponents).where(inArray(bundleComponents.bundleId, bundleIds)).all()) {
+			billsOfMaterials.set(bundleId, [...billsOfMaterials.get(bundleId) ?? [], {componentId, quantity}]);
+		}
+
+		return billsOfMaterials;
+	}
+
+	private openBackorders(tx: DatabaseExecutor, productId: number): Backorder[] {
+		return tx
+			.select()
+			.from(backorders)
+			.where(and(eq(backorders.productId, productId), eq(backorders.status, 'OPEN')))
+			.orderBy(asc(backorders.id))
+			.all();
+	}
+
+	private allocateBackorder(tx: DatabaseExecutor, backorder: Backorder, quantity: number, now: Date): void {
+		const remaining = backorder.quantity - quantity;
+		tx.update(backorders)
+			.set(remaining === 0 ? {quantity: 0, status: 'FULFILLED', closedAt: now} : {quantity: remaining})
+			.where(eq(backorders.id, backorder.id))
+			.run();
+		tx.update(ordersToProducts)
+			.set({fulfilledQuantity: sql`${ordersToProducts.fulfilledQuantity} + ${quantity}`})
+			.where(and(eq(ordersToProducts.orderId, backorder.orderId), eq(ordersToProducts.productId, backorder.productId)))
+			.run();
+	}
+
+	private consumeStock(tx: DatabaseExecutor, {productId, quantity, orderId}: Pick<Backorder, 'productId' | 'quantity' | 'orderId'>, now: Date): void {
+		const product = tx.select().from(products).where(eq(products.id, productId)).get()!;
+		if (product.type === 'EXPIRABLE') {
+			const lots = getStockLots(tx, product).filter(({expiryDate}) => expiryDate > now);
+			applyLotChanges(tx, product, planLotConsumption(lots, quantity));
+		}
+
+		const {available} = tx
+			.update(products)
+			.set({available: sql`${products.available} - ${quantity}`})
+			.where(eq(products.id, productId))
+			.returning({available: products.available})
+			.get();
+		recordStockMovement(tx, {
+			productId,
+			kind: 'ORDER_CONSUMPTION',
+			quantity: -quantity,
+			balanceAfter: available,
+			orderId,
+			occurredAt: now,
+		});
+	}
+
+	private advanceOrder(tx: DatabaseExecutor, orderId: number, now: Date): void {
+		const order = tx.select({id: orders.id, status: orders.status}).from(orders).where(eq(orders.id, orderId)).get()!;
+		const lines = tx
+			.select({quantity: ordersToProducts.quantity, fulfilledQuantity: ordersToProducts.fulfilledQuantity})
+			.from(ordersToProducts)
+			.where(eq(ordersToProducts.orderId, orderId))
+			.all();
+		const status = deriveOrderStatusFromLines(lines);
+		if (status !== order.status && canTransitionOrderStatus(order.status, status)) {
+			transitionOrderStatus(tx, order, status, now);
+		}
+	}
+}
@@ -0,0 +1,167 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {type INotificationService} from '../notifications.port.js';
+import {type OrderProcessingService} from './order-processing.service.js';
+import {OrderService} from './order.service.js';
+import {SystemClock} from './clock.js';
+import {
+	bundleComponents, products, stockLots, type Product,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('BundleProductStrategy Tests', () => {
+	let notificationServiceMock: DeepMockProxy<INotificationService>;
+	let orderProcessingService: OrderProcessingService;
+	let databaseMock: Database;
+	let databaseName: string;
+	let giftBox: Product;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		notificationServiceMock = mockDeep<INotificationService>();
+		orderProcessingService = createOrderProcessingService(databaseMock, {ns: notificationServiceMock});
+
+		const now = Date.now();
+		const day = 24 * 60 * 60 * 1000;
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 0, available: 0, type: 'BUNDLE', name: 'Gift Box',
+			},
+			{
+				id: 2, leadTime: 10, available: 4, type: 'NORMAL', name: 'Greeting Card',
+			},
+			{
+				id: 3, leadTime: 10, available: 5, type: 'EXPIRABLE', name: 'Chocolate', expiryDate: new Date(now + (30 * day)),
+			},
+			{
+				id: 4,
+				leadTime: 10,
+				available: 6,
+				type: 'SEASONAL',
+				name: 'Strawberries',
+				seasonStartDate: new Date(now - (10 * day)),
+				seasonEndDate: new Date(now + (60 * day)),
+			},
+		]);
+		await databaseMock.insert(bundleComponents).values([
+			{bundleId: 1, componentId: 2, quantity: 1},
+			{bundleId: 1, componentId: 3, quantity: 2},
+			{bundleId: 1, componentId: 4, quantity: 3},
+		]);
+		giftBox = (await databaseMock.query.products.findFirst())!;
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	async function availableStock() {
+		const allProducts = await databaseMock.query.products.findMany({orderBy: (products, {asc}) => asc(products.id)});
+		return allProducts.map(({available}) => available);
+	}
+
+	it('should consume the stock of every component when all of them can be fulfilled', async () => {
+		// GIVEN
+		const quantity = 2;
+
+		// WHEN
+		const result = await orderProcessingService.processProductOrder(giftBox, quantity);
+
+		// THEN
+		expect(result).toMatchObject({fulfilledQuantity: 2, outcome: 'FULFILLED', reason: 'IN_STOCK'});
+		expect(await availableStock()).toEqual([0, 2, 1, 0]);
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({productId, quantity}) => [productId, quantity])).toEqual([[2, -2], [3, -4], [4, -6]]);
+	});
+
+	it('should notify about the expired lots of a component written off while the bundle is fulfilled', async () => {
+		// GIVEN
+		await databaseMock.insert(stockLots).values({
+			productId: 3, lotNumber: 'L-OLD', quantity: 2, expiryDate: new Date(Date.now() - (24 * 60 * 60 * 1000)), receivedAt: new Date(),
+		});
+
+		// WHEN
+		const result = await orderProcessingService.processProductOrder(giftBox, 1);
+
+		// THEN
+		expect(result).toMatchObject({fulfilledQuantity: 1, outcome: 'FULFILLED'});
+		expect(await availableStock()).toEqual([0, 3, 1, 3]);
+		expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalledWith('Chocolate (lot L-OLD)', expect.any(Date));
+	});
+
+	it('should take the stock of a component ordered both in a bundle and on its own line', async () => {
+		// GIVEN
+		const card = (await databaseMock.query.products.findFirst({where: (products, {eq}) => eq(products.id, 2)}))!;
+		const chocolate = (await databaseMock.query.products.findFirst({where: (products, {eq}) => eq(products.id, 3)}))!;
+
+		// WHEN
+		const results = await orderProcessingService.processOrder([
+			{product: giftBox, quantity: 1},
+			{product: card, quantity: 2},
+			{product: chocolate, quantity: 3},
+		]);
+
+		// THEN
+		expect(results.map(({fulfilledQuantity, outcome}) => [fulfilledQuantity, outcome])).toEqual([[1, 'FULFILLED'], [2, 'FULFILLED'], [3, 'FULFILLED']]);
+		expect(await availableStock()).toEqual([0, 1, 0, 3]);
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({productId, quantity, balanceAfter}) => [productId, quantity, balanceAfter])).toEqual([[2, -3, 1], [3, -5, 0], [4, -3, 3]]);
+	});
+
+	it('should not hold the reservations of a stored order against its own bundle line', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values({
+			id: 5, leadTime: 0, available: 0, type: 'BUNDLE', name: 'Card Sleeve',
+		});
+		await databaseMock.insert(bundleComponents).values({bundleId: 5, componentId: 2, quantity: 1});
+		const {id} = await new OrderService({db: databaseMock, clock: new SystemClock()}).createOrder([{productId: 2, quantity: 3}, {productId: 5, quantity: 1}]);
+
+		// WHEN
+		const processedOrder = await orderProcessingService.processOrderById(id);
+
+		// THEN
+		expect(processedOrder.status).toBe('FULFILLED');
+		expect(processedOrder.lines.map(({productId, outcome}) => [productId, outcome])).toEqual([[2, 'FULFILLED'], [5, 'FULFILLED']]);
+		expect(await availableStock()).toEqual([0, 0, 5, 6, 0]);
+	});
+
+	it('should not promise the stock an earlier line of the order takes', async () => {
+		// GIVEN
+		const chocolate = (await databaseMock.query.products.findFirst({where: (products, {eq}) => eq(products.id, 3)}))!;
+
+		// WHEN
+		const results = await orderProcessingService.processOrder([
+			{product: chocolate, quantity: 4},
+			{product: giftBox, quantity: 1},
+		]);
+
+		// THEN
+		expect(results.map(({fulfilledQuantity, outcome}) => [fulfilledQuantity, outcome])).toEqual([[4, 'FULFILLED'], [0, 'DELAYED']]);
+		expect(results[1]?.blockedBy).toMatchObject({productId: 3, productName: 'Chocolate'});
+		expect(await availableStock()).toEqual([0, 4, 1, 6]);
+	});
+
+	it('should report the component that blocks the bundle and leave every stock untouched', async () => {
+		// GIVEN
+		const quantity = 3;
+
+		// WHEN
+		const result = await orderProcessingService.processProductOrder(giftBox, quantity);
+
+		// THEN
+		expect(result).toMatchObject({
+			shouldUpdateStock: false,
+			fulfilledQuantity: 0,
+			unfulfilledQuantity: 3,
+			outcome: 'DELAYED',
+			leadTime: 10,
+			blockedBy: {
+				productId: 3, productName: 'Chocolate', outcome: 'DELAYED', reason: 'AWAITING_RESTOCK',
+			},
+		});
+		expect(await availableStock()).toEqual([0, 4, 5, 6]);
+		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(10, 'Chocolate');
+	});
+});
@@ -0,0 +1,92 @@
+import {asc, eq} from 'drizzle-orm';
+import {type IClock} from '../clock.port.js';
+import {UnknownProductTypeError} from '../errors.js';
+import {
+	type ComponentProcessingResult, type IProductStrategy, type OrderLineContext, type ProductProcessingResult,
+} from './product-strategy.js';
+import {bundleDefinitionSchema} from './product-definition.js';
+import {type ProductStrategies} from './product-strategy-registry.js';
+import {getReservedQuantities} from './stock-reservations.js';
+import {bundleComponents, type Product} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+/**
+ * A bundle holds no stock of its own: it is fulfilled only when each of its components can be
+ * fulfilled in full by the strategy of that component, and then consumes the stock of all of them.
+ */
+export class BundleProductStrategy implements IProductStrategy {
+	readonly definitionSchema = bundleDefinitionSchema;
+
+	constructor(
+		private readonly database: Database,
+		private readonly componentStrategies: ProductStrategies,
+		private readonly clock: IClock,
+	) {}
+
+	async processOrder(bundle: Product, quantity = 1, _reservedForOthers = 0, {orderId, takenByOrder = new Map()}: OrderLineContext = {}): Promise<ProductProcessingResult> {
+		const billOfMaterials = await this.database.query.bundleComponents.findMany({
+			where: eq(bundleComponents.bundleId, bundle.id),
+			with: {component: true},
+			orderBy: asc(bundleComponents.componentId),
+		});
+		// The bundle holds no stock, what the order reserved for it is reserved on its components
+		const reserved = getReservedQuantities(this.database, billOfMaterials.map(({componentId}) => componentId), {excludeOrderId: orderId, now: this.clock.now()});
+
+		const components: ComponentProcessingResult[] = [];
+		for (const {component, quantity: quantityPerBundle} of billOfMaterials) {
+			const strategy = this.componentStrategies[component.type];
+			if (!strategy) {
+				throw new UnknownProductTypeError(component.type);
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			const result = await strategy.processOrder(
+				component,
+				quantityPerBundle * quantity,
+				(reserved.get(component.id) ?? 0) + (takenByOrder.get(component.id) ?? 0),
+			);
+			if (result.unfulfilledQuantity > 0) {
+				// Nothing is consumed, the component that is missing decides what happens to the bundle
+				return {
+					shouldUpdateStock: false,
+					...(result.notificationAction ? {notificationAction: result.notificationAction} : {}),
+					fulfilledQuantity: 0,
+					unfulfilledQuantity: quantity,
+					outcome: result.outcome,
+					reason: result.reason,
+					...(result.leadTime === undefined ? {} : {leadTime: result.leadTime}),
+					...(result.promisedDate === undefined ? {} : {promisedDate: result.promisedDate}),
+					blockedBy: {
+						productId: component.id,
+						productName: component.name,
+						outcome: result.outcome,
+						reason: result.reason,
+					},
+				};
+			}
+
+			components.push({product: component, result});
+		}
+
+		// The bundle ships once its last component does, dates in the YYYY-MM-DD form sort as text
+		const promisedDate = components.flatMap(({result}) => result.promisedDate ?? []).sort((a, b) => a.localeCompare(b)).at(-1);
+		// Components may still have to notify, when expired lots of theirs are written off for instance
+		const notificationActions = components.flatMap(({result}) => result.notificationAction ?? []);
+		return {
+			shouldUpdateStock: true,
+			...(notificationActions.length === 0 ? {} : {
+				notificationAction() {
+					for (const notificationAction of notificationActions) {
+						notificationAction();
+					}
+				},
+			}),
+			components,
+			fulfilledQuantity: quantity,
+			unfulfilledQuantity: 0,
+			outcome: 'FULFILLED',
+			reason: 'IN_STOCK',
+			...(promisedDate === undefined ? {} : {promisedDate}),
+		};
+	}
+}
@@ -0,0 +1,64 @@
+const millisecondsPerDay = 24 * 60 * 60 * 1000;
+
+const zonedFormats = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormat(timeZone: string): Intl.DateTimeFormat {
+	let format = zonedFormats.get(timeZone);
+	if (!format) {
+		format = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+		});
+		zonedFormats.set(timeZone, format);
+	}
+
+	return format;
+}
+
+/**
+ * Wall clock time of the instant in the time zone, read as if it were UTC.
+ */
+function wallClockTime(instant: Date, timeZone: string): number {
+	const parts = Object.fromEntries(zonedFormat(timeZone)
+		.formatToParts(instant)
+		.map(({type, value}) => [type, Number(value)]));
+	return Date.UTC(parts['year']!, parts['month']! - 1, parts['day'], parts['hour'], parts['minute'], parts['second']);
+}
+
+/**
+ * Business date (YYYY-MM-DD) the instant falls on in the time zone.
+ */
+export function toBusinessDate(instant: Date, timeZone: string): string {
+	return new Date(wallClockTime(instant, timeZone)).toISOString().slice(0, 10);
+}
+
+/**
+ * Instant the business date starts at in the time zone.
+ */
+export function startOfBusinessDate(businessDate: string, timeZone: string): Date {
+	const midnight = Date.parse(`${businessDate}T00:00:00Z`);
+	const offset = wallClockTime(new Date(midnight), timeZone) - midnight;
+	const start = midnight - offset;
+	// The offset may differ at the day start itself when the clocks changed in between
+	const offsetAtStart = wallClockTime(new Date(start), timeZone) - start;
+	return new Date(midnight - offsetAtStart);
+}
+
+export function addDays(businessDate: string, days: number): string {
+	return new Date(Date.parse(`${businessDate}T00:00:00Z`) + (days * millisecondsPerDay)).toISOString().slice(0, 10);
+}
+
+/**
+ * Same day and month in another year, the 29th of February falling back to the 28th.
+ */
+export function withYear(businessDate: string, year: number): string {
+	const monthDay = businessDate.slice(5);
+	const isLeapYear = new Date(Date.UTC(year, 1, 29)).getUTCMonth() === 1;
+	return `${String(year).padStart(4, '0')}-${monthDay === '02-29' && !isLeapYear ? '02-28' : monthDay}`;
+}
@@ -0,0 +1,18 @@
+import {type IClock} from '../clock.port.js';
+
+export class SystemClock implements IClock {
+	public now() {
+		return new Date();
+	}
+}
+
+/**
+ * Clock stopped at a given date, to evaluate what would happen at that date.
+ */
+export class FixedClock implements IClock {
+	public constructor(private readonly date: Date) {}
+
+	public now() {
+		return new Date(this.date);
+	}
+}
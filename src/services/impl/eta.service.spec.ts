@@ -0,0 +1,60 @@
+import {describe, it, expect} from 'vitest';
+import {FixedClock} from './clock.js';
+import {EtaService, type BusinessCalendar} from './eta.service.js';
+
+describe('EtaService Tests', () => {
+	const calendar: BusinessCalendar = {
+		timezone: 'UTC', workingDays: ['MON', 'TUE', 'WED', 'THU', 'FRI'], holidays: ['2030-12-25', '2030-12-26'],
+	};
+	const etaAt = (date: string, overrides: Partial<BusinessCalendar> = {}) => new EtaService({clock: new FixedClock(new Date(date))}, {...calendar, ...overrides});
+
+	it('should count lead times in working days, skipping weekends and holidays', () => {
+		// GIVEN
+		// Friday the 20th of December
+		const eta = etaAt('2030-12-20T10:00:00Z');
+
+		// WHEN
+		const promisedDates = [0, 1, 2, 3].map(leadTime => eta.promisedDate(leadTime));
+
+		// THEN
+		expect(promisedDates).toEqual(['2030-12-20', '2030-12-23', '2030-12-24', '2030-12-27']);
+	});
+
+	it('should promise goods in stock for the next working day when ordered on a day off', () => {
+		// GIVEN
+		const saturday = etaAt('2030-12-21T10:00:00Z');
+		const christmas = etaAt('2030-12-25T10:00:00Z');
+
+		// WHEN
+		const promisedDates = [saturday.promisedDate(), christmas.promisedDate(), christmas.promisedDate(1)];
+
+		// THEN
+		expect(promisedDates).toEqual(['2030-12-23', '2030-12-27', '2030-12-30']);
+	});
+
+	it('should start counting from the business date of the configured time zone', () => {
+		// GIVEN
+		// Still Friday in UTC, already Saturday in Auckland
+		const now = '2030-12-20T13:00:00Z';
+
+		// WHEN
+		const inUtc = etaAt(now).promisedDate(1);
+		const inAuckland = etaAt(now, {timezone: 'Pacific/Auckland'}).promisedDate(1);
+
+		// THEN
+		expect(inUtc).toBe('2030-12-23');
+		expect(inAuckland).toBe('2030-12-24');
+	});
+
+	it('should follow the working days of the calendar', () => {
+		// GIVEN
+		const sixDayWeek = etaAt('2030-12-20T10:00:00Z', {workingDays: ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'], holidays: []});
+
+		// WHEN
+		const promisedDate = sixDayWeek.promisedDate(1);
+
+		// THEN
+		expect(promisedDate).toBe('2030-12-21');
+		expect(sixDayWeek.isWorkingDay('2030-12-22')).toBe(false);
+	});
+});
@@ -0,0 +1,69 @@
+import {type Cradle} from '@fastify/awilix';
+import {type IClock} from '../clock.port.js';
+import {addDays, startOfBusinessDate, toBusinessDate} from './business-dates.js';
+import {CONFIG, WEEKDAYS, type Weekday} from '@/configuration/index.js';
+
+const businessConfig = CONFIG.get('business');
+
+export type BusinessCalendar = {
+	timezone: string;
+	workingDays: Weekday[];
+	// Business dates (YYYY-MM-DD) no goods are shipped or received on
+	holidays: string[];
+};
+
+/**
+ * Computes the dates promised to customers, counting lead times in working days of the business
+ * calendar rather than in calendar days.
+ */
+export class EtaService {
+	private readonly clock: IClock;
+	private readonly workingDays: Set<number>;
+	private readonly holidays: Set<string>;
+
+	constructor({clock}: Pick<Cradle, 'clock'>, private readonly calendar: BusinessCalendar = businessConfig) {
+		this.clock = clock;
+		this.workingDays = new Set(calendar.workingDays.map(day => WEEKDAYS.indexOf(day)));
+		this.holidays = new Set(calendar.holidays);
+	}
+
+	get timeZone(): string {
+		return this.calendar.timezone;
+	}
+
+	isWorkingDay(businessDate: string): boolean {
+		return this.workingDays.has(new Date(`${businessDate}T00:00:00Z`).getUTCDay()) && !this.holidays.has(businessDate);
+	}
+
+	/**
+	 * Working day reached after the given number of working days, counted from the first working
+	 * day on or after the given date.
+	 */
+	addWorkingDays(businessDate: string, workingDays: number): string {
+		let date = businessDate;
+		for (let remaining = workingDays; remaining > 0 || !this.isWorkingDay(date);) {
+			if (this.isWorkingDay(date)) {
+				remaining--;
+			}
+
+			date = addDays(date, 1);
+		}
+
+		return date;
+	}
+
+	/**
+	 * Business date promised for goods that take the given number of working days to come in,
+	 * today's first working day for goods in stock.
+	 */
+	promisedDate(leadTime = 0): string {
+		return this.addWorkingDays(toBusinessDate(this.clock.now(), this.timeZone), leadTime);
+	}
+
+	/**
+	 * Instant the business date starts at.
+	 */
+	startOf(businessDate: string): Date {
+		return startOfBusinessDate(businessDate, this.timeZone);
+	}
+}
@@ -0,0 +1,52 @@
+import {describe, it, expect} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {type FastifyBaseLogger} from 'fastify';
+import {InProcessEventBus} from './event-bus.js';
+
+describe('InProcessEventBus Tests', () => {
+	const event = {
+		productId: 1, productName: 'USB Cable', quantity: 2, balanceAfter: 3, orderId: 1,
+	};
+
+	it('should call the subscribers of an event until they unsubscribe', async () => {
+		// GIVEN
+		const eventBus = new InProcessEventBus({logger: mockDeep<FastifyBaseLogger>()});
+		const received: unknown[] = [];
+		const unsubscribe = eventBus.subscribe('StockDecremented', stockDecremented => {
+			received.push(stockDecremented);
+		});
+		eventBus.subscribe('ProductExpired', () => {
+			received.push('unexpected');
+		});
+
+		// WHEN
+		await eventBus.publish('StockDecremented', event);
+		unsubscribe();
+		await eventBus.publish('StockDecremented', event);
+
+		// THEN
+		expect(received).toEqual([event]);
+	});
+
+	it('should log a failing subscriber and still call the next ones', async () => {
+		// GIVEN
+		const logger = mockDeep<FastifyBaseLogger>();
+		const eventBus = new InProcessEventBus({logger});
+		const failure = new Error('Metrics store unreachable');
+		const received: unknown[] = [];
+		eventBus.subscribe('StockDecremented', async () => {
+			throw failure;
+		});
+		eventBus.subscribe('StockDecremented', stockDecremented => {
+			received.push(stockDecremented);
+		});
+
+		// WHEN
+		const publication = eventBus.publish('StockDecremented', event);
+
+		// THEN
+		await expect(publication).resolves.toBeUndefined();
+		expect(received).toEqual([event]);
+		expect(logger.error).toHaveBeenCalledWith({err: failure, event: 'StockDecremented'}, 'Domain event subscriber failed');
+	});
+});
@@ -0,0 +1,43 @@
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {
+	type DomainEventHandler, type DomainEventName, type DomainEvents, type IEventBus,
+} from '../event-bus.port.js';
+
+type Subscriptions = {
+	[Name in DomainEventName]?: Set<DomainEventHandler<Name>>;
+};
+
+/**
+ * Calls the subscribers of an event one after the other, in the order they subscribed.
+ * A failing subscriber is logged and does not keep the others, nor the publisher, from going on.
+ */
+export class InProcessEventBus implements IEventBus {
+	private readonly logger: FastifyBaseLogger;
+	private readonly subscriptions: Subscriptions = {};
+
+	constructor({logger}: Pick<Cradle, 'logger'>) {
+		this.logger = logger;
+	}
+
+	public subscribe<Name extends DomainEventName>(name: Name, handler: DomainEventHandler<Name>): () => void {
+		const handlers: Set<DomainEventHandler<Name>> = this.subscriptions[name] ?? new Set();
+		handlers.add(handler);
+		(this.subscriptions as Record<Name, Set<DomainEventHandler<Name>>>)[name] = handlers;
+		return () => {
+			handlers.delete(handler);
+		};
+	}
+
+	public async publish<Name extends DomainEventName>(name: Name, event: DomainEvents[Name]): Promise<void> {
+		const handlers: Set<DomainEventHandler<Name>> = this.subscriptions[name] ?? new Set();
+		for (const handler of handlers) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await handler(event);
+			} catch (error) {
+				this.logger.error({err: error, event: name}, 'Domain event subscriber failed');
+			}
+		}
+	}
+}
@@ -0,0 +1,123 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {type FastifyBaseLogger} from 'fastify';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {type IEventBus} from '../event-bus.port.js';
+import {FixedClock} from './clock.js';
+import {ExpirySweeper} from './expiry-sweeper.service.js';
+import {OutboxNotificationService} from './notification-outbox.service.js';
+import {products, stockLots} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('ExpirySweeper Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+	let eventBusMock: DeepMockProxy<IEventBus>;
+	let loggerMock: DeepMockProxy<FastifyBaseLogger>;
+	const clock = new FixedClock(new Date('2030-06-01T10:00:00Z'));
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		eventBusMock = mockDeep<IEventBus>();
+		loggerMock = mockDeep<FastifyBaseLogger>();
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 10, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date('2030-06-20T00:00:00Z'),
+			},
+			{
+				id: 2, leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Cable',
+			},
+		]);
+		await databaseMock.insert(stockLots).values([
+			{
+				productId: 1, lotNumber: 'L-OLD', quantity: 3, expiryDate: new Date('2030-05-30T00:00:00Z'), receivedAt: new Date('2030-05-01T00:00:00Z'),
+			},
+			{
+				productId: 1, lotNumber: 'L-SOON', quantity: 4, expiryDate: new Date('2030-06-03T00:00:00Z'), receivedAt: new Date('2030-05-01T00:00:00Z'),
+			},
+		]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	function createSweeper(notificationOutbox = new OutboxNotificationService({db: databaseMock, clock})) {
+		return new ExpirySweeper({
+			db: databaseMock, clock, eventBus: eventBusMock, notificationOutbox, logger: loggerMock,
+		}, {interval: 60_000, warningDays: 3});
+	}
+
+	it('should write off expired lots and warn once about the lots expiring soon', async () => {
+		// GIVEN
+		const sweeper = createSweeper();
+
+		// WHEN
+		const firstRun = await sweeper.sweep('MANUAL');
+		const secondRun = await sweeper.sweep();
+
+		// THEN
+		expect(firstRun).toMatchObject({
+			trigger: 'MANUAL', status: 'SUCCEEDED', checkedProducts: 1, writtenOffQuantity: 3, warnings: 1, error: null,
+		});
+		expect(secondRun).toMatchObject({
+			trigger: 'SCHEDULED', status: 'SUCCEEDED', checkedProducts: 1, writtenOffQuantity: 0, warnings: 0,
+		});
+		const milk = await databaseMock.query.products.findFirst({with: {lots: true, stockMovements: true}});
+		expect(milk?.available).toBe(7);
+		expect(milk?.lots.map(({lotNumber, quantity}) => [lotNumber, quantity])).toEqual([['L-OLD', 0], ['L-SOON', 4]]);
+		expect(milk?.stockMovements).toMatchObject([{
+			kind: 'EXPIRY_WRITE_OFF', quantity: -3, balanceAfter: 7, reference: 'L-OLD',
+		}]);
+		const notifications = await databaseMock.query.notificationOutbox.findMany();
+		expect(notifications).toMatchObject([{
+			kind: 'EXPIRATION', productName: 'Milk (lot L-OLD)', expiryDate: new Date('2030-05-30T00:00:00Z'),
+		}]);
+		expect(eventBusMock.publish.mock.calls).toEqual([
+			['ProductExpired', {productId: 1, productName: 'Milk', quantity: 3}],
+			['ProductExpiringSoon', {
+				productId: 1, productName: 'Milk', lotNumber: 'L-SOON', quantity: 4, expiryDate: new Date('2030-06-03T00:00:00Z'), daysLeft: 2,
+			}],
+		]);
+		const runs = await sweeper.listRuns();
+		expect(runs.map(({id}) => id)).toEqual([secondRun.id, firstRun.id]);
+	});
+
+	it('should record a failed run without changing the stock', async () => {
+		// GIVEN
+		const notificationOutbox = mockDeep<OutboxNotificationService>();
+		notificationOutbox.inDigest.mockImplementation(work => work());
+		notificationOutbox.sendExpirationNotification.mockImplementation(() => {
+			throw new Error('Outbox unavailable');
+		});
+		const sweeper = createSweeper(notificationOutbox);
+
+		// WHEN
+		const run = await sweeper.sweep();
+
+		// THEN
+		expect(run).toMatchObject({
+			status: 'FAILED', writtenOffQuantity: 0, warnings: 0, error: 'Outbox unavailable',
+		});
+		const milk = await databaseMock.query.products.findFirst({with: {lots: true}});
+		expect(milk?.available).toBe(10);
+		expect(milk?.lots.map(({quantity}) => quantity)).toEqual([3, 4]);
+		expect(await databaseMock.query.expiryWarnings.findMany()).toEqual([]);
+		expect(eventBusMock.publish).not.toHaveBeenCalled();
+	});
+
+	it('should keep a committed run when one of its events cannot be published', async () => {
+		// GIVEN
+		const failure = new Error('Subscriber crashed');
+		eventBusMock.publish.mockRejectedValueOnce(failure);
+		const sweeper = createSweeper();
+
+		// WHEN
+		const run = await sweeper.sweep();
+
+		// THEN
+		expect(run).toMatchObject({status: 'SUCCEEDED', writtenOffQuantity: 3, warnings: 1});
+		expect(eventBusMock.publish).toHaveBeenCalledTimes(2);
+		expect(loggerMock.error).toHaveBeenCalledWith({err: failure, sweepId: run.id}, 'Expiry sweep event could not be published');
+	});
+});
@@ -0,0 +1,238 @@
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {
+	and, asc, desc, eq, isNull,
+} from 'drizzle-orm';
+import {type IClock} from '../clock.port.js';
+import {type IEventBus} from '../event-bus.port.js';
+import {type OutboxNotificationService} from './notification-outbox.service.js';
+import {poll} from './polling.js';
+import {recordStockMovement} from './stock-ledger.service.js';
+import {
+	applyLotChanges, describeLot, getStockLots, type StockLotBalance,
+} from './stock-lots.js';
+import {publishWebhookEvent} from './webhook-subscription.service.js';
+import {CONFIG} from '@/configuration/index.js';
+import {
+	expirySweeps, expiryWarnings, products, type ExpirySweep, type ExpirySweepTrigger, type Product,
+} from '@/db/schema.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+
+const expirySweepConfig = CONFIG.get('expirySweep');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type ExpirySweepOptions = {
+	interval: number;
+	warningDays: number;
+};
+
+type SweepCounts = Pick<ExpirySweep, 'checkedProducts' | 'writtenOffQuantity' | 'warnings'>;
+
+type SweepContext = {
+	tx: DatabaseExecutor;
+	sweepId: number;
+	now: Date;
+	// Domain events to publish once the sweep committed
+	publications: Array<() => Promise<void>>;
+};
+
+export class ExpirySweeper {
+	private readonly database: Database;
+	private readonly clock: IClock;
+	private readonly eventBus: IEventBus;
+	private readonly notificationOutbox: OutboxNotificationService;
+	private readonly logger: FastifyBaseLogger;
+	private stopPolling: (() => void) | undefined;
+
+	constructor({
+		db, clock, eventBus, notificationOutbox, logger,
+	}: Pick<Cradle, 'db' | 'clock' | 'eventBus' | 'notificationOutbox' | 'logger'>, private readonly options: ExpirySweepOptions = expirySweepConfig) {
+		this.database = db;
+		this.clock = clock;
+		this.eventBus = eventBus;
+		this.notificationOutbox = notificationOutbox;
+		this.logger = logger;
+	}
+
+	/**
+	 * Sweeps in the background until stopped.
+	 */
+	start(): void {
+		if (this.stopPolling) {
+			return;
+		}
+
+		this.stopPolling = poll(async () => this.sweep(), this.options.interval, error => {
+			this.logger.error({err: error}, 'Expiry sweep failed');
+		});
+	}
+
+	stop(): void {
+		this.stopPolling?.();
+		this.stopPolling = undefined;
+	}
+
+	/**
+	 * Writes off the expired stock of every expirable product, queueing an expiration notification
+	 * for each written off lot, and warns once about each lot expiring within the configured number
+	 * of days. Everything is done in one transaction and the run is recorded: a failed run changed
+	 * nothing and is recorded with its error. Only a run that cannot even be recorded throws.
+	 */
+	async sweep(trigger: ExpirySweepTrigger = 'SCHEDULED'): Promise<ExpirySweep> {
+		const startedAt = this.clock.now();
+		const publications: Array<() => Promise<void>> = [];
+		let run: ExpirySweep;
+		try {
+			run = this.database.transaction(tx => {
+				const {id: sweepId} = tx
+					.insert(expirySweeps)
+					.values({
+						trigger, status: 'SUCCEEDED', startedAt, finishedAt: startedAt,
+					})
+					.returning({id: expirySweeps.id})
+					.get();
+				// The notifications of a run are grouped in one digest, when digests are enabled
+				const counts = this.notificationOutbox.inDigest(() => this.sweepProducts({
+					tx, sweepId, now: startedAt, publications,
+				}));
+				return tx
+					.update(expirySweeps)
+					.set({...counts, finishedAt: this.clock.now()})
+					.where(eq(expirySweeps.id, sweepId))
+					.returning()
+					.get();
+			});
+		} catch (error) {
+			return this.recordFailedRun(trigger, startedAt, error);
+		}
+
+		// The run is committed, an event that cannot be published must not make it look failed
+		for (const publish of publications) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await publish();
+			} catch (error) {
+				this.logger.error({err: error, sweepId: run.id}, 'Expiry sweep event could not be published');
+			}
+		}
+
+		return run;
+	}
+
+	async listRuns(): Promise<ExpirySweep[]> {
+		return this.database.query.expirySweeps.findMany({orderBy: desc(expirySweeps.id)});
+	}
+
+	private recordFailedRun(trigger: ExpirySweepTrigger, startedAt: Date, error: unknown): ExpirySweep {
+		try {
+			return this.database
+				.insert(expirySweeps)
+				.values({
+					trigger,
+					status: 'FAILED',
+					startedAt,
+					finishedAt: this.clock.now(),
+					error: error instanceof Error ? error.message : String(error),
+				})
+				.returning()
+				.get();
+		} catch (recordError) {
+			// The failure of the run is what matters, the one recording it is only logged
+			this.logger.error({err: recordError}, 'Failed expiry sweep could not be recorded');
+			throw error;
+		}
+	}
+
+	private sweepProducts(context: SweepContext): SweepCounts {
+		const {tx, now} = context;
+		const expirableProducts = tx
+			.select()
+			.from(products)
+			.where(eq(products.type, 'EXPIRABLE'))
+			.orderBy(asc(products.id))
+			.all();
+		const warnBefore = new Date(now.getTime() + (this.options.warningDays * DAY));
+
+		let writtenOffQuantity = 0;
+		let warnings = 0;
+		for (const product of expirableProducts) {
+			const lots = getStockLots(tx, product);
+			writtenOffQuantity += this.writeOff(context, product, lots.filter(({expiryDate}) => expiryDate <= now));
+
+			for (const lot of lots.filter(({expiryDate}) => expiryDate > now && expiryDate <= warnBefore)) {
+				if (this.warn(context, product, lot)) {
+					warnings++;
+				}
+			}
+		}
+
+		return {checkedProducts: expirableProducts.length, writtenOffQuantity, warnings};
+	}
+
+	/**
+	 * Removes the expired lots from the stock of the product, each with its own movement in the ledger.
+	 */
+	private writeOff({tx, now, publications}: SweepContext, product: Product, expiredLots: StockLotBalance[]): number {
+		if (expiredLots.length === 0) {
+			return 0;
+		}
+
+		applyLotChanges(tx, product, expiredLots.map(lot => ({...lot, kind: 'EXPIRY_WRITE_OFF' as const})));
+		let balance = product.available;
+		for (const lot of expiredLots) {
+			balance -= lot.quantity;
+			recordStockMovement(tx, {
+				productId: product.id,
+				kind: 'EXPIRY_WRITE_OFF',
+				quantity: -lot.quantity,
+				balanceAfter: balance,
+				reference: lot.lot?.lotNumber ?? null,
+				occurredAt: now,
+			});
+			this.notificationOutbox.sendExpirationNotification(describeLot(product, lot), lot.expiryDate);
+		}
+
+		tx.update(products).set({available: balance}).where(eq(products.id, product.id)).run();
+
+		const {id: productId, name: productName} = product;
+		const quantity = product.available - balance;
+		publications.push(async () => this.eventBus.publish('ProductExpired', {productId, productName, quantity}));
+		return quantity;
+	}
+
+	/**
+	 * Warns about stock about to expire, unless it was already warned about.
+	 */
+	private warn({
+		tx, sweepId, now, publications,
+	}: SweepContext, product: Product, {lot, quantity, expiryDate}: StockLotBalance): boolean {
+		const {id: productId, name: productName} = product;
+		const warned = tx
+			.select({id: expiryWarnings.id})
+			.from(expiryWarnings)
+			.where(and(
+				eq(expiryWarnings.productId, productId),
+				lot ? eq(expiryWarnings.lotId, lot.id) : isNull(expiryWarnings.lotId),
+				eq(expiryWarnings.expiryDate, expiryDate),
+			))
+			.get();
+		if (warned) {
+			return false;
+		}
+
+		tx.insert(expiryWarnings).values({
+			sweepId, productId, lotId: lot?.id ?? null, quantity, expiryDate, warnedAt: now,
+		}).run();
+
+		const lotNumber = lot?.lotNumber;
+		const daysLeft = Math.ceil((expiryDate.getTime() - now.getTime()) / DAY);
+		publishWebhookEvent(tx, 'PRODUCT_EXPIRING_SOON', {
+			productId, lotNumber: lotNumber ?? null, quantity, expiryDate, daysLeft,
+		}, now);
+		publications.push(async () => this.eventBus.publish('ProductExpiringSoon', {
+			productId, productName, lotNumber, quantity, expiryDate, daysLeft,
+		}));
+		return true;
+	}
+}
@@ -0,0 +1,88 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {InvalidGoodsReceiptError} from '../errors.js';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {BackorderService} from './backorder.service.js';
+import {GoodsReceivingService} from './goods-receiving.service.js';
+import {SystemClock} from './clock.js';
+import {products} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('GoodsReceivingService Tests', () => {
+	let goodsReceivingService: GoodsReceivingService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		const clock = new SystemClock();
+		goodsReceivingService = new GoodsReceivingService({
+			db: databaseMock,
+			backorderService: new BackorderService({db: databaseMock, fns: mockDeep<IFulfilmentNotificationService>(), clock}),
+			clock,
+		});
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 0, type: 'NORMAL', name: 'USB Dongle',
+			},
+			{
+				id: 2, leadTime: 15, available: 2, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date('2030-01-01'),
+			},
+		]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should add received goods to the stock and record the restock', async () => {
+		// WHEN
+		const receipt = await goodsReceivingService.receiveGoods({
+			supplierReference: 'DN-2042',
+			lines: [
+				{productId: 1, quantity: 10},
+				{productId: 2, quantity: 5, expiryDate: new Date('2030-02-01')},
+			],
+		});
+
+		// THEN
+		expect(receipt.lines).toEqual([
+			{
+				productId: 1, quantity: 10, expiryDate: null, lotNumber: null,
+			},
+			{
+				productId: 2, quantity: 5, expiryDate: new Date('2030-02-01'), lotNumber: 'DN-2042',
+			},
+		]);
+		const receivedProducts = await databaseMock.query.products.findMany();
+		expect(receivedProducts.map(({available, expiryDate}) => [available, expiryDate])).toEqual([
+			[10, null],
+			[7, new Date('2030-01-01')],
+		]);
+		const lots = await databaseMock.query.stockLots.findMany();
+		expect(lots).toMatchObject([{
+			productId: 2, lotNumber: 'DN-2042', quantity: 5, expiryDate: new Date('2030-02-01'), receiptId: receipt.id,
+		}]);
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({kind, quantity, reference}) => [kind, quantity, reference])).toEqual([
+			['RESTOCK', 10, 'DN-2042'],
+			['RESTOCK', 5, 'DN-2042'],
+		]);
+	});
+
+	it('should require the expiry date of expirable goods', async () => {
+		// WHEN
+		const receiving = goodsReceivingService.receiveGoods({
+			supplierReference: 'DN-2042',
+			lines: [{productId: 2, quantity: 5}],
+		});
+
+		// THEN
+		await expect(receiving).rejects.toBeInstanceOf(InvalidGoodsReceiptError);
+		const product = await databaseMock.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 2),
+		});
+		expect(product?.available).toBe(2);
+	});
+});
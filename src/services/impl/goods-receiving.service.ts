@@ -0,0 +1,123 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	asc, eq, inArray, sql,
+} from 'drizzle-orm';
+import {GoodsReceiptNotFoundError, InvalidGoodsReceiptError, UnknownProductError} from '../errors.js';
+import {type IClock} from '../clock.port.js';
+import {type BackorderService} from './backorder.service.js';
+import {recordStockMovement} from './stock-ledger.service.js';
+import {type Database} from '@/db/type.js';
+import {
+	goodsReceiptLines, goodsReceipts, products, stockLots,
+} from '@/db/schema.js';
+
+export type GoodsReceiptInput = {
+	supplierReference: string;
+	lines: Array<{
+		productId: number;
+		quantity: number;
+		// Expiry date of the incoming goods, required for EXPIRABLE products only
+		expiryDate?: Date | undefined;
+		// Lot the goods are tracked as, the supplier reference by default
+		lotNumber?: string | undefined;
+	}>;
+};
+
+export class GoodsReceivingService {
+	private readonly database: Database;
+	private readonly backorderService: BackorderService;
+	private readonly clock: IClock;
+
+	constructor({db, backorderService, clock}: Pick<Cradle, 'db' | 'backorderService' | 'clock'>) {
+		this.database = db;
+		this.backorderService = backorderService;
+		this.clock = clock;
+	}
+
+	/**
+	 * Records goods received from a supplier and adds them to the stock of each product,
+	 * then serves the backorders waiting for it.
+	 */
+	async receiveGoods({supplierReference, lines}: GoodsReceiptInput) {
+		const productIds = lines.map(({productId}) => productId);
+		const receivedProducts = await this.database.query.products.findMany({where: inArray(products.id, productIds)});
+		const productsById = new Map(receivedProducts.map(product => [product.id, product]));
+
+		const unknownIds = productIds.filter(productId => !productsById.has(productId));
+		if (unknownIds.length > 0) {
+			throw new UnknownProductError(unknownIds.join(', '));
+		}
+
+		for (const {productId, expiryDate, lotNumber} of lines) {
+			const {type, name} = productsById.get(productId)!;
+			if (type === 'EXPIRABLE' && !expiryDate) {
+				throw new InvalidGoodsReceiptError(`expiry date of "${name}" is required`);
+			}
+
+			if (type !== 'EXPIRABLE' && (expiryDate ?? lotNumber)) {
+				throw new InvalidGoodsReceiptError(`"${name}" does not expire and is not tracked by lot`);
+			}
+		}
+
+		const receivedAt = this.clock.now();
+		const receiptId = this.database.transaction(tx => {
+			const receipt = tx.insert(goodsReceipts).values({supplierReference, receivedAt}).returning().get();
+
+			for (const {
+				productId, quantity, expiryDate, lotNumber = supplierReference,
+			} of lines) {
+				const product = tx
+					.update(products)
+					.set({available: sql`${products.available} + ${quantity}`})
+					.where(eq(products.id, productId))
+					.returning()
+					.get();
+				// Expirable goods keep their own expiry date as a lot instead of redating the whole stock
+				if (expiryDate) {
+					tx.insert(stockLots).values({
+						productId, lotNumber, quantity, expiryDate, receivedAt, receiptId: receipt.id,
+					}).run();
+				}
+
+				tx.insert(goodsReceiptLines).values({
+					receiptId: receipt.id, productId, quantity, expiryDate: expiryDate ?? null, lotNumber: expiryDate ? lotNumber : null,
+				}).run();
+				recordStockMovement(tx, {
+					productId,
+					kind: 'RESTOCK',
+					quantity,
+					balanceAfter: product.available,
+					reference: supplierReference,
+					occurredAt: receivedAt,
+				});
+			}
+
+			return receipt.id;
+		});
+		await this.backorderService.allocate(productIds);
+
+		return this.getReceipt(receiptId);
+	}
+
+	async getReceipt(receiptId: number) {
+		const receipt = await this.database.query.goodsReceipts.findFirst({
+			where: eq(goodsReceipts.id, receiptId),
+			with: {
+				lines: {
+					columns: {
+						productId: true,
+						quantity: true,
+						expiryDate: true,
+						lotNumber: true,
+					},
+					orderBy: asc(goodsReceiptLines.id),
+				},
+			},
+		});
+		if (!receipt) {
+			throw new GoodsReceiptNotFoundError(receiptId);
+		}
+
+		return receipt;
+	}
+}
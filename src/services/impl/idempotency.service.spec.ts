@@ -0,0 +1,116 @@
+import {
+	describe, it, expect, beforeEach, afterEach, vi,
+} from 'vitest';
+import {type FastifyBaseLogger} from 'fastify';
+import {mockDeep} from 'vitest-mock-extended';
+import objectHash from 'object-hash';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {IdempotencyKeyReusedError, IdempotentRequestInProgressError} from '../errors.js';
+import {FixedClock} from './clock.js';
+import {IdempotencyService, type IdempotencyOptions} from './idempotency.service.js';
+import {idempotencyKeys} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('IdempotencyService Tests', () => {
+	const options: IdempotencyOptions = {lease: 60 * 1000, ttl: 24 * 60 * 60 * 1000, cleanupInterval: 60 * 1000};
+	let idempotencyService: IdempotencyService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		idempotencyService = serviceAt(new Date('2030-01-01T10:00:00Z'));
+	});
+
+	function serviceAt(date: Date): IdempotencyService {
+		return new IdempotencyService({db: databaseMock, clock: new FixedClock(date), logger: mockDeep<FastifyBaseLogger>()}, options);
+	}
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should run the handler once and replay its response for the same key', async () => {
+		// GIVEN
+		const handler = vi.fn(async () => ({orderId: 1, status: 'FULFILLED'}));
+
+		// WHEN
+		const first = await idempotencyService.execute('processOrder', 'key-1', {orderId: 1}, handler);
+		const second = await idempotencyService.execute('processOrder', 'key-1', {orderId: 1}, handler);
+
+		// THEN
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(first).toEqual({response: {orderId: 1, status: 'FULFILLED'}, replayed: false});
+		expect(second).toEqual({response: {orderId: 1, status: 'FULFILLED'}, replayed: true});
+	});
+
+	it('should refuse a key reused with a different payload', async () => {
+		// GIVEN
+		await idempotencyService.execute('processOrder', 'key-1', {orderId: 1}, async () => ({orderId: 1}));
+
+		// WHEN
+		const execution = idempotencyService.execute('processOrder', 'key-1', {orderId: 2}, async () => ({orderId: 2}));
+
+		// THEN
+		await expect(execution).rejects.toBeInstanceOf(IdempotencyKeyReusedError);
+	});
+
+	it('should release the key when the handler fails', async () => {
+		// GIVEN
+		const failingHandler = vi.fn(async () => {
+			throw new Error('Order was rolled back');
+		});
+		await expect(idempotencyService.execute('processOrder', 'key-1', {orderId: 1}, failingHandler)).rejects.toThrow();
+
+		// WHEN
+		const retry = await idempotencyService.execute('processOrder', 'key-1', {orderId: 1}, async () => ({orderId: 1}));
+
+		// THEN
+		expect(retry).toEqual({response: {orderId: 1}, replayed: false});
+	});
+
+	it('should run a request again once the lease of the request holding its key ran out', async () => {
+		// GIVEN
+		await databaseMock.insert(idempotencyKeys).values({
+			scope: 'processOrder', key: 'key-1', requestHash: objectHash({orderId: 1}), createdAt: new Date('2030-01-01T10:00:00Z'),
+		});
+
+		// WHEN
+		const tooEarly = await serviceAt(new Date('2030-01-01T10:00:30Z'))
+			.execute('processOrder', 'key-1', {orderId: 1}, async () => ({orderId: 1}))
+			.catch((error: unknown) => error);
+		const retry = await serviceAt(new Date('2030-01-01T10:01:01Z')).execute('processOrder', 'key-1', {orderId: 1}, async () => ({orderId: 1}));
+
+		// THEN
+		expect(tooEarly).toBeInstanceOf(IdempotentRequestInProgressError);
+		expect(retry).toEqual({response: {orderId: 1}, replayed: false});
+	});
+
+	it('should release at startup the keys of the requests left running', async () => {
+		// GIVEN
+		await databaseMock.insert(idempotencyKeys).values({
+			scope: 'processOrder', key: 'key-1', requestHash: objectHash({orderId: 1}), createdAt: new Date('2030-01-01T10:00:00Z'),
+		});
+		await idempotencyService.execute('processOrder', 'key-2', {orderId: 2}, async () => ({orderId: 2}));
+
+		// WHEN
+		const released = idempotencyService.releaseInterruptedKeys();
+
+		// THEN
+		expect(released).toBe(1);
+		const keys = await databaseMock.query.idempotencyKeys.findMany();
+		expect(keys.map(({key}) => key)).toEqual(['key-2']);
+	});
+
+	it('should purge the responses past their time to live', async () => {
+		// GIVEN
+		await idempotencyService.execute('processOrder', 'key-1', {orderId: 1}, async () => ({orderId: 1}));
+		await serviceAt(new Date('2030-01-02T09:00:00Z')).execute('processOrder', 'key-2', {orderId: 2}, async () => ({orderId: 2}));
+
+		// WHEN
+		const purged = serviceAt(new Date('2030-01-02T10:00:01Z')).purgeExpiredKeys();
+
+		// THEN
+		expect(purged).toBe(1);
+		const keys = await databaseMock.query.idempotencyKeys.findMany();
+		expect(keys.map(({key}) => key)).toEqual(['key-2']);
+	});
+});
@@ -0,0 +1,134 @@
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {
+	and, eq, isNull, lt, or, type SQL,
+} from 'drizzle-orm';
+import objectHash from 'object-hash';
+import {IdempotencyKeyReusedError, IdempotentRequestInProgressError} from '../errors.js';
+import {type IClock} from '../clock.port.js';
+import {poll} from './polling.js';
+import {CONFIG} from '@/configuration/index.js';
+import {type Database} from '@/db/type.js';
+import {idempotencyKeys} from '@/db/schema.js';
+
+const idempotencyConfig = CONFIG.get('idempotency');
+
+export type IdempotentResult<T> = {
+	response: T;
+	replayed: boolean;
+};
+
+export type IdempotencyOptions = {
+	lease: number;
+	ttl: number;
+	cleanupInterval: number;
+};
+
+export class IdempotencyService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+	private readonly logger: FastifyBaseLogger;
+	private stopPolling: (() => void) | undefined;
+
+	constructor({db, clock, logger}: Pick<Cradle, 'db' | 'clock' | 'logger'>, private readonly options: IdempotencyOptions = idempotencyConfig) {
+		this.database = db;
+		this.clock = clock;
+		this.logger = logger;
+	}
+
+	/**
+	 * Deletes the expired keys periodically until stopped.
+	 */
+	start(): void {
+		if (this.stopPolling) {
+			return;
+		}
+
+		this.stopPolling = poll(async () => this.purgeExpiredKeys(), this.options.cleanupInterval, error => {
+			this.logger.error({err: error}, 'Idempotency keys could not be purged');
+		});
+	}
+
+	stop(): void {
+		this.stopPolling?.();
+		this.stopPolling = undefined;
+	}
+
+	/**
+	 * Runs the handler once per key and scope and stores its response, later calls with the same key
+	 * replay that response for as long as it lives. Failed attempts release the key so that they can be
+	 * retried, and so does a request still running once its lease ran out.
+	 * The response is stored as JSON, so it must not hold values that do not survive serialization.
+	 */
+	async execute<T>(scope: string, key: string, payload: Record<string, unknown>, handler: () => Promise<T>): Promise<IdempotentResult<T>> {
+		const requestHash = objectHash(payload);
+		const createdAt = this.clock.now();
+		const ownKey = and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key));
+
+		this.database.delete(idempotencyKeys).where(and(ownKey, this.expired(createdAt))).run();
+		const existing = await this.database.query.idempotencyKeys.findFirst({where: ownKey});
+		if (existing) {
+			return {response: this.replay<T>(existing.requestHash, requestHash, key, existing.response), replayed: true};
+		}
+
+		// The primary key makes a concurrent request with the same key fail here instead of running twice
+		const {changes} = this.database
+			.insert(idempotencyKeys)
+			.values({
+				scope, key, requestHash, createdAt,
+			})
+			.onConflictDoNothing()
+			.run();
+		if (changes === 0) {
+			throw new IdempotentRequestInProgressError(key);
+		}
+
+		// The key may have been taken over once the lease ran out, only this request's own row is touched
+		const ownRow = and(ownKey, eq(idempotencyKeys.createdAt, createdAt));
+		let response: T;
+		try {
+			response = await handler();
+		} catch (error) {
+			await this.database.delete(idempotencyKeys).where(ownRow);
+			throw error;
+		}
+
+		await this.database.update(idempotencyKeys).set({response}).where(ownRow);
+
+		return {response, replayed: false};
+	}
+
+	/**
+	 * Releases the keys held by requests a stopped process left running. Only meant for startup,
+	 * when no request can be running yet.
+	 */
+	releaseInterruptedKeys(): number {
+		return this.database.delete(idempotencyKeys).where(isNull(idempotencyKeys.response)).run().changes;
+	}
+
+	/**
+	 * Deletes the responses past their time to live and the keys of requests past their lease.
+	 */
+	purgeExpiredKeys(): number {
+		return this.database.delete(idempotencyKeys).where(this.expired(this.clock.now())).run().changes;
+	}
+
+	private expired(now: Date): SQL | undefined {
+		return or(
+			and(isNull(idempotencyKeys.response), lt(idempotencyKeys.createdAt, new Date(now.getTime() - this.options.lease))),
+			lt(idempotencyKeys.createdAt, new Date(now.getTime() - this.options.ttl)),
+		);
+	}
+
+	private replay<T>(storedHash: string, requestHash: string, key: string, response: unknown): T {
+		if (storedHash !== requestHash) {
+			throw new IdempotencyKeyReusedError(key);
+		}
+
+		if (response === null) {
+			throw new IdempotentRequestInProgressError(key);
+		}
+
+		return response as T;
+	}
+}
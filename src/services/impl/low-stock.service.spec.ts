@@ -0,0 +1,99 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {type IEventBus} from '../event-bus.port.js';
+import {LowStockService} from './low-stock.service.js';
+import {type OrderProcessingService} from './order-processing.service.js';
+import {SystemClock} from './clock.js';
+import {
+	products, productSuppliers, suppliers, webhookSubscriptions,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('LowStockService Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+	let eventBusMock: DeepMockProxy<IEventBus>;
+	let orderProcessingService: OrderProcessingService;
+	let lowStockService: LowStockService;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		eventBusMock = mockDeep<IEventBus>();
+		orderProcessingService = createOrderProcessingService(databaseMock, {eventBus: eventBusMock});
+		lowStockService = new LowStockService({db: databaseMock, clock: new SystemClock()});
+		await databaseMock.insert(suppliers).values([{id: 1, name: 'Cables & Co'}, {id: 2, name: 'Quick Wires'}]);
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Cable', reorderPoint: 8,
+			},
+			{
+				id: 2, leadTime: 20, available: 10, type: 'NORMAL', name: 'USB Dongle', reorderPoint: 8,
+			},
+			{
+				id: 3, leadTime: 10, available: 10, type: 'NORMAL', name: 'USB Hub',
+			},
+		]);
+		await databaseMock.insert(productSuppliers).values([
+			{
+				productId: 1, supplierId: 1, leadTime: 10, minimumOrderQuantity: 1,
+			},
+			{
+				productId: 1, supplierId: 2, leadTime: 3, minimumOrderQuantity: 5,
+			},
+		]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	async function order(quantities: Record<number, number>) {
+		const orderedProducts = await databaseMock.query.products.findMany();
+		return orderProcessingService.processOrder(orderedProducts
+			.filter(({id}) => quantities[id])
+			.map(product => ({product, quantity: quantities[product.id]!})));
+	}
+
+	it('should alert once when an order takes a product below its reorder point', async () => {
+		// GIVEN
+		await databaseMock.insert(webhookSubscriptions).values({
+			url: 'https://partner.example', eventTypes: ['PRODUCT_LOW_ON_STOCK'], secret: 'partner-secret-0123', createdAt: new Date(),
+		});
+
+		// WHEN
+		await order({1: 1, 3: 9});
+		await order({1: 2});
+		await order({1: 1});
+
+		// THEN
+		const alerts = eventBusMock.publish.mock.calls.filter(([name]) => name === 'ProductLowOnStock');
+		expect(alerts).toEqual([['ProductLowOnStock', {
+			productId: 1, productName: 'USB Cable', available: 7, reorderPoint: 8, leadTime: 15, orderId: undefined,
+		}]]);
+		const deliveries = await databaseMock.query.webhookDeliveries.findMany();
+		expect(deliveries.map(({eventType, payload}) => ({eventType, payload}))).toEqual([{
+			eventType: 'PRODUCT_LOW_ON_STOCK',
+			payload: {
+				productId: 1, available: 7, reorderPoint: 8, orderId: null,
+			},
+		}]);
+	});
+
+	it('should report the products below their reorder point with what it takes to restock them', async () => {
+		// WHEN
+		await order({1: 4, 2: 3, 3: 9});
+		const report = await lowStockService.getReport();
+
+		// THEN
+		expect(report.products).toEqual([
+			{
+				productId: 1, productName: 'USB Cable', available: 6, reorderPoint: 8, leadTime: 15, supplierLeadTime: 3, onOrder: 5,
+			},
+			{
+				productId: 2, productName: 'USB Dongle', available: 7, reorderPoint: 8, leadTime: 20, supplierLeadTime: undefined, onOrder: 0,
+			},
+		]);
+	});
+});
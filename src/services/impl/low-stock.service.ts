@@ -0,0 +1,75 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	and, asc, eq, isNotNull, lt, min,
+} from 'drizzle-orm';
+import {type IClock} from '../clock.port.js';
+import {getQuantitiesOnOrder} from './purchase-order.service.js';
+import {productSuppliers, products, type Product} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+export type LowStockProduct = {
+	productId: number;
+	productName: string;
+	available: number;
+	reorderPoint: number;
+	// Lead time announced to customers, in days
+	leadTime: number;
+	// Quickest delivery among the suppliers of the product, none when it has no supplier
+	supplierLeadTime: number | undefined;
+	// Ordered from suppliers and not received yet
+	onOrder: number;
+};
+
+export type LowStockReport = {
+	checkedAt: Date;
+	products: LowStockProduct[];
+};
+
+/**
+ * Whether a stock change from the current stock of the product to the given balance takes it
+ * below its reorder point, so that it is only reported once until it is restocked.
+ */
+export function fallsBelowReorderPoint(product: Pick<Product, 'available' | 'reorderPoint'>, balanceAfter: number): boolean {
+	return product.reorderPoint !== null && product.available >= product.reorderPoint && balanceAfter < product.reorderPoint;
+}
+
+export class LowStockService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+
+	constructor({db, clock}: Pick<Cradle, 'db' | 'clock'>) {
+		this.database = db;
+		this.clock = clock;
+	}
+
+	/**
+	 * Products whose stock is below their reorder point, with what it takes to restock them.
+	 */
+	async getReport(): Promise<LowStockReport> {
+		const lowProducts = await this.database
+			.select({
+				productId: products.id,
+				productName: products.name,
+				available: products.available,
+				reorderPoint: products.reorderPoint,
+				leadTime: products.leadTime,
+				supplierLeadTime: min(productSuppliers.leadTime),
+			})
+			.from(products)
+			.leftJoin(productSuppliers, eq(productSuppliers.productId, products.id))
+			.where(and(isNotNull(products.reorderPoint), lt(products.available, products.reorderPoint)))
+			.groupBy(products.id)
+			.orderBy(asc(products.id));
+		const onOrder = getQuantitiesOnOrder(this.database, lowProducts.map(({productId}) => productId));
+
+		return {
+			checkedAt: this.clock.now(),
+			products: lowProducts.map(({reorderPoint, supplierLeadTime, ...product}) => ({
+				...product,
+				reorderPoint: reorderPoint!,
+				supplierLeadTime: supplierLeadTime ?? undefined,
+				onOrder: onOrder.get(product.productId) ?? 0,
+			})),
+		};
+	}
+}
@@ -0,0 +1,232 @@
+import {createServer, type Server} from 'node:http';
+import {type AddressInfo} from 'node:net';
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {type FastifyBaseLogger} from 'fastify';
+import {startSmtpStandIn} from '../../utils/test-utils/smtp-stand-in.js';
+import {
+	createNotificationService,
+	FanOutNotificationService,
+	LogNotificationService,
+	SmtpNotificationService,
+	WebhookNotificationService,
+	type NotificationAdapter,
+	type NotificationAdaptersConfig,
+} from './notification-adapters.js';
+import {NotificationService} from './notification.service.js';
+import {FixedClock} from './clock.js';
+
+describe('Notification adapters Tests', () => {
+	let smtpStandIn: Awaited<ReturnType<typeof startSmtpStandIn>>;
+	let webhookServer: Server;
+	let webhookStatus: number;
+	let webhookBodies: unknown[];
+	let config: NotificationAdaptersConfig;
+	const clock = new FixedClock(new Date('2030-01-01T00:00:00Z'));
+
+	beforeEach(async () => {
+		smtpStandIn = await startSmtpStandIn();
+		webhookStatus = 204;
+		webhookBodies = [];
+		webhookServer = createServer((request, response) => {
+			let body = '';
+			request.setEncoding('utf8');
+			request.on('data', (chunk: string) => {
+				body += chunk;
+			});
+			request.on('end', () => {
+				webhookBodies.push(JSON.parse(body));
+				response.writeHead(webhookStatus).end();
+			});
+		});
+		await new Promise<void>(resolve => {
+			webhookServer.listen(0, '127.0.0.1', resolve);
+		});
+		config = {
+			adapters: ['smtp', 'webhook', 'log'],
+			smtp: {
+				host: '127.0.0.1',
+				port: smtpStandIn.port,
+				secure: false,
+				user: '',
+				password: '',
+				from: 'stock@shop.test',
+				to: ['buyer@shop.test', 'manager@shop.test'],
+				timeout: 2000,
+			},
+			webhook: {
+				url: `http://127.0.0.1:${(webhookServer.address() as AddressInfo).port}/notifications`,
+				timeout: 2000,
+			},
+			rateLimit: {max: 2, window: 60 * 1000},
+		};
+	});
+
+	afterEach(async () => {
+		webhookServer.close();
+		await smtpStandIn.close();
+	});
+
+	it('should mail the notification through the SMTP server', async () => {
+		// GIVEN
+		const adapter = new SmtpNotificationService(config.smtp);
+
+		// WHEN
+		await adapter.sendDelayNotification(10, 'USB Dongle');
+
+		// THEN
+		expect(smtpStandIn.mails).toHaveLength(1);
+		expect(smtpStandIn.mails[0]).toMatchObject({
+			from: 'stock@shop.test',
+			to: ['buyer@shop.test', 'manager@shop.test'],
+		});
+		expect(smtpStandIn.mails[0]!.data).toContain('Subject: USB Dongle is delayed\r\n');
+		expect(smtpStandIn.mails[0]!.data).toContain('USB Dongle is out of stock and will be available again in 10 days.');
+	});
+
+	it('should not send credentials over a connection the SMTP server cannot encrypt', async () => {
+		// GIVEN
+		const adapter = new SmtpNotificationService({...config.smtp, user: 'stock', password: 'secret'});
+
+		// WHEN
+		const delivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(delivery).rejects.toThrow('credentials are not sent over an unencrypted connection');
+		expect(smtpStandIn.mails).toEqual([]);
+	});
+
+	it('should upgrade the connection before anything else when the SMTP server offers STARTTLS', async () => {
+		// GIVEN
+		await smtpStandIn.close();
+		smtpStandIn = await startSmtpStandIn({STARTTLS: '454 TLS not available due to temporary reason'}, ['STARTTLS']);
+		const adapter = new SmtpNotificationService({...config.smtp, port: smtpStandIn.port});
+
+		// WHEN
+		const delivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(delivery).rejects.toThrow('SMTP server refused STARTTLS: 454 TLS not available due to temporary reason');
+		expect(smtpStandIn.mails).toEqual([]);
+	});
+
+	it('should fail when the SMTP server refuses the mail', async () => {
+		// GIVEN
+		await smtpStandIn.close();
+		smtpStandIn = await startSmtpStandIn({RCPT: '550 No such user'});
+		const adapter = new SmtpNotificationService({...config.smtp, port: smtpStandIn.port});
+
+		// WHEN
+		const delivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(delivery).rejects.toThrow('SMTP server refused RCPT: 550 No such user');
+		expect(smtpStandIn.mails).toEqual([]);
+	});
+
+	it('should treat the mail as sent once the SMTP server accepted it, whatever the goodbye', async () => {
+		// GIVEN
+		await smtpStandIn.close();
+		smtpStandIn = await startSmtpStandIn({QUIT: '421 Service closing'});
+		const adapter = new SmtpNotificationService({...config.smtp, port: smtpStandIn.port});
+
+		// WHEN
+		const delivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(delivery).resolves.toBeUndefined();
+		expect(smtpStandIn.mails).toHaveLength(1);
+	});
+
+	it('should post the notification to the webhook and fail on an error status', async () => {
+		// GIVEN
+		const adapter = new WebhookNotificationService(config.webhook);
+
+		// WHEN
+		await adapter.sendExpirationNotification('Milk', new Date('2030-12-10'));
+		webhookStatus = 503;
+		const failedDelivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(failedDelivery).rejects.toThrow('Webhook answered 503');
+		expect(webhookBodies[0]).toEqual({
+			kind: 'EXPIRATION',
+			productName: 'Milk',
+			expiryDate: '2030-12-10T00:00:00.000Z',
+			subject: 'Milk has expired',
+			text: 'Milk expired on 2030-12-10 and was withdrawn from sale.',
+		});
+	});
+
+	it('should fan out to every adapter and report the ones that failed', async () => {
+		// GIVEN
+		const logger = mockDeep<FastifyBaseLogger>();
+		webhookStatus = 500;
+		const adapter = new FanOutNotificationService([
+			new SmtpNotificationService(config.smtp),
+			new WebhookNotificationService(config.webhook),
+			new LogNotificationService(logger),
+		]);
+
+		// WHEN
+		const delivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(delivery).rejects.toThrow('1 of 3 notification adapters failed: Webhook answered 500');
+		expect(smtpStandIn.mails).toHaveLength(1);
+		expect(webhookBodies).toHaveLength(1);
+		expect(logger.info).toHaveBeenCalledWith(
+			{notification: {kind: 'OUT_OF_STOCK', productName: 'Grapes'}},
+			'Grapes is out of stock and cannot be delivered.',
+		);
+	});
+
+	it('should build the notifier out of the configured adapters', () => {
+		// GIVEN
+		const logger = mockDeep<FastifyBaseLogger>();
+
+		// WHEN
+		const fanOut = createNotificationService({logger, clock}, config);
+		const logOnly = createNotificationService({logger, clock}, {...config, adapters: ['log']});
+		const silent = createNotificationService({logger, clock}, {...config, adapters: []});
+
+		// THEN
+		expect(fanOut).toBeInstanceOf(FanOutNotificationService);
+		expect(logOnly).toBeInstanceOf(LogNotificationService);
+		expect(silent).toBeInstanceOf(NotificationService);
+		expect(() => createNotificationService({logger, clock}, {...config, smtp: {...config.smtp, to: []}})).toThrow('needs at least one recipient');
+	});
+
+	it('should fail what a recipient is sent past its rate limit', async () => {
+		// GIVEN
+		const logger = mockDeep<FastifyBaseLogger>();
+		const adapter = createNotificationService({logger, clock}, {...config, adapters: ['smtp'], smtp: {...config.smtp, to: ['buyer@shop.test']}}) as NotificationAdapter;
+		await adapter.sendOutOfStockNotification('Grapes');
+		await adapter.sendOutOfStockNotification('Grapes');
+
+		// WHEN
+		const delivery = adapter.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		await expect(delivery).rejects.toThrow('buyer@shop.test reached its rate limit');
+		expect(smtpStandIn.mails).toHaveLength(2);
+	});
+
+	it('should mail a digest of several notifications as one mail', async () => {
+		// GIVEN
+		const adapter = new SmtpNotificationService(config.smtp);
+
+		// WHEN
+		await adapter.deliverDigest([
+			{kind: 'DELAY', productName: 'USB Dongle', leadTime: 10},
+			{kind: 'OUT_OF_STOCK', productName: 'Grapes'},
+		]);
+
+		// THEN
+		expect(smtpStandIn.mails).toHaveLength(1);
+		expect(smtpStandIn.mails[0]!.data).toContain('Subject: 2 stock notifications\r\n');
+		expect(smtpStandIn.mails[0]!.data).toContain('- USB Dongle is out of stock and will be available again in 10 days.\r\n- Grapes is out of stock and cannot be delivered.');
+	});
+});
@@ -0,0 +1,273 @@
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {type INotificationService} from '../notifications.port.js';
+import {
+	type DigestNotificationService, type DirectNotificationService, type IntendedNotification,
+} from './notification-outbox.service.js';
+import {NotificationService} from './notification.service.js';
+import {RecipientRateLimiter, type RateLimitOptions} from './recipient-rate-limiter.js';
+import {sendMail, type SmtpOptions} from './smtp-client.js';
+import {CONFIG, type NotificationAdapterName} from '@/configuration/index.js';
+
+const notificationsConfig = CONFIG.get('notifications');
+
+export type NotificationAdaptersConfig = {
+	adapters: NotificationAdapterName[];
+	smtp: Omit<SmtpOptions, 'user' | 'password'> & {
+		user: string;
+		password: string;
+		from: string;
+		to: string[];
+	};
+	webhook: {
+		url: string;
+		timeout: number;
+	};
+	rateLimit: RateLimitOptions;
+};
+
+export type NotificationMessage = {
+	subject: string;
+	text: string;
+};
+
+export function describeNotification({
+	kind, productName, leadTime, expiryDate, orderId, quantity,
+}: IntendedNotification): NotificationMessage {
+	switch (kind) {
+		case 'DELAY': {
+			return {
+				subject: `${productName} is delayed`,
+				text: `${productName} is out of stock and will be available again in ${leadTime ?? 0} days.`,
+			};
+		}
+
+		case 'OUT_OF_STOCK': {
+			return {
+				subject: `${productName} is out of stock`,
+				text: `${productName} is out of stock and cannot be delivered.`,
+			};
+		}
+
+		case 'EXPIRATION': {
+			return {
+				subject: `${productName} has expired`,
+				text: `${productName} expired on ${expiryDate?.toISOString().slice(0, 10) ?? 'an unknown date'} and was withdrawn from sale.`,
+			};
+		}
+
+		case 'BACKORDER_FULFILLED': {
+			return {
+				subject: `${productName} is back for order ${orderId ?? 'unknown'}`,
+				text: `${quantity ?? 0} ${productName} owed to order ${orderId ?? 'unknown'} were allocated to it on restock.`,
+			};
+		}
+	}
+}
+
+export function describeDigest(notifications: IntendedNotification[]): NotificationMessage {
+	return {
+		subject: `${notifications.length} stock notifications`,
+		text: notifications.map(notification => `- ${describeNotification(notification).text}`).join('\n'),
+	};
+}
+
+/**
+ * Base of the adapters that reach the outside world. The port's methods are declared void, the
+ * adapters still return the promise of the delivery so that the dispatcher can see it fail.
+ */
+export abstract class NotificationAdapter implements INotificationService, DigestNotificationService, DirectNotificationService {
+	// Who the adapter delivers to, undefined when it does not reach anyone
+	public abstract readonly recipient: string | undefined;
+
+	public async sendDelayNotification(leadTime: number, productName: string) {
+		return this.deliver({kind: 'DELAY', productName, leadTime});
+	}
+
+	public async sendOutOfStockNotification(productName: string) {
+		return this.deliver({kind: 'OUT_OF_STOCK', productName});
+	}
+
+	public async sendExpirationNotification(productName: string, expiryDate: Date) {
+		return this.deliver({kind: 'EXPIRATION', productName, expiryDate});
+	}
+
+	public abstract deliver(notification: IntendedNotification): Promise<void>;
+
+	public abstract deliverDigest(notifications: IntendedNotification[]): Promise<void>;
+}
+
+export class LogNotificationService extends NotificationAdapter {
+	public readonly recipient = undefined;
+
+	constructor(private readonly logger: FastifyBaseLogger) {
+		super();
+	}
+
+	public async deliver(notification: IntendedNotification) {
+		this.logger.info({notification}, describeNotification(notification).text);
+	}
+
+	public async deliverDigest(notifications: IntendedNotification[]) {
+		this.logger.info({notifications}, describeDigest(notifications).text);
+	}
+}
+
+export class WebhookNotificationService extends NotificationAdapter {
+	constructor(private readonly options: NotificationAdaptersConfig['webhook']) {
+		super();
+	}
+
+	public get recipient() {
+		return this.options.url;
+	}
+
+	public async deliver(notification: IntendedNotification) {
+		await this.post({...notification, ...describeNotification(notification)});
+	}
+
+	public async deliverDigest(notifications: IntendedNotification[]) {
+		await this.post({kind: 'DIGEST', notifications, ...describeDigest(notifications)});
+	}
+
+	private async post(body: Record<string, unknown>) {
+		const response = await fetch(this.options.url, {
+			method: 'POST',
+			headers: {'content-type': 'application/json'},
+			body: JSON.stringify(body),
+			signal: AbortSignal.timeout(this.options.timeout),
+		});
+		if (!response.ok) {
+			throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+		}
+	}
+}
+
+export class SmtpNotificationService extends NotificationAdapter {
+	constructor(private readonly options: NotificationAdaptersConfig['smtp']) {
+		super();
+	}
+
+	public get recipient() {
+		return this.options.to.join(', ');
+	}
+
+	public async deliver(notification: IntendedNotification) {
+		await this.mail(describeNotification(notification));
+	}
+
+	public async deliverDigest(notifications: IntendedNotification[]) {
+		await this.mail(describeDigest(notifications));
+	}
+
+	private async mail(message: NotificationMessage) {
+		const {user, password, from, to, ...smtpOptions} = this.options;
+		await sendMail(
+			{...smtpOptions, ...(user ? {user, password} : {})},
+			{from, to, ...message},
+		);
+	}
+}
+
+/**
+ * Fails what the recipient of the adapter is sent past its rate limit, so that the dispatcher
+ * delivers it once its backoff ran out. A digest counts as one message.
+ */
+export class RateLimitedNotificationService extends NotificationAdapter {
+	constructor(
+		private readonly adapter: NotificationAdapter & {recipient: string},
+		private readonly rateLimiter: RecipientRateLimiter,
+	) {
+		super();
+	}
+
+	public get recipient() {
+		return this.adapter.recipient;
+	}
+
+	public async deliver(notification: IntendedNotification) {
+		this.acquire();
+		await this.adapter.deliver(notification);
+	}
+
+	public async deliverDigest(notifications: IntendedNotification[]) {
+		this.acquire();
+		await this.adapter.deliverDigest(notifications);
+	}
+
+	private acquire(): void {
+		if (!this.rateLimiter.tryAcquire(this.recipient)) {
+			throw new Error(`${this.recipient} reached its rate limit`);
+		}
+	}
+}
+
+/**
+ * Delivers through every adapter, even when some of them fail. A failure fails the whole delivery,
+ * so a retry reaches again the adapters that had succeeded.
+ */
+export class FanOutNotificationService extends NotificationAdapter {
+	public readonly recipient = undefined;
+
+	constructor(private readonly adapters: NotificationAdapter[]) {
+		super();
+	}
+
+	public async deliver(notification: IntendedNotification) {
+		await this.fanOut(async adapter => adapter.deliver(notification));
+	}
+
+	public async deliverDigest(notifications: IntendedNotification[]) {
+		await this.fanOut(async adapter => adapter.deliverDigest(notifications));
+	}
+
+	private async fanOut(send: (adapter: NotificationAdapter) => Promise<void>) {
+		const deliveries = await Promise.allSettled(this.adapters.map(async adapter => send(adapter)));
+		const failures = deliveries.flatMap(delivery => delivery.status === 'rejected' ? [delivery.reason as unknown] : []);
+		if (failures.length > 0) {
+			const reasons = failures.map(failure => failure instanceof Error ? failure.message : String(failure));
+			throw new AggregateError(failures, `${failures.length} of ${this.adapters.length} notification adapters failed: ${reasons.join('; ')}`);
+		}
+	}
+}
+
+/**
+ * Builds the notifier out of the adapters named in the configuration. Every mail recipient gets
+ * a mail of its own, so that each recipient is rate limited on its own.
+ */
+export function createNotificationService(
+	{logger, clock}: Pick<Cradle, 'logger' | 'clock'>,
+	config: NotificationAdaptersConfig = notificationsConfig,
+): INotificationService {
+	const adapterFactories: Record<NotificationAdapterName, () => NotificationAdapter[]> = {
+		smtp() {
+			if (config.smtp.to.length === 0) {
+				throw new Error('The smtp notification adapter needs at least one recipient');
+			}
+
+			return config.smtp.to.map(to => new SmtpNotificationService({...config.smtp, to: [to]}));
+		},
+		webhook() {
+			if (!config.webhook.url) {
+				throw new Error('The webhook notification adapter needs a URL');
+			}
+
+			return [new WebhookNotificationService(config.webhook)];
+		},
+		log: () => [new LogNotificationService(logger)],
+	};
+	const rateLimiter = new RecipientRateLimiter(config.rateLimit, clock);
+	const adapters = config.adapters
+		.flatMap(name => adapterFactories[name]())
+		.map(adapter => isAddressed(adapter) && config.rateLimit.max > 0 ? new RateLimitedNotificationService(adapter, rateLimiter) : adapter);
+
+	if (adapters.length === 0) {
+		return new NotificationService();
+	}
+
+	return adapters.length === 1 ? adapters[0]! : new FanOutNotificationService(adapters);
+}
+
+function isAddressed(adapter: NotificationAdapter): adapter is NotificationAdapter & {recipient: string} {
+	return adapter.recipient !== undefined;
+}
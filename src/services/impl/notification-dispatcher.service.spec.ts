@@ -0,0 +1,156 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {type FastifyBaseLogger} from 'fastify';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {type INotificationService} from '../notifications.port.js';
+import {NotificationNotDeadLetteredError} from '../errors.js';
+import {FixedClock} from './clock.js';
+import {NotificationDispatcher, retryDelay} from './notification-dispatcher.service.js';
+import {enqueueNotification} from './notification-outbox.service.js';
+import {LogNotificationService, RateLimitedNotificationService} from './notification-adapters.js';
+import {RecipientRateLimiter} from './recipient-rate-limiter.js';
+import {type Database} from '@/db/type.js';
+
+describe('NotificationDispatcher Tests', () => {
+	let notificationServiceMock: DeepMockProxy<INotificationService>;
+	let databaseMock: Database;
+	let databaseName: string;
+	const start = new Date('2030-01-01T00:00:00Z');
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		notificationServiceMock = mockDeep<INotificationService>();
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	function dispatcherAt(date: Date) {
+		return new NotificationDispatcher({
+			db: databaseMock, ns: notificationServiceMock, clock: new FixedClock(date), logger: mockDeep<FastifyBaseLogger>(),
+		});
+	}
+
+	it('should deliver the pending notifications once', async () => {
+		// GIVEN
+		enqueueNotification(databaseMock, {kind: 'DELAY', productName: 'USB Dongle', leadTime: 10}, start);
+		enqueueNotification(databaseMock, {kind: 'EXPIRATION', productName: 'Milk', expiryDate: new Date('2029-12-25')}, start);
+
+		// WHEN
+		const report = await dispatcherAt(start).dispatchDue();
+		await dispatcherAt(start).dispatchDue();
+
+		// THEN
+		expect(report).toEqual({delivered: 2, retried: 0, deadLettered: 0});
+		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledOnce();
+		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(10, 'USB Dongle');
+		expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalledWith('Milk', new Date('2029-12-25'));
+		const messages = await databaseMock.query.notificationOutbox.findMany();
+		expect(messages.map(({status, deliveredAt}) => [status, deliveredAt])).toEqual([['DELIVERED', start], ['DELIVERED', start]]);
+	});
+
+	it('should deliver the notifications of a digest as one message', async () => {
+		// GIVEN
+		const logger = mockDeep<FastifyBaseLogger>();
+		const dispatcher = new NotificationDispatcher({
+			db: databaseMock, ns: new LogNotificationService(logger), clock: new FixedClock(start), logger,
+		});
+		enqueueNotification(databaseMock, {kind: 'DELAY', productName: 'USB Dongle', leadTime: 10}, start, 'order-1');
+		enqueueNotification(databaseMock, {kind: 'OUT_OF_STOCK', productName: 'Grapes'}, start);
+		enqueueNotification(databaseMock, {kind: 'EXPIRATION', productName: 'Milk', expiryDate: new Date('2029-12-25')}, start, 'order-1');
+
+		// WHEN
+		const report = await dispatcher.dispatchDue();
+
+		// THEN
+		expect(report).toEqual({delivered: 3, retried: 0, deadLettered: 0});
+		expect(logger.info).toHaveBeenCalledTimes(2);
+		expect(logger.info).toHaveBeenNthCalledWith(
+			1,
+			{
+				notifications: [
+					{kind: 'DELAY', productName: 'USB Dongle', leadTime: 10},
+					{kind: 'EXPIRATION', productName: 'Milk', expiryDate: new Date('2029-12-25')},
+				],
+			},
+			'- USB Dongle is out of stock and will be available again in 10 days.\n- Milk expired on 2029-12-25 and was withdrawn from sale.',
+		);
+	});
+
+	it('should retry a failed delivery with an exponential backoff', async () => {
+		// GIVEN
+		enqueueNotification(databaseMock, {kind: 'OUT_OF_STOCK', productName: 'Grapes'}, start);
+		notificationServiceMock.sendOutOfStockNotification.mockImplementationOnce(() => {
+			throw new Error('Mail server unreachable');
+		});
+
+		// WHEN
+		const firstReport = await dispatcherAt(start).dispatchDue();
+		const tooEarlyReport = await dispatcherAt(new Date(start.getTime() + retryDelay(1) - 1)).dispatchDue();
+		const retryReport = await dispatcherAt(new Date(start.getTime() + retryDelay(1))).dispatchDue();
+
+		// THEN
+		expect(retryDelay(2)).toBe(2 * retryDelay(1));
+		expect(firstReport).toEqual({delivered: 0, retried: 1, deadLettered: 0});
+		expect(tooEarlyReport).toEqual({delivered: 0, retried: 0, deadLettered: 0});
+		expect(retryReport).toEqual({delivered: 1, retried: 0, deadLettered: 0});
+		const message = await databaseMock.query.notificationOutbox.findFirst();
+		expect(message).toMatchObject({status: 'DELIVERED', attempts: 2, lastError: 'Mail server unreachable'});
+	});
+
+	it('should deliver later what the rate limit of its recipient held back', async () => {
+		// GIVEN
+		let now = start;
+		const clock = {now: () => now};
+		const logger = mockDeep<FastifyBaseLogger>();
+		const mailbox = Object.assign(new LogNotificationService(logger), {recipient: 'buyer@shop.test'});
+		const ns = new RateLimitedNotificationService(mailbox, new RecipientRateLimiter({max: 1, window: retryDelay(1)}, clock));
+		const dispatcher = new NotificationDispatcher({
+			db: databaseMock, ns, clock, logger,
+		});
+		enqueueNotification(databaseMock, {kind: 'OUT_OF_STOCK', productName: 'Grapes'}, start);
+		enqueueNotification(databaseMock, {kind: 'OUT_OF_STOCK', productName: 'Strawberries'}, start);
+
+		// WHEN
+		const firstReport = await dispatcher.dispatchDue();
+		now = new Date(start.getTime() + retryDelay(1));
+		const laterReport = await dispatcher.dispatchDue();
+
+		// THEN
+		expect(firstReport).toEqual({delivered: 1, retried: 1, deadLettered: 0});
+		expect(laterReport).toEqual({delivered: 1, retried: 0, deadLettered: 0});
+		expect(logger.info).toHaveBeenCalledTimes(2);
+		const messages = await databaseMock.query.notificationOutbox.findMany();
+		expect(messages.map(({status, lastError}) => [status, lastError])).toEqual([
+			['DELIVERED', null],
+			['DELIVERED', 'buyer@shop.test reached its rate limit'],
+		]);
+	});
+
+	it('should dead-letter a notification that used up its attempts, then replay it', async () => {
+		// GIVEN
+		enqueueNotification(databaseMock, {kind: 'OUT_OF_STOCK', productName: 'Grapes'}, start);
+		notificationServiceMock.sendOutOfStockNotification.mockImplementation(() => {
+			throw new Error('Mail server unreachable');
+		});
+		let now = start;
+		for (let attempts = 1; attempts <= 5; attempts++) {
+			// eslint-disable-next-line no-await-in-loop
+			await dispatcherAt(now).dispatchDue();
+			now = new Date(now.getTime() + retryDelay(attempts));
+		}
+
+		// WHEN
+		const deadLetters = await dispatcherAt(now).listDeadLetters();
+		notificationServiceMock.sendOutOfStockNotification.mockReset();
+		const replayed = await dispatcherAt(now).replay(deadLetters[0]!.id);
+		const report = await dispatcherAt(now).dispatchDue();
+
+		// THEN
+		expect(deadLetters).toMatchObject([{status: 'DEAD_LETTER', attempts: 5, lastError: 'Mail server unreachable'}]);
+		expect(replayed).toMatchObject({status: 'PENDING', attempts: 0});
+		expect(report.delivered).toBe(1);
+		await expect(dispatcherAt(now).replay(replayed.id)).rejects.toBeInstanceOf(NotificationNotDeadLetteredError);
+	});
+});
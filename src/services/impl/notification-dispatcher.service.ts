@@ -0,0 +1,174 @@
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {
+	and, asc, desc, eq, inArray, lte,
+} from 'drizzle-orm';
+import {type INotificationService} from '../notifications.port.js';
+import {type IClock} from '../clock.port.js';
+import {NotificationNotDeadLetteredError, NotificationNotFoundError} from '../errors.js';
+import {deliverDigest} from './notification-outbox.service.js';
+import {poll} from './polling.js';
+import {CONFIG} from '@/configuration/index.js';
+import {notificationOutbox, type OutboxMessage} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+const notificationsConfig = CONFIG.get('notifications');
+
+const DISPATCH_BATCH_SIZE = 100;
+
+export type DispatchReport = {
+	delivered: number;
+	retried: number;
+	deadLettered: number;
+};
+
+/**
+ * Groups the messages of a digest together, in the order of their first message.
+ */
+function groupByDigest(messages: OutboxMessage[]): OutboxMessage[][] {
+	const groups: OutboxMessage[][] = [];
+	const digests = new Map<string, OutboxMessage[]>();
+	for (const message of messages) {
+		const digest = message.digestId === null ? undefined : digests.get(message.digestId);
+		if (digest) {
+			digest.push(message);
+			continue;
+		}
+
+		const group = [message];
+		groups.push(group);
+		if (message.digestId !== null) {
+			digests.set(message.digestId, group);
+		}
+	}
+
+	return groups;
+}
+
+/**
+ * Delay before the next attempt once a message failed the given number of times.
+ */
+export function retryDelay(attempts: number): number {
+	return notificationsConfig.retryDelay * (2 ** (attempts - 1));
+}
+
+export class NotificationDispatcher {
+	private readonly database: Database;
+	private readonly notificationService: INotificationService;
+	private readonly clock: IClock;
+	private readonly logger: FastifyBaseLogger;
+	private stopPolling: (() => void) | undefined;
+
+	constructor({
+		db, ns, clock, logger,
+	}: Pick<Cradle, 'db' | 'ns' | 'clock' | 'logger'>) {
+		this.database = db;
+		this.notificationService = ns;
+		this.clock = clock;
+		this.logger = logger;
+	}
+
+	/**
+	 * Dispatches due messages in the background until stopped.
+	 */
+	start(): void {
+		if (this.stopPolling) {
+			return;
+		}
+
+		this.stopPolling = poll(async () => this.dispatchDue(), notificationsConfig.pollInterval, error => {
+			this.logger.error({err: error}, 'Notification dispatch failed');
+		});
+	}
+
+	stop(): void {
+		this.stopPolling?.();
+		this.stopPolling = undefined;
+	}
+
+	/**
+	 * Delivers the pending messages that are due, oldest first, the messages of a digest together.
+	 * A failed delivery is retried with an exponential backoff, and the message is dead-lettered once
+	 * it used up its attempts. Delivery is at least once: a crash between sending and recording it
+	 * sends the message again.
+	 */
+	async dispatchDue(): Promise<DispatchReport> {
+		const now = this.clock.now();
+		const report: DispatchReport = {delivered: 0, retried: 0, deadLettered: 0};
+		const dueMessages = this.database
+			.select()
+			.from(notificationOutbox)
+			.where(and(eq(notificationOutbox.status, 'PENDING'), lte(notificationOutbox.nextAttemptAt, now)))
+			.orderBy(asc(notificationOutbox.id))
+			.limit(DISPATCH_BATCH_SIZE)
+			.all();
+
+		for (const messages of groupByDigest(dueMessages)) {
+			const messageIds = messages.map(({id}) => id);
+			// The messages of a digest are queued and retried together, so they share their attempts
+			const attempts = messages[0]!.attempts + 1;
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await deliverDigest(this.notificationService, messages.map(message => ({
+					kind: message.kind,
+					productName: message.productName,
+					...(message.leadTime === null ? {} : {leadTime: message.leadTime}),
+					...(message.expiryDate === null ? {} : {expiryDate: message.expiryDate}),
+					...(message.orderId === null ? {} : {orderId: message.orderId}),
+					...(message.quantity === null ? {} : {quantity: message.quantity}),
+				})));
+			} catch (error) {
+				const deadLettered = attempts >= notificationsConfig.maxAttempts;
+				this.database
+					.update(notificationOutbox)
+					.set({
+						status: deadLettered ? 'DEAD_LETTER' : 'PENDING',
+						attempts,
+						nextAttemptAt: new Date(now.getTime() + retryDelay(attempts)),
+						lastError: error instanceof Error ? error.message : String(error),
+					})
+					.where(inArray(notificationOutbox.id, messageIds))
+					.run();
+				report[deadLettered ? 'deadLettered' : 'retried'] += messages.length;
+				continue;
+			}
+
+			this.database
+				.update(notificationOutbox)
+				.set({status: 'DELIVERED', attempts, deliveredAt: now})
+				.where(inArray(notificationOutbox.id, messageIds))
+				.run();
+			report.delivered += messages.length;
+		}
+
+		return report;
+	}
+
+	async listDeadLetters(): Promise<OutboxMessage[]> {
+		return this.database.query.notificationOutbox.findMany({
+			where: eq(notificationOutbox.status, 'DEAD_LETTER'),
+			orderBy: desc(notificationOutbox.id),
+		});
+	}
+
+	/**
+	 * Puts a dead-lettered message back in the queue with a fresh set of attempts.
+	 */
+	async replay(messageId: number): Promise<OutboxMessage> {
+		const message = await this.database.query.notificationOutbox.findFirst({where: eq(notificationOutbox.id, messageId)});
+		if (!message) {
+			throw new NotificationNotFoundError(messageId);
+		}
+
+		if (message.status !== 'DEAD_LETTER') {
+			throw new NotificationNotDeadLetteredError(messageId);
+		}
+
+		const [replayed] = await this.database
+			.update(notificationOutbox)
+			.set({status: 'PENDING', attempts: 0, nextAttemptAt: this.clock.now()})
+			.where(eq(notificationOutbox.id, messageId))
+			.returning();
+		return replayed!;
+	}
+}
@@ -0,0 +1,68 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {FixedClock} from './clock.js';
+import {OutboxNotificationService, type OutboxOptions} from './notification-outbox.service.js';
+import {type Database} from '@/db/type.js';
+
+describe('OutboxNotificationService Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+	const start = new Date('2030-01-01T00:00:00Z');
+	const options: OutboxOptions = {
+		dedupWindow: {delay: 60 * 1000, outOfStock: 0, expiration: 60 * 1000},
+		digest: false,
+	};
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	function outboxAt(date: Date, outboxOptions = options) {
+		return new OutboxNotificationService({db: databaseMock, clock: new FixedClock(date)}, outboxOptions);
+	}
+
+	it('should drop a notification already queued for the product within its dedup window', async () => {
+		// GIVEN
+		const outbox = outboxAt(start);
+		outbox.sendDelayNotification(10, 'USB Dongle');
+
+		// WHEN
+		outbox.sendDelayNotification(10, 'USB Dongle');
+		outbox.sendDelayNotification(15, 'USB Cable');
+		outbox.sendOutOfStockNotification('Grapes');
+		outbox.sendOutOfStockNotification('Grapes');
+		outboxAt(new Date(start.getTime() + (60 * 1000))).sendDelayNotification(10, 'USB Dongle');
+
+		// THEN
+		const messages = await databaseMock.query.notificationOutbox.findMany();
+		expect(messages.map(({kind, productName}) => [kind, productName])).toEqual([
+			['DELAY', 'USB Dongle'],
+			['DELAY', 'USB Cable'],
+			['OUT_OF_STOCK', 'Grapes'],
+			['OUT_OF_STOCK', 'Grapes'],
+			['DELAY', 'USB Dongle'],
+		]);
+	});
+
+	it('should group the notifications queued in a digest when digests are enabled', async () => {
+		// GIVEN
+		const outbox = outboxAt(start, {...options, digest: true});
+
+		// WHEN
+		outbox.inDigest(() => {
+			outbox.sendDelayNotification(10, 'USB Dongle');
+			outbox.sendExpirationNotification('Milk', new Date('2029-12-25'));
+		});
+		outbox.sendOutOfStockNotification('Grapes');
+
+		// THEN
+		const [delay, expiration, outOfStock] = await databaseMock.query.notificationOutbox.findMany();
+		expect(delay!.digestId).toEqual(expect.any(String));
+		expect(expiration!.digestId).toBe(delay!.digestId);
+		expect(outOfStock!.digestId).toBeNull();
+	});
+});
@@ -0,0 +1,231 @@
+import {randomUUID} from 'node:crypto';
+import {type Cradle} from '@fastify/awilix';
+import {and, eq, gt} from 'drizzle-orm';
+import {type INotificationService} from '../notifications.port.js';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {type IClock} from '../clock.port.js';
+import {CONFIG} from '@/configuration/index.js';
+import {notificationOutbox, type NotificationKind} from '@/db/schema.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+
+const notificationsConfig = CONFIG.get('notifications');
+
+export type IntendedNotification = {
+	kind: NotificationKind;
+	productName: string;
+	leadTime?: number;
+	expiryDate?: Date;
+	orderId?: number;
+	quantity?: number;
+};
+
+export type OutboxOptions = {
+	dedupWindow: {
+		delay: number;
+		outOfStock: number;
+		expiration: number;
+	};
+	digest: boolean;
+};
+
+// Every fulfilled backorder is news to its order, so those are never dropped as duplicates
+const dedupWindowKeys: Partial<Record<NotificationKind, keyof OutboxOptions['dedupWindow']>> = {
+	DELAY: 'delay',
+	OUT_OF_STOCK: 'outOfStock',
+	EXPIRATION: 'expiration',
+};
+
+/**
+ * Keeps the notifications it is asked to send instead of sending them.
+ */
+export class NotificationRecorder implements INotificationService {
+	public readonly notifications: IntendedNotification[] = [];
+
+	public sendDelayNotification(leadTime: number, productName: string) {
+		this.notifications.push({kind: 'DELAY', productName, leadTime});
+	}
+
+	public sendOutOfStockNotification(productName: string) {
+		this.notifications.push({kind: 'OUT_OF_STOCK', productName});
+	}
+
+	public sendExpirationNotification(productName: string, expiryDate: Date) {
+		this.notifications.push({kind: 'EXPIRATION', productName, expiryDate});
+	}
+}
+
+/**
+ * Writes a notification to the outbox, due for delivery straight away.
+ */
+export function enqueueNotification(executor: DatabaseExecutor, notification: IntendedNotification, now: Date, digestId?: string): void {
+	executor
+		.insert(notificationOutbox)
+		.values({
+			kind: notification.kind,
+			productName: notification.productName,
+			leadTime: notification.leadTime ?? null,
+			expiryDate: notification.expiryDate ?? null,
+			orderId: notification.orderId ?? null,
+			quantity: notification.quantity ?? null,
+			digestId: digestId ?? null,
+			nextAttemptAt: now,
+			createdAt: now,
+		})
+		.run();
+}
+
+/**
+ * The notifier as the dispatcher sees it: adapters that reach the outside world return the promise
+ * of the delivery although the port declares void, awaiting it lets their failures be retried.
+ */
+type DeliveringNotificationService = {
+	[Method in keyof INotificationService]: (...arguments_: Parameters<INotificationService[Method]>) => unknown;
+};
+
+/**
+ * Notifier able to send several notifications as one message, which the port cannot express.
+ */
+export type DigestNotificationService = {
+	deliverDigest(notifications: IntendedNotification[]): Promise<void>;
+};
+
+/**
+ * Notifier able to send any notification, including those the port has no method for.
+ */
+export type DirectNotificationService = {
+	deliver(notification: IntendedNotification): Promise<void>;
+};
+
+/**
+ * Sends a notification read back from the outbox through the notifier.
+ */
+export async function deliverNotification(
+	notificationService: DeliveringNotificationService | (DeliveringNotificationService & DirectNotificationService),
+	notification: IntendedNotification,
+): Promise<void> {
+	const {kind, productName, leadTime, expiryDate} = notification;
+	switch (kind) {
+		case 'DELAY': {
+			await notificationService.sendDelayNotification(leadTime ?? 0, productName);
+			break;
+		}
+
+		case 'OUT_OF_STOCK': {
+			await notificationService.sendOutOfStockNotification(productName);
+			break;
+		}
+
+		case 'EXPIRATION': {
+			await notificationService.sendExpirationNotification(productName, expiryDate ?? new Date(0));
+			break;
+		}
+
+		case 'BACKORDER_FULFILLED': {
+			// The port has no method for it: a notifier that only implements the port has nobody to tell
+			if ('deliver' in notificationService) {
+				await notificationService.deliver(notification);
+			}
+
+			break;
+		}
+	}
+}
+
+/**
+ * Sends the notifications of a digest as a single message, or one by one when the notifier cannot.
+ */
+export async function deliverDigest(
+	notificationService: DeliveringNotificationService | (DeliveringNotificationService & DigestNotificationService & DirectNotificationService),
+	notifications: IntendedNotification[],
+): Promise<void> {
+	if (notifications.length > 1 && 'deliverDigest' in notificationService) {
+		await notificationService.deliverDigest(notifications);
+		return;
+	}
+
+	for (const notification of notifications) {
+		// eslint-disable-next-line no-await-in-loop
+		await deliverNotification(notificationService, notification);
+	}
+}
+
+/**
+ * Notifier handed to the product strategies: notifications land in the outbox instead of being sent.
+ * Order processing calls it inside its transaction, and better-sqlite3 runs every statement on
+ * the one connection, so the message is committed or rolled back together with the stock change.
+ * A notification already queued for the same kind and product within its dedup window is dropped.
+ */
+export class OutboxNotificationService implements INotificationService, IFulfilmentNotificationService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+	private digestId: string | undefined;
+
+	constructor({db, clock}: Pick<Cradle, 'db' | 'clock'>, private readonly options: OutboxOptions = notificationsConfig) {
+		this.database = db;
+		this.clock = clock;
+	}
+
+	/**
+	 * Runs the work with the notifications it queues grouped in one digest, when digests are enabled.
+	 * The work must be synchronous: the grouping lasts for the call only.
+	 */
+	public inDigest<T>(work: () => T): T {
+		if (!this.options.digest || this.digestId) {
+			return work();
+		}
+
+		this.digestId = randomUUID();
+		try {
+			return work();
+		} finally {
+			this.digestId = undefined;
+		}
+	}
+
+	public sendDelayNotification(leadTime: number, productName: string) {
+		this.enqueue({kind: 'DELAY', productName, leadTime});
+	}
+
+	public sendOutOfStockNotification(productName: string) {
+		this.enqueue({kind: 'OUT_OF_STOCK', productName});
+	}
+
+	public sendExpirationNotification(productName: string, expiryDate: Date) {
+		this.enqueue({kind: 'EXPIRATION', productName, expiryDate});
+	}
+
+	public sendBackorderFulfilledNotification(orderId: number, productName: string, quantity: number) {
+		this.enqueue({
+			kind: 'BACKORDER_FULFILLED', productName, orderId, quantity,
+		});
+	}
+
+	private enqueue(notification: IntendedNotification): void {
+		const now = this.clock.now();
+		if (this.isDuplicate(notification, now)) {
+			return;
+		}
+
+		enqueueNotification(this.database, notification, now, this.digestId);
+	}
+
+	private isDuplicate({kind, productName}: IntendedNotification, now: Date): boolean {
+		const windowKey = dedupWindowKeys[kind];
+		const window = windowKey ? this.options.dedupWindow[windowKey] : 0;
+		if (window <= 0) {
+			return false;
+		}
+
+		const queued = this.database
+			.select({id: notificationOutbox.id})
+			.from(notificationOutbox)
+			.where(and(
+				eq(notificationOutbox.kind, kind),
+				eq(notificationOutbox.productName, productName),
+				gt(notificationOutbox.createdAt, new Date(now.getTime() - window)),
+			))
+			.limit(1)
+			.get();
+		return queued !== undefined;
+	}
+}
@@ -2,10 +2,19 @@ import {
 	describe, it, expect, beforeEach, afterEach,
 } from 'vitest';
 import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {type FastifyBaseLogger} from 'fastify';
 import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
 import {type INotificationService} from '../notifications.port.js';
-import {OrderProcessingService} from './order-processing.service.js';
-import {products, type Product} from '@/db/schema.js';
+import {DOMAIN_EVENT_NAMES, type DomainEventName, type IEventBus} from '../event-bus.port.js';
+import {IllegalOrderStatusTransitionError, OrderRolledBackError, UnknownProductTypeError} from '../errors.js';
+import {type OrderProcessingService} from './order-processing.service.js';
+import {FixedClock, SystemClock} from './clock.js';
+import {OutboxNotificationService} from './notification-outbox.service.js';
+import {InProcessEventBus} from './event-bus.js';
+import {
+	products, orders, ordersToProducts, type Product,
+} from '@/db/schema.js';
 import {type Database} from '@/db/type.js';
 
 describe('OrderProcessingService Tests', () => {
@@ -17,10 +26,7 @@ describe('OrderProcessingService Tests', () => {
 	beforeEach(async () => {
 		({databaseMock, databaseName} = await createDatabaseMock());
 		notificationServiceMock = mockDeep<INotificationService>();
-		orderProcessingService = new OrderProcessingService({
-			ns: notificationServiceMock,
-			db: databaseMock,
-		});
+		orderProcessingService = createOrderProcessingService(databaseMock, {ns: notificationServiceMock});
 	});
 
 	afterEach(async () => cleanUp(databaseName));
@@ -36,6 +42,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: null,
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -50,6 +57,33 @@ describe('OrderProcessingService Tests', () => {
 		expect(notificationServiceMock.sendDelayNotification).not.toHaveBeenCalled();
 	});
 
+	it('should consume the ordered quantity of a normal product', async () => {
+		// GIVEN
+		const product: Product = {
+			id: 1,
+			leadTime: 15,
+			available: 5,
+			type: 'NORMAL',
+			name: 'USB Cable',
+			expiryDate: null,
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		};
+		await databaseMock.insert(products).values(product);
+
+		// WHEN
+		const result = await orderProcessingService.processProductOrder(product, 3);
+
+		// THEN
+		const updatedProduct = await databaseMock.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 1),
+		});
+		expect(updatedProduct?.available).toBe(2);
+		expect(result.fulfilledQuantity).toBe(3);
+		expect(notificationServiceMock.sendDelayNotification).not.toHaveBeenCalled();
+	});
+
 	it('should process normal product with no stock and notify delay', async () => {
 		// GIVEN
 		const product: Product = {
@@ -61,6 +95,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: null,
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -83,6 +118,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: null,
 			seasonStartDate: new Date(currentDate.getTime() - (10 * 24 * 60 * 60 * 1000)),
 			seasonEndDate: new Date(currentDate.getTime() + (50 * 24 * 60 * 60 * 1000)),
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -109,6 +145,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: null,
 			seasonStartDate: new Date(currentDate.getTime() + (30 * 24 * 60 * 60 * 1000)),
 			seasonEndDate: new Date(currentDate.getTime() + (90 * 24 * 60 * 60 * 1000)),
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -131,6 +168,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: new Date(currentDate.getTime() + (10 * 24 * 60 * 60 * 1000)),
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -158,6 +196,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate,
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -184,6 +223,7 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: null,
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 		const expirableProduct: Product = {
 			id: 2,
@@ -194,12 +234,16 @@ describe('OrderProcessingService Tests', () => {
 			expiryDate: new Date(currentDate.getTime() + (10 * 24 * 60 * 60 * 1000)),
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 
 		await databaseMock.insert(products).values([normalProduct, expirableProduct]);
 
 		// WHEN
-		await orderProcessingService.processOrder([normalProduct, expirableProduct]);
+		await orderProcessingService.processOrder([
+			{product: normalProduct, quantity: 1},
+			{product: expirableProduct, quantity: 1},
+		]);
 
 		// THEN
 		const updatedNormalProduct = await databaseMock.query.products.findFirst({
@@ -212,4 +256,267 @@ describe('OrderProcessingService Tests', () => {
 		expect(updatedNormalProduct?.available).toBe(4);
 		expect(updatedExpirableProduct?.available).toBe(2);
 	});
+
+	it('should roll back every line and skip notifications when one line fails', async () => {
+		// GIVEN
+		const normalProduct: Product = {
+			id: 1,
+			leadTime: 15,
+			available: 5,
+			type: 'NORMAL',
+			name: 'USB Cable',
+			expiryDate: null,
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		};
+		const delayedProduct: Product = {
+			id: 2,
+			leadTime: 10,
+			available: 0,
+			type: 'NORMAL',
+			name: 'USB Dongle',
+			expiryDate: null,
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		};
+		const staleProduct: Product = {
+			id: 3,
+			leadTime: 15,
+			available: 3,
+			type: 'NORMAL',
+			name: 'RJ45 Cable',
+			expiryDate: null,
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		};
+		await databaseMock.insert(products).values([normalProduct, delayedProduct, {...staleProduct, available: 1}]);
+
+		// WHEN
+		const processing = orderProcessingService.processOrder([
+			{product: normalProduct, quantity: 1},
+			{product: delayedProduct, quantity: 1},
+			{product: staleProduct, quantity: 1},
+		]);
+
+		// THEN
+		await expect(processing).rejects.toBeInstanceOf(OrderRolledBackError);
+		const unchangedProduct = await databaseMock.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 1),
+		});
+		expect(unchangedProduct?.available).toBe(5);
+		expect(notificationServiceMock.sendDelayNotification).not.toHaveBeenCalled();
+	});
+
+	it('should move a processed order to its final status and record each transition', async () => {
+		// GIVEN
+		const product: Product = {
+			id: 1,
+			leadTime: 15,
+			available: 1,
+			type: 'NORMAL',
+			name: 'USB Cable',
+			expiryDate: null,
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		};
+		await databaseMock.insert(products).values(product);
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1, quantity: 2});
+
+		// WHEN
+		const processedOrder = await orderProcessingService.processOrderById(1);
+
+		// THEN
+		expect(processedOrder.status).toBe('PARTIALLY_FULFILLED');
+		const order = await databaseMock.query.orders.findFirst({
+			where: (orders, {eq}) => eq(orders.id, 1),
+			with: {statusTransitions: true},
+		});
+		expect(order?.status).toBe('PARTIALLY_FULFILLED');
+		expect(order?.statusTransitions.map(({fromStatus, toStatus}) => [fromStatus, toStatus])).toEqual([
+			['PENDING', 'PROCESSING'],
+			['PROCESSING', 'PARTIALLY_FULFILLED'],
+		]);
+	});
+
+	it('should stamp the transitions, the ledger and the backorders with the time of the clock', async () => {
+		// GIVEN
+		const processedAt = new Date('2030-06-03T09:00:00Z');
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 1, type: 'NORMAL', name: 'USB Cable',
+		});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1, quantity: 2});
+		const clockedService = createOrderProcessingService(databaseMock, {clock: new FixedClock(processedAt)});
+
+		// WHEN
+		await clockedService.processOrderById(1);
+
+		// THEN
+		const order = await databaseMock.query.orders.findFirst({with: {statusTransitions: true}});
+		expect(order?.statusUpdatedAt).toEqual(processedAt);
+		expect(order?.statusTransitions.map(({occurredAt}) => occurredAt)).toEqual([processedAt, processedAt]);
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({occurredAt}) => occurredAt)).toEqual([processedAt]);
+		const backorders = await databaseMock.query.backorders.findMany();
+		expect(backorders.map(({createdAt}) => createdAt)).toEqual([processedAt]);
+	});
+
+	it('should refuse to process an order twice', async () => {
+		// GIVEN
+		const product: Product = {
+			id: 1,
+			leadTime: 15,
+			available: 5,
+			type: 'NORMAL',
+			name: 'USB Cable',
+			expiryDate: null,
+			seasonStartDate: null,
+			seasonEndDate: null,
+			reorderPoint: null,
+		};
+		await databaseMock.insert(products).values(product);
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1});
+		await orderProcessingService.processOrderById(1);
+
+		// WHEN
+		const processing = orderProcessingService.processOrderById(1);
+
+		// THEN
+		await expect(processing).rejects.toBeInstanceOf(IllegalOrderStatusTransitionError);
+		const updatedProduct = await databaseMock.query.products.findFirst({
+			where: (products, {eq}) => eq(products.id, 1),
+		});
+		expect(updatedProduct?.available).toBe(4);
+	});
+
+	it('should release the order back to pending when processing fails', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 5, type: 'UNKNOWN', name: 'Mystery Box',
+		});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1});
+
+		// WHEN
+		const processing = orderProcessingService.processOrderById(1);
+
+		// THEN
+		await expect(processing).rejects.toBeInstanceOf(UnknownProductTypeError);
+		const order = await databaseMock.query.orders.findFirst({
+			where: (orders, {eq}) => eq(orders.id, 1),
+		});
+		expect(order?.status).toBe('PENDING');
+	});
+
+	it('should keep a committed order and log the events that could not be published', async () => {
+		// GIVEN
+		const failure = new Error('Subscriber crashed');
+		const eventBus = mockDeep<IEventBus>();
+		eventBus.publish.mockRejectedValue(failure);
+		const logger = mockDeep<FastifyBaseLogger>();
+		const failingProcessingService = createOrderProcessingService(databaseMock, {ns: notificationServiceMock, eventBus, logger});
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 5, type: 'NORMAL', name: 'USB Cable',
+		});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1});
+
+		// WHEN
+		const processedOrder = await failingProcessingService.processOrderById(1);
+
+		// THEN
+		expect(processedOrder).toMatchObject({orderId: 1, status: 'FULFILLED'});
+		const order = await databaseMock.query.orders.findFirst();
+		expect(order?.status).toBe('FULFILLED');
+		expect(logger.error).toHaveBeenCalledWith({err: failure, orderId: 1}, 'Order processing event could not be published');
+	});
+
+	it('should release the orders a stopped process left in processing', async () => {
+		// GIVEN
+		await databaseMock.insert(orders).values([{id: 1, status: 'PROCESSING'}, {id: 2, status: 'FULFILLED'}]);
+
+		// WHEN
+		const released = orderProcessingService.releaseInterruptedOrders();
+
+		// THEN
+		expect(released).toBe(1);
+		const allOrders = await databaseMock.query.orders.findMany({orderBy: (orders, {asc}) => asc(orders.id)});
+		expect(allOrders.map(({status}) => status)).toEqual(['PENDING', 'FULFILLED']);
+	});
+
+	it('should queue notifications in the outbox together with the stock changes', async () => {
+		// GIVEN
+		const notificationOutbox = new OutboxNotificationService({db: databaseMock, clock: new SystemClock()});
+		const outboxProcessingService = createOrderProcessingService(databaseMock, {ns: notificationOutbox, notificationOutbox});
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 10, available: 0, type: 'NORMAL', name: 'USB Dongle',
+			},
+			{
+				id: 2, leadTime: 15, available: 1, type: 'NORMAL', name: 'RJ45 Cable',
+			},
+		]);
+		const [delayedProduct, staleProduct] = await databaseMock.query.products.findMany();
+
+		// WHEN
+		const rolledBack = outboxProcessingService.processOrder([
+			{product: delayedProduct!, quantity: 1},
+			{product: {...staleProduct!, available: 3}, quantity: 1},
+		]);
+		await expect(rolledBack).rejects.toBeInstanceOf(OrderRolledBackError);
+		await outboxProcessingService.processProductOrder(delayedProduct!);
+
+		// THEN
+		const messages = await databaseMock.query.notificationOutbox.findMany();
+		expect(messages).toHaveLength(1);
+		expect(messages[0]).toMatchObject({
+			kind: 'DELAY', productName: 'USB Dongle', leadTime: 10, status: 'PENDING', attempts: 0,
+		});
+	});
+
+	it('should publish what happened to each line once the order committed', async () => {
+		// GIVEN
+		const eventBus = new InProcessEventBus({logger: mockDeep<FastifyBaseLogger>()});
+		const published: Array<[DomainEventName, unknown]> = [];
+		for (const name of DOMAIN_EVENT_NAMES) {
+			eventBus.subscribe(name, event => {
+				published.push([name, event]);
+			});
+		}
+
+		const publishingProcessingService = createOrderProcessingService(databaseMock, {ns: notificationServiceMock, eventBus});
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 1, type: 'NORMAL', name: 'USB Cable',
+			},
+			{
+				id: 2, leadTime: 90, available: 3, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date(Date.now() - (2 * 24 * 60 * 60 * 1000)),
+			},
+		]);
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values([{orderId: 1, productId: 1, quantity: 2}, {orderId: 1, productId: 2, quantity: 1}]);
+
+		// WHEN
+		const processedOrder = await publishingProcessingService.processOrderById(1);
+
+		// THEN
+		expect(published).toEqual([
+			['StockDecremented', {
+				productId: 1, productName: 'USB Cable', quantity: 1, balanceAfter: 0, orderId: 1,
+			}],
+			['ProductExpired', {
+				productId: 2, productName: 'Milk', quantity: 3, orderId: 1,
+			}],
+			['ProductDelayed', {
+				productId: 1, productName: 'USB Cable', quantity: 1, leadTime: 15, orderId: 1,
+			}],
+			['OrderProcessed', processedOrder],
+		]);
+	});
 });
@@ -1,39 +1,453 @@
 import {type Cradle} from '@fastify/awilix';
-import {eq} from 'drizzle-orm';
-import {ProductStrategyFactory} from './product-strategy-factory.js';
-import {type Database} from '@/db/type.js';
-import {products, type Product} from '@/db/schema.js';
+import {type FastifyBaseLogger} from 'fastify';
+import {and, eq} from 'drizzle-orm';
+import {OrderNotFoundError, OrderRolledBackError, StockConflictError} from '../errors.js';
+import {type IEventBus} from '../event-bus.port.js';
+import {type IClock} from '../clock.port.js';
+import {type ProductStrategyRegistry} from './product-strategy-registry.js';
+import {type OutboxNotificationService} from './notification-outbox.service.js';
+import {
+	type BlockingComponent, type ComponentProcessingResult, type IProductStrategy, type LineOutcome, type LineReasonCode, type ProductProcessingResult,
+} from './product-strategy.js';
+import {deriveOrderStatus, transitionOrderStatus} from './order-status.js';
+import {recordStockMovement} from './stock-ledger.service.js';
+import {openBackorder} from './backorder.service.js';
+import {applyLotChanges, getStockLots, planLotConsumption} from './stock-lots.js';
+import {draftReorders} from './purchase-order.service.js';
+import {fallsBelowReorderPoint} from './low-stock.service.js';
+import {publishWebhookEvent} from './webhook-subscription.service.js';
+import {closeReservations, expireReservations, getReservedQuantities} from './stock-reservations.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+import {
+	orders, ordersToProducts, products, type OrderStatus, type Product,
+} from '@/db/schema.js';
+
+export type ProductOrderLine = {
+	product: Product;
+	quantity: number;
+};
+
+export type OrderLineReport = {
+	productId: number;
+	productName: string;
+	quantity: number;
+	fulfilledQuantity: number;
+	unfulfilledQuantity: number;
+	outcome: LineOutcome;
+	reason: LineReasonCode;
+	leadTime?: number;
+	promisedDate?: string;
+	blockedBy?: BlockingComponent;
+	stockBefore: number;
+	stockAfter: number;
+};
+
+export type ProcessedOrder = {
+	orderId: number;
+	status: OrderStatus;
+	lines: OrderLineReport[];
+};
+
+type ProcessingOptions = {
+	orderId?: number;
+	// Runs with the time the changes are committed at
+	onCommit?: (tx: DatabaseExecutor, results: ProductProcessingResult[], now: Date) => void;
+};
 
 export class OrderProcessingService {
 	private readonly database: Database;
-	private readonly strategyFactory: ProductStrategyFactory;
+	private readonly strategyRegistry: ProductStrategyRegistry;
+	private readonly eventBus: IEventBus;
+	private readonly notificationOutbox: OutboxNotificationService;
+	private readonly logger: FastifyBaseLogger;
+	private readonly clock: IClock;
 
-	constructor({ns, db}: Pick<Cradle, 'ns' | 'db'>) {
+	constructor({
+		db, productStrategyRegistry, eventBus, notificationOutbox, logger, clock,
+	}: Pick<Cradle, 'db' | 'productStrategyRegistry' | 'eventBus' | 'notificationOutbox' | 'logger' | 'clock'>) {
 		this.database = db;
-		this.strategyFactory = new ProductStrategyFactory(ns);
+		this.strategyRegistry = productStrategyRegistry;
+		this.eventBus = eventBus;
+		this.notificationOutbox = notificationOutbox;
+		this.logger = logger;
+		this.clock = clock;
 	}
 
-	async processProductOrder(product: Product): Promise<void> {
-		const strategy = this.strategyFactory.createStrategy(product.type);
-		const result = await strategy.processOrder(product);
+	async processProductOrder(product: Product, quantity = 1): Promise<ProductProcessingResult> {
+		const [result] = await this.processOrder([{product, quantity}]);
+		return result!;
+	}
+
+	/**
+	 * Processes every line of an order as a single unit of work: either all stock changes
+	 * are committed or none are, and notifications are queued in the same transaction.
+	 * Domain events describing what changed are published once the transaction committed, an event
+	 * that cannot be published is logged as the changes it describes are there to stay.
+	 */
+	async processOrder(orderLines: ProductOrderLine[]): Promise<ProductProcessingResult[]> {
+		return this.processOrderLines(orderLines);
+	}
 
-		if (result.shouldUpdateStock && result.updatedProduct) {
-			await this.database
-				.update(products)
-				.set(result.updatedProduct)
-				.where(eq(products.id, product.id));
+	/**
+	 * Processes a stored PENDING order and moves it to the status derived from its lines.
+	 * If processing is rolled back, the order is released back to PENDING so it can be retried
+	 * and the error that rolled it back is rethrown. Once committed, the order keeps its status.
+	 */
+	async processOrderById(orderId: number): Promise<ProcessedOrder> {
+		const order = await this.database.query.orders.findFirst({
+			where: eq(orders.id, orderId),
+			with: {
+				products: {
+					columns: {
+						quantity: true,
+					},
+					with: {
+						product: true,
+					},
+				},
+			},
+		});
+		if (!order) {
+			throw new OrderNotFoundError(orderId);
 		}
 
-		if (result.notificationAction) {
-			result.notificationAction();
+		// Claim the order first so that repeated or concurrent calls are refused straight away
+		this.database.transaction(tx => {
+			transitionOrderStatus(tx, order, 'PROCESSING', this.clock.now());
+		});
+		const claimedOrder = {id: order.id, status: 'PROCESSING'} as const;
+
+		let status: OrderStatus = 'PROCESSING';
+		const orderLines = order.products.map(({product, quantity}) => ({product, quantity}));
+		let results: ProductProcessingResult[];
+		try {
+			results = await this.processOrderLines(orderLines, {
+				orderId: order.id,
+				onCommit(tx, results, now) {
+					for (const [index, {product}] of orderLines.entries()) {
+						const {
+							fulfilledQuantity, unfulfilledQuantity, outcome, promisedDate,
+						} = results[index]!;
+						tx.update(ordersToProducts)
+							.set({fulfilledQuantity, promisedDate: promisedDate ?? null})
+							.where(and(eq(ordersToProducts.orderId, order.id), eq(ordersToProducts.productId, product.id)))
+							.run();
+						// Delayed quantities are owed to the customer and served automatically on restock
+						if (outcome === 'DELAYED' && unfulfilledQuantity > 0) {
+							openBackorder(tx, {orderId: order.id, productId: product.id, quantity: unfulfilledQuantity}, now);
+						}
+					}
+
+					status = deriveOrderStatus(results);
+					transitionOrderStatus(tx, claimedOrder, status, now);
+				},
+			});
+		} catch (error) {
+			this.database.transaction(tx => {
+				transitionOrderStatus(tx, claimedOrder, 'PENDING', this.clock.now());
+			});
+			throw error;
 		}
+
+		const processedOrder: ProcessedOrder = {
+			orderId: order.id,
+			status,
+			lines: orderLines.map((line, index) => toOrderLineReport(line, results[index]!)),
+		};
+		await this.publishCommitted([async () => this.eventBus.publish('OrderProcessed', processedOrder)], order.id);
+		return processedOrder;
+	}
+
+	/**
+	 * Releases back to PENDING the orders left in PROCESSING by a process that stopped between claiming
+	 * and processing them. Only meant for startup, when no order can be processing yet.
+	 */
+	releaseInterruptedOrders(): number {
+		const now = this.clock.now();
+		return this.database.transaction(tx => {
+			const interrupted = tx.select({id: orders.id, status: orders.status}).from(orders).where(eq(orders.status, 'PROCESSING')).all();
+			for (const order of interrupted) {
+				transitionOrderStatus(tx, order, 'PENDING', now);
+			}
+
+			return interrupted.length;
+		});
 	}
 
-	async processOrder(orderProducts: Product[]): Promise<void> {
-		// Process products sequentially to maintain transaction integrity
-		for (const product of orderProducts) {
-			// eslint-disable-next-line no-await-in-loop
-			await this.processProductOrder(product);
+	private async processOrderLines(orderLines: ProductOrderLine[], {orderId, onCommit}: ProcessingOptions = {}): Promise<ProductProcessingResult[]> {
+		const results: ProductProcessingResult[] = [];
+		const publications: Array<() => Promise<void>> = [];
+		// An unregistered product type is reported as such rather than as a rolled back order
+		const strategies = orderLines.map(({product}) => this.strategyRegistry.getStrategy(product.type));
+
+		try {
+			const productIds = orderLines.map(({product}) => product.id);
+			const reserved = getReservedQuantities(this.database, productIds, {excludeOrderId: orderId, now: this.clock.now()});
+
+			results.push(...await runStrategies(orderLines, strategies, reserved, orderId));
+
+			// Bundles change the stock of their components instead of their own
+			const stockChanges: ComponentProcessingResult[] = results.flatMap((result, index) => result.components ?? [{product: orderLines[index]!.product, result}]);
+			const stockProductIds = [...new Set(stockChanges.map(({product}) => product.id))];
+
+			// The better-sqlite3 driver runs transactions synchronously, so every write must happen inside the callback
+			this.database.transaction(tx => {
+				const now = this.clock.now();
+				expireReservations(tx, now);
+				const reservedNow = getReservedQuantities(tx, stockProductIds, {excludeOrderId: orderId, now});
+
+				for (const {product, result, updatedProduct} of combineStockChanges(tx, stockChanges)) {
+					// Guard against a concurrent change of the stock the strategy decided on
+					const {changes} = tx
+						.update(products)
+						.set(updatedProduct)
+						.where(and(eq(products.id, product.id), eq(products.available, product.available)))
+						.run();
+					const balanceAfter = updatedProduct.available ?? product.available;
+					// Other orders may have reserved stock since the strategy ran, it must not be consumed
+					const eatsIntoReservations = result.fulfilledQuantity > 0 && balanceAfter < (reservedNow.get(product.id) ?? 0);
+					if (changes === 0 || eatsIntoReservations) {
+						throw new StockConflictError(product.name);
+					}
+
+					if (!result.lotChanges) {
+						const kind = result.outcome === 'EXPIRED' ? 'EXPIRY_WRITE_OFF' : 'ORDER_CONSUMPTION';
+						recordStockMovement(tx, {
+							productId: product.id,
+							kind,
+							quantity: balanceAfter - product.available,
+							balanceAfter,
+							orderId: orderId ?? null,
+							occurredAt: now,
+						});
+						publications.push(
+							...this.stockEvents(product, {[kind]: product.available - balanceAfter}, balanceAfter, orderId),
+							...this.alertLowStock(tx, product, balanceAfter, {orderId, occurredAt: now}),
+						);
+						continue;
+					}
+
+					// Each lot gets its own movement, so write-offs and consumption stay apart in the ledger
+					applyLotChanges(tx, product, result.lotChanges);
+					let balance = product.available;
+					const removed = {ORDER_CONSUMPTION: 0, EXPIRY_WRITE_OFF: 0};
+					for (const {kind, quantity, lot} of result.lotChanges) {
+						balance -= quantity;
+						removed[kind] += quantity;
+						recordStockMovement(tx, {
+							productId: product.id,
+							kind,
+							quantity: -quantity,
+							balanceAfter: balance,
+							orderId: orderId ?? null,
+							reference: lot?.lotNumber ?? null,
+							occurredAt: now,
+						});
+					}
+
+					publications.push(...this.stockEvents(product, removed, balance, orderId), ...this.alertLowStock(tx, product, balance, {orderId, occurredAt: now}));
+				}
+
+				// Products left below their reorder point are bought again from their supplier
+				draftReorders(tx, stockProductIds);
+
+				if (orderId !== undefined) {
+					closeReservations(tx, orderId, 'CONSUMED', now);
+				}
+
+				onCommit?.(tx, results, now);
+
+				// The strategies notify through the outbox, so notifications commit with the stock changes
+				this.notificationOutbox.inDigest(() => {
+					for (const result of results) {
+						if (result.notificationAction) {
+							result.notificationAction();
+						}
+					}
+				});
+			});
+		} catch (error) {
+			throw new OrderRolledBackError(error instanceof Error ? error.message : String(error));
 		}
+
+		await this.publishCommitted([
+			...publications,
+			...orderLines.map(({product}, index) => async () => this.publishLineOutcome(product, results[index]!, orderId)),
+		], orderId);
+
+		return results;
 	}
+
+	/**
+	 * Publishes the events of committed changes in turn. The changes are there to stay, so an event
+	 * that cannot be published is logged rather than made to look like a failed processing.
+	 */
+	private async publishCommitted(publications: Array<() => Promise<void>>, orderId?: number): Promise<void> {
+		for (const publish of publications) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await publish();
+			} catch (error) {
+				this.logger.error({err: error, orderId}, 'Order processing event could not be published');
+			}
+		}
+	}
+
+	private stockEvents(
+		product: Product,
+		removed: Partial<Record<'ORDER_CONSUMPTION' | 'EXPIRY_WRITE_OFF', number>>,
+		balanceAfter: number,
+		orderId: number | undefined,
+	): Array<() => Promise<void>> {
+		const publications: Array<() => Promise<void>> = [];
+		const {id: productId, name: productName} = product;
+		if (removed.EXPIRY_WRITE_OFF) {
+			const quantity = removed.EXPIRY_WRITE_OFF;
+			publications.push(async () => this.eventBus.publish('ProductExpired', {
+				productId, productName, quantity, orderId,
+			}));
+		}
+
+		if (removed.ORDER_CONSUMPTION) {
+			const quantity = removed.ORDER_CONSUMPTION;
+			publications.push(async () => this.eventBus.publish('StockDecremented', {
+				productId, productName, quantity, balanceAfter, orderId,
+			}));
+		}
+
+		return publications;
+	}
+
+	/**
+	 * Tells subscribed partners in the transaction, and the domain subscribers once committed, that
+	 * the stock change takes the product below its reorder point.
+	 */
+	private alertLowStock(
+		tx: DatabaseExecutor,
+		product: Product,
+		balanceAfter: number,
+		{orderId, occurredAt}: {orderId: number | undefined; occurredAt: Date},
+	): Array<() => Promise<void>> {
+		if (!fallsBelowReorderPoint(product, balanceAfter)) {
+			return [];
+		}
+
+		const {
+			id: productId, name: productName, leadTime, reorderPoint,
+		} = product;
+		publishWebhookEvent(tx, 'PRODUCT_LOW_ON_STOCK', {
+			productId, available: balanceAfter, reorderPoint, orderId: orderId ?? null,
+		}, occurredAt);
+		return [async () => this.eventBus.publish('ProductLowOnStock', {
+			productId, productName, available: balanceAfter, reorderPoint: reorderPoint!, leadTime, orderId,
+		})];
+	}
+
+	private async publishLineOutcome(product: Product, result: ProductProcessingResult, orderId: number | undefined): Promise<void> {
+		const {id: productId, name: productName} = product;
+		const quantity = result.unfulfilledQuantity;
+		if (result.outcome === 'DELAYED') {
+			await this.eventBus.publish('ProductDelayed', {
+				productId, productName, quantity, leadTime: result.leadTime ?? product.leadTime, orderId,
+			});
+		} else if (result.outcome === 'OUT_OF_SEASON') {
+			await this.eventBus.publish('ProductOutOfSeason', {
+				productId, productName, quantity, reason: result.reason, orderId,
+			});
+		}
+	}
+}
+
+type StockChange = ComponentProcessingResult & {
+	updatedProduct: Partial<Product>;
+};
+
+/**
+ * Runs the strategy of each line in turn, each line seeing the stock that other orders reserved and
+ * that the earlier lines take, a bundle and one of its components for instance. Nothing is written.
+ */
+export async function runStrategies(
+	orderLines: ProductOrderLine[],
+	strategies: IProductStrategy[],
+	reserved: ReadonlyMap<number, number>,
+	orderId?: number,
+): Promise<ProductProcessingResult[]> {
+	const results: ProductProcessingResult[] = [];
+	const takenByOrder = new Map<number, number>();
+	// Lines are processed sequentially, each one depends on what the earlier ones take
+	for (const [index, {product, quantity}] of orderLines.entries()) {
+		// eslint-disable-next-line no-await-in-loop
+		const result = await strategies[index]!.processOrder(
+			product,
+			quantity,
+			(reserved.get(product.id) ?? 0) + (takenByOrder.get(product.id) ?? 0),
+			{orderId, takenByOrder},
+		);
+		results.push(result);
+		for (const {product: stockProduct, result: stockResult} of result.components ?? [{product, result}]) {
+			if (stockResult.shouldUpdateStock) {
+				takenByOrder.set(stockProduct.id, (takenByOrder.get(stockProduct.id) ?? 0) + stockResult.fulfilledQuantity);
+			}
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Gathers the stock changes that several lines of an order make to the same product into one, as every
+ * strategy decided from the same snapshot of the product and the changes cannot be applied one after
+ * the other. Later lines were not given the stock the earlier ones take, so the combined change fits.
+ */
+function combineStockChanges(executor: DatabaseExecutor, stockChanges: ComponentProcessingResult[]): StockChange[] {
+	const changesByProduct = new Map<number, StockChange[]>();
+	for (const {product, result} of stockChanges) {
+		if (!result.shouldUpdateStock || !result.updatedProduct) {
+			continue;
+		}
+
+		changesByProduct.set(product.id, [...changesByProduct.get(product.id) ?? [], {product, result, updatedProduct: result.updatedProduct}]);
+	}
+
+	return [...changesByProduct.values()].map(changes => changes.length === 1 ? changes[0]! : combineProductChanges(executor, changes));
+}
+
+function combineProductChanges(executor: DatabaseExecutor, changes: StockChange[]): StockChange {
+	const {product, result, updatedProduct} = changes[0]!;
+	const fulfilledQuantity = changes.reduce((total, {result}) => total + result.fulfilledQuantity, 0);
+	if (!result.lotChanges) {
+		const removed = changes.reduce((total, {updatedProduct}) => total + product.available - (updatedProduct.available ?? product.available), 0);
+		return {
+			product,
+			result: {...result, fulfilledQuantity},
+			updatedProduct: {...updatedProduct, available: product.available - removed},
+		};
+	}
+
+	// Every change writes off the same expired lots, and plans its consumption from the same first lots
+	const writeOffs = result.lotChanges.filter(({kind}) => kind === 'EXPIRY_WRITE_OFF');
+	const usableLots = getStockLots(executor, product).filter(({lot}) => !writeOffs.some(writeOff => writeOff.lot?.id === lot?.id));
+	const writtenOff = writeOffs.reduce((total, {quantity}) => total + quantity, 0);
+	return {
+		product,
+		result: {...result, fulfilledQuantity, lotChanges: [...writeOffs, ...planLotConsumption(usableLots, fulfilledQuantity)]},
+		updatedProduct: {...updatedProduct, available: product.available - writtenOff - fulfilledQuantity},
+	};
+}
+
+export function toOrderLineReport({product, quantity}: ProductOrderLine, result: ProductProcessingResult): OrderLineReport {
+	return {
+		productId: product.id,
+		productName: product.name,
+		quantity,
+		fulfilledQuantity: result.fulfilledQuantity,
+		unfulfilledQuantity: result.unfulfilledQuantity,
+		outcome: result.outcome,
+		reason: result.reason,
+		...(result.leadTime === undefined ? {} : {leadTime: result.leadTime}),
+		...(result.promisedDate === undefined ? {} : {promisedDate: result.promisedDate}),
+		...(result.blockedBy ? {blockedBy: result.blockedBy} : {}),
+		stockBefore: product.available,
+		stockAfter: result.shouldUpdateStock ? result.updatedProduct?.available ?? product.available : product.available,
+	};
 }
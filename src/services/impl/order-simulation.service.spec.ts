@@ -0,0 +1,128 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {OrderNotFoundError} from '../errors.js';
+import {BundleProductStrategy} from './bundle-product-strategy.js';
+import {FixedClock} from './clock.js';
+import {OrderSimulationService} from './order-simulation.service.js';
+import {builtInProductStrategies} from './product-strategy-registry.js';
+import {
+	bundleComponents, orders, ordersToProducts, products,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('OrderSimulationService Tests', () => {
+	let orderSimulationService: OrderSimulationService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		orderSimulationService = new OrderSimulationService({
+			db: databaseMock,
+			createProductStrategies(ns, clock) {
+				const strategies = builtInProductStrategies(ns, databaseMock, clock);
+				return {...strategies, BUNDLE: new BundleProductStrategy(databaseMock, strategies, clock)};
+			},
+		});
+		await databaseMock.insert(products).values([
+			{
+				id: 1,
+				leadTime: 30,
+				available: 1,
+				type: 'SEASONAL',
+				name: 'Christmas Tree',
+				seasonStartDate: new Date('2030-11-15'),
+				seasonEndDate: new Date('2030-12-26'),
+			},
+			{
+				id: 2, leadTime: 15, available: 4, type: 'EXPIRABLE', name: 'Milk', expiryDate: new Date('2030-12-10'),
+			},
+		]);
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values([
+			{orderId: 1, productId: 1, quantity: 2},
+			{orderId: 1, productId: 2, quantity: 1},
+		]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should report what processing would do at the chosen date', async () => {
+		// GIVEN
+		const asOf = new Date('2030-12-01');
+
+		// WHEN
+		const simulation = await orderSimulationService.simulateOrder(1, asOf);
+
+		// THEN
+		expect(simulation).toMatchObject({
+			orderId: 1,
+			status: 'PARTIALLY_FULFILLED',
+			asOf,
+			lines: [
+				{
+					productId: 1, fulfilledQuantity: 1, outcome: 'OUT_OF_STOCK', reason: 'RESTOCK_AFTER_SEASON_END', stockAfter: 0,
+				},
+				{
+					productId: 2, fulfilledQuantity: 1, outcome: 'FULFILLED', stockAfter: 3,
+				},
+			],
+			notifications: [{kind: 'OUT_OF_STOCK', productName: 'Christmas Tree'}],
+		});
+	});
+
+	it('should not write anything to the database', async () => {
+		// GIVEN
+		const asOf = new Date('2030-12-20');
+
+		// WHEN
+		const simulation = await orderSimulationService.simulateOrder(1, asOf);
+
+		// THEN
+		expect(simulation.lines[1]).toMatchObject({outcome: 'EXPIRED', stockAfter: 0});
+		expect(simulation.notifications).toContainEqual({kind: 'EXPIRATION', productName: 'Milk', expiryDate: new Date('2030-12-10')});
+		const order = await databaseMock.query.orders.findFirst();
+		expect(order?.status).toBe('PENDING');
+		const storedProducts = await databaseMock.query.products.findMany();
+		expect(storedProducts.map(({available}) => available)).toEqual([1, 4]);
+		expect(await databaseMock.query.stockMovements.findMany()).toEqual([]);
+	});
+
+	it('should answer what processing does when a bundle and one of its components draw on the same stock', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values([
+			{
+				id: 3, leadTime: 0, available: 1, type: 'NORMAL', name: 'Greeting Card',
+			},
+			{
+				id: 4, leadTime: 0, available: 0, type: 'BUNDLE', name: 'Card Box',
+			},
+		]);
+		await databaseMock.insert(bundleComponents).values({bundleId: 4, componentId: 3, quantity: 1});
+		await databaseMock.insert(orders).values({id: 2});
+		await databaseMock.insert(ordersToProducts).values([
+			{orderId: 2, productId: 3, quantity: 1},
+			{orderId: 2, productId: 4, quantity: 1},
+		]);
+		const asOf = new Date('2030-12-01');
+
+		// WHEN
+		const {asOf: _asOf, notifications: _notifications, ...simulation} = await orderSimulationService.simulateOrder(2, asOf);
+		const processed = await createOrderProcessingService(databaseMock, {clock: new FixedClock(asOf)}).processOrderById(2);
+
+		// THEN
+		expect(simulation).toMatchObject({status: 'PARTIALLY_FULFILLED', lines: [{outcome: 'FULFILLED'}, {outcome: 'OUT_OF_STOCK'}]});
+		expect(simulation).toEqual(processed);
+	});
+
+	it('should refuse to simulate an unknown order', async () => {
+		// WHEN
+		const simulation = orderSimulationService.simulateOrder(42, new Date());
+
+		// THEN
+		await expect(simulation).rejects.toBeInstanceOf(OrderNotFoundError);
+	});
+});
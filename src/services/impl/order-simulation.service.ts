@@ -0,0 +1,72 @@
+import {type Cradle} from '@fastify/awilix';
+import {eq} from 'drizzle-orm';
+import {OrderNotFoundError} from '../errors.js';
+import {FixedClock} from './clock.js';
+import {NotificationRecorder, type IntendedNotification} from './notification-outbox.service.js';
+import {deriveOrderStatus} from './order-status.js';
+import {runStrategies, toOrderLineReport, type ProcessedOrder} from './order-processing.service.js';
+import {ProductStrategyRegistry, type ProductStrategiesFactory} from './product-strategy-registry.js';
+import {getReservedQuantities} from './stock-reservations.js';
+import {orders} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+export type SimulatedOrder = ProcessedOrder & {
+	asOf: Date;
+	notifications: IntendedNotification[];
+};
+
+export class OrderSimulationService {
+	private readonly database: Database;
+	private readonly createProductStrategies: ProductStrategiesFactory;
+
+	constructor({db, createProductStrategies}: Pick<Cradle, 'db' | 'createProductStrategies'>) {
+		this.database = db;
+		this.createProductStrategies = createProductStrategies;
+	}
+
+	/**
+	 * Runs the strategies over a stored order as if it were processed at the given date.
+	 * Nothing is written and nobody is notified, the intended notifications are returned instead.
+	 */
+	async simulateOrder(orderId: number, asOf: Date): Promise<SimulatedOrder> {
+		const order = await this.database.query.orders.findFirst({
+			where: eq(orders.id, orderId),
+			with: {
+				products: {
+					columns: {
+						quantity: true,
+					},
+					with: {
+						product: true,
+					},
+				},
+			},
+		});
+		if (!order) {
+			throw new OrderNotFoundError(orderId);
+		}
+
+		const notificationRecorder = new NotificationRecorder();
+		const strategyRegistry = new ProductStrategyRegistry({
+			db: this.database,
+			productStrategies: this.createProductStrategies(notificationRecorder, new FixedClock(asOf)),
+		});
+		const orderLines = order.products.map(({product, quantity}) => ({product, quantity}));
+		const strategies = orderLines.map(({product}) => strategyRegistry.getStrategy(product.type));
+		const reserved = getReservedQuantities(this.database, orderLines.map(({product}) => product.id), {excludeOrderId: order.id, now: asOf});
+
+		const results = await runStrategies(orderLines, strategies, reserved, order.id);
+
+		for (const {notificationAction} of results) {
+			notificationAction?.();
+		}
+
+		return {
+			orderId: order.id,
+			status: deriveOrderStatus(results),
+			lines: orderLines.map((line, index) => toOrderLineReport(line, results[index]!)),
+			asOf,
+			notifications: notificationRecorder.notifications,
+		};
+	}
+}
@@ -0,0 +1,63 @@
+import {describe, it, expect} from 'vitest';
+import {canTransitionOrderStatus, deriveOrderStatus} from './order-status.js';
+
+describe('Order Status Tests', () => {
+	describe('canTransitionOrderStatus', () => {
+		it('should allow a pending order to be processed or cancelled', () => {
+			expect(canTransitionOrderStatus('PENDING', 'PROCESSING')).toBe(true);
+			expect(canTransitionOrderStatus('PENDING', 'CANCELLED')).toBe(true);
+		});
+
+		it('should refuse to leave a final status', () => {
+			expect(canTransitionOrderStatus('FULFILLED', 'PROCESSING')).toBe(false);
+			expect(canTransitionOrderStatus('CANCELLED', 'PENDING')).toBe(false);
+		});
+
+		it('should refuse to skip processing', () => {
+			expect(canTransitionOrderStatus('PENDING', 'FULFILLED')).toBe(false);
+		});
+	});
+
+	describe('deriveOrderStatus', () => {
+		it('should be fulfilled when every line is fully served', () => {
+			expect(deriveOrderStatus([
+				{
+					shouldUpdateStock: true, fulfilledQuantity: 2, unfulfilledQuantity: 0, outcome: 'FULFILLED', reason: 'IN_STOCK',
+				},
+				{
+					shouldUpdateStock: true, fulfilledQuantity: 1, unfulfilledQuantity: 0, outcome: 'FULFILLED', reason: 'IN_STOCK',
+				},
+			])).toBe('FULFILLED');
+		});
+
+		it('should be partially fulfilled when some quantity is missing', () => {
+			expect(deriveOrderStatus([
+				{
+					shouldUpdateStock: true, fulfilledQuantity: 2, unfulfilledQuantity: 0, outcome: 'FULFILLED', reason: 'IN_STOCK',
+				},
+				{
+					shouldUpdateStock: false, fulfilledQuantity: 0, unfulfilledQuantity: 1, outcome: 'OUT_OF_SEASON', reason: 'SEASON_NOT_STARTED',
+				},
+			])).toBe('PARTIALLY_FULFILLED');
+		});
+
+		it('should be backordered when nothing could be served but some lines are delayed', () => {
+			expect(deriveOrderStatus([
+				{
+					shouldUpdateStock: true, fulfilledQuantity: 0, unfulfilledQuantity: 3, outcome: 'DELAYED', reason: 'AWAITING_RESTOCK', leadTime: 15,
+				},
+				{
+					shouldUpdateStock: true, fulfilledQuantity: 0, unfulfilledQuantity: 1, outcome: 'EXPIRED', reason: 'PRODUCT_EXPIRED',
+				},
+			])).toBe('BACKORDERED');
+		});
+
+		it('should be cancelled when no line can be served at all', () => {
+			expect(deriveOrderStatus([
+				{
+					shouldUpdateStock: true, fulfilledQuantity: 0, unfulfilledQuantity: 1, outcome: 'EXPIRED', reason: 'PRODUCT_EXPIRED',
+				},
+			])).toBe('CANCELLED');
+		});
+	});
+});
@@ -0,0 +1,88 @@
+import {and, eq} from 'drizzle-orm';
+import {IllegalOrderStatusTransitionError} from '../errors.js';
+import {type ProductProcessingResult} from './product-strategy.js';
+import {publishWebhookEvent} from './webhook-subscription.service.js';
+import {
+	type Order, type OrderLine, type OrderStatus, orders, orderStatusTransitions,
+} from '@/db/schema.js';
+import {type DatabaseExecutor} from '@/db/type.js';
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+	PENDING: ['PROCESSING', 'CANCELLED'],
+	// Going back to PENDING releases an order whose processing was rolled back
+	PROCESSING: ['FULFILLED', 'PARTIALLY_FULFILLED', 'BACKORDERED', 'CANCELLED', 'PENDING'],
+	PARTIALLY_FULFILLED: ['FULFILLED', 'CANCELLED'],
+	BACKORDERED: ['PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED'],
+	FULFILLED: [],
+	CANCELLED: [],
+};
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+	return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Moves an order to a new status and records the transition.
+ * The update only applies if the order is still in the status it was read with,
+ * so two concurrent transitions of the same order cannot both succeed.
+ */
+export function transitionOrderStatus(
+	executor: DatabaseExecutor,
+	order: Pick<Order, 'id' | 'status'>,
+	to: OrderStatus,
+	occurredAt: Date,
+): void {
+	if (!canTransitionOrderStatus(order.status, to)) {
+		throw new IllegalOrderStatusTransitionError(order.id, order.status, to);
+	}
+
+	const {changes} = executor
+		.update(orders)
+		.set({status: to, statusUpdatedAt: occurredAt})
+		.where(and(eq(orders.id, order.id), eq(orders.status, order.status)))
+		.run();
+	if (changes === 0) {
+		throw new IllegalOrderStatusTransitionError(order.id, order.status, to);
+	}
+
+	executor
+		.insert(orderStatusTransitions)
+		.values({
+			orderId: order.id, fromStatus: order.status, toStatus: to, occurredAt,
+		})
+		.run();
+
+	if (to === 'FULFILLED') {
+		publishWebhookEvent(executor, 'ORDER_FULFILLED', {orderId: order.id}, occurredAt);
+	}
+}
+
+/**
+ * FULFILLED when every line was fully served, PARTIALLY_FULFILLED when only some quantity was,
+ * BACKORDERED when nothing was served but some lines are delayed, CANCELLED when nothing can be served.
+ */
+export function deriveOrderStatus(results: ProductProcessingResult[]): OrderStatus {
+	const fulfilled = results.reduce((total, result) => total + result.fulfilledQuantity, 0);
+	const unfulfilled = results.reduce((total, result) => total + result.unfulfilledQuantity, 0);
+
+	if (unfulfilled === 0) {
+		return 'FULFILLED';
+	}
+
+	if (fulfilled > 0) {
+		return 'PARTIALLY_FULFILLED';
+	}
+
+	return results.some(({outcome}) => outcome === 'DELAYED') ? 'BACKORDERED' : 'CANCELLED';
+}
+
+/**
+ * Status of an already processed order from what its lines have been served so far.
+ */
+export function deriveOrderStatusFromLines(lines: Array<Pick<OrderLine, 'quantity' | 'fulfilledQuantity'>>): OrderStatus {
+	if (lines.every(({quantity, fulfilledQuantity}) => fulfilledQuantity >= quantity)) {
+		return 'FULFILLED';
+	}
+
+	return lines.some(({fulfilledQuantity}) => fulfilledQuantity > 0) ? 'PARTIALLY_FULFILLED' : 'BACKORDERED';
+}
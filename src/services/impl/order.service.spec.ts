@@ -0,0 +1,110 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {IllegalOrderStatusTransitionError, UnknownProductError} from '../errors.js';
+import {OrderService} from './order.service.js';
+import {SystemClock} from './clock.js';
+import {products, orders} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('OrderService Tests', () => {
+	let orderService: OrderService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		orderService = new OrderService({
+			db: databaseMock,
+			clock: new SystemClock(),
+		});
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 5, type: 'NORMAL', name: 'USB Cable',
+			},
+			{
+				id: 2, leadTime: 10, available: 0, type: 'NORMAL', name: 'USB Dongle',
+			},
+		]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should create a pending order with its lines', async () => {
+		// WHEN
+		const order = await orderService.createOrder([
+			{productId: 1, quantity: 3},
+			{productId: 2, quantity: 1},
+		]);
+
+		// THEN
+		expect(order.status).toBe('PENDING');
+		expect(order.lines.map(({product, quantity}) => [product.name, quantity])).toEqual([
+			['USB Cable', 3],
+			['USB Dongle', 1],
+		]);
+		expect(order.statusTransitions).toEqual([
+			{fromStatus: null, toStatus: 'PENDING', occurredAt: order.createdAt},
+		]);
+	});
+
+	it('should refuse lines referencing products missing from the catalog', async () => {
+		// WHEN
+		const creation = orderService.createOrder([
+			{productId: 1, quantity: 1},
+			{productId: 42, quantity: 1},
+		]);
+
+		// THEN
+		await expect(creation).rejects.toBeInstanceOf(UnknownProductError);
+		expect(await databaseMock.query.orders.findMany()).toEqual([]);
+	});
+
+	it('should page through orders with a cursor', async () => {
+		// GIVEN
+		for (let index = 0; index < 3; index++) {
+			// eslint-disable-next-line no-await-in-loop
+			await orderService.createOrder([{productId: 1, quantity: 1}]);
+		}
+
+		// WHEN
+		const firstPage = await orderService.listOrders({limit: 2});
+		const secondPage = await orderService.listOrders({limit: 2, cursor: firstPage.nextCursor!});
+
+		// THEN
+		expect(firstPage.items.map(({id}) => id)).toEqual([1, 2]);
+		expect(firstPage.nextCursor).toBe(2);
+		expect(secondPage.items.map(({id}) => id)).toEqual([3]);
+		expect(secondPage.nextCursor).toBeNull();
+	});
+
+	it('should filter orders by status and product', async () => {
+		// GIVEN
+		await orderService.createOrder([{productId: 1, quantity: 1}]);
+		await orderService.createOrder([{productId: 2, quantity: 1}]);
+		await orderService.createOrder([{productId: 1, quantity: 1}, {productId: 2, quantity: 1}]);
+		await databaseMock.update(orders).set({status: 'CANCELLED'});
+		await orderService.createOrder([{productId: 2, quantity: 1}]);
+
+		// WHEN
+		const cancelledWithProduct = await orderService.listOrders({limit: 10, status: 'CANCELLED', productId: 2});
+
+		// THEN
+		expect(cancelledWithProduct.items.map(({id}) => id)).toEqual([2, 3]);
+	});
+
+	it('should refuse to cancel an order while it is being processed', async () => {
+		// GIVEN
+		const {id} = await orderService.createOrder([{productId: 1, quantity: 1}]);
+		await databaseMock.update(orders).set({status: 'PROCESSING'});
+
+		// WHEN
+		const cancelling = orderService.cancelOrder(id);
+
+		// THEN
+		await expect(cancelling).rejects.toBeInstanceOf(IllegalOrderStatusTransitionError);
+		const order = await databaseMock.query.orders.findFirst();
+		expect(order?.status).toBe('PROCESSING');
+	});
+});
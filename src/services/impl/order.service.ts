@@ -0,0 +1,188 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	and, asc, eq, exists, gt, gte, inArray, lte, type SQL,
+} from 'drizzle-orm';
+import {IllegalOrderStatusTransitionError, OrderNotFoundError, UnknownProductError} from '../errors.js';
+import {type IClock} from '../clock.port.js';
+import {transitionOrderStatus} from './order-status.js';
+import {cancelBackorders} from './backorder.service.js';
+import {closeReservations, reserveStock} from './stock-reservations.js';
+import {type Database} from '@/db/type.js';
+import {
+	backorders, orders, ordersToProducts, orderStatusTransitions, products, stockReservations, type OrderStatus,
+} from '@/db/schema.js';
+
+export type OrderLineInput = {
+	productId: number;
+	quantity: number;
+};
+
+export type OrderListFilters = {
+	cursor?: number | undefined;
+	limit: number;
+	status?: OrderStatus | undefined;
+	productId?: number | undefined;
+	createdFrom?: Date | undefined;
+	createdTo?: Date | undefined;
+};
+
+export class OrderService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+
+	constructor({db, clock}: Pick<Cradle, 'db' | 'clock'>) {
+		this.database = db;
+		this.clock = clock;
+	}
+
+	/**
+	 * Creates a PENDING order and reserves the stock of its lines until it is processed.
+	 */
+	async createOrder(orderLines: OrderLineInput[]) {
+		const productIds = orderLines.map(({productId}) => productId);
+		const knownProducts = await this.database
+			.select({id: products.id})
+			.from(products)
+			.where(inArray(products.id, productIds));
+		const knownIds = new Set(knownProducts.map(({id}) => id));
+		const unknownIds = productIds.filter(productId => !knownIds.has(productId));
+		if (unknownIds.length > 0) {
+			throw new UnknownProductError(unknownIds.join(', '));
+		}
+
+		const createdAt = this.clock.now();
+		const orderId = this.database.transaction(tx => {
+			const order = tx.insert(orders).values({createdAt, statusUpdatedAt: createdAt}).returning({id: orders.id}).get();
+			tx.insert(ordersToProducts).values(orderLines.map(line => ({orderId: order.id, ...line}))).run();
+			tx.insert(orderStatusTransitions).values({orderId: order.id, toStatus: 'PENDING', occurredAt: createdAt}).run();
+			reserveStock(tx, order.id, orderLines, createdAt);
+			return order.id;
+		});
+
+		return this.getOrder(orderId);
+	}
+
+	async getOrder(orderId: number) {
+		const order = await this.database.query.orders.findFirst({
+			where: eq(orders.id, orderId),
+			with: {
+				products: {
+					columns: {
+						productId: true,
+						quantity: true,
+						fulfilledQuantity: true,
+						promisedDate: true,
+					},
+					with: {
+						product: true,
+					},
+				},
+				statusTransitions: {
+					columns: {
+						fromStatus: true,
+						toStatus: true,
+						occurredAt: true,
+					},
+					orderBy: asc(orderStatusTransitions.id),
+				},
+				reservations: {
+					columns: {
+						productId: true,
+						quantity: true,
+						status: true,
+						expiresAt: true,
+					},
+					orderBy: asc(stockReservations.id),
+				},
+				backorders: {
+					columns: {
+						productId: true,
+						quantity: true,
+						status: true,
+					},
+					orderBy: asc(backorders.id),
+				},
+			},
+		});
+		if (!order) {
+			throw new OrderNotFoundError(orderId);
+		}
+
+		const {products: lines, ...rest} = order;
+		return {...rest, lines};
+	}
+
+	/**
+	 * Cancels an order and releases the stock it still holds.
+	 */
+	async cancelOrder(orderId: number) {
+		const order = await this.database.query.orders.findFirst({where: eq(orders.id, orderId)});
+		if (!order) {
+			throw new OrderNotFoundError(orderId);
+		}
+
+		// An order being processed is left to its processing, which cancels it if nothing can be served
+		if (order.status === 'PROCESSING') {
+			throw new IllegalOrderStatusTransitionError(order.id, order.status, 'CANCELLED');
+		}
+
+		const cancelledAt = this.clock.now();
+		this.database.transaction(tx => {
+			transitionOrderStatus(tx, order, 'CANCELLED', cancelledAt);
+			closeReservations(tx, order.id, 'RELEASED', cancelledAt);
+			cancelBackorders(tx, order.id, cancelledAt);
+		});
+
+		return this.getOrder(orderId);
+	}
+
+	/**
+	 * Lists orders by ascending id. The cursor is the id of the last order of the previous page.
+	 */
+	async listOrders({
+		cursor, limit, status, productId, createdFrom, createdTo,
+	}: OrderListFilters) {
+		const conditions: SQL[] = [];
+		if (cursor !== undefined) {
+			conditions.push(gt(orders.id, cursor));
+		}
+
+		if (status) {
+			conditions.push(eq(orders.status, status));
+		}
+
+		if (productId !== undefined) {
+			conditions.push(exists(this.database
+				.select({orderId: ordersToProducts.orderId})
+				.from(ordersToProducts)
+				.where(and(eq(ordersToProducts.orderId, orders.id), eq(ordersToProducts.productId, productId)))));
+		}
+
+		if (createdFrom) {
+			conditions.push(gte(orders.createdAt, createdFrom));
+		}
+
+		if (createdTo) {
+			conditions.push(lte(orders.createdAt, createdTo));
+		}
+
+		// Fetch one extra row to know whether another page follows
+		const page = await this.database.query.orders.findMany({
+			where: and(...conditions),
+			orderBy: asc(orders.id),
+			limit: limit + 1,
+			with: {
+				products: {
+					columns: {
+						productId: true,
+						quantity: true,
+					},
+				},
+			},
+		});
+
+		const items = page.slice(0, limit).map(({products: lines, ...order}) => ({...order, lines}));
+		const nextCursor = page.length > limit ? items.at(-1)!.id : null;
+		return {items, nextCursor};
+	}
+}
@@ -0,0 +1,54 @@
+import {
+	describe, it, expect, beforeEach, afterEach, vi,
+} from 'vitest';
+import {poll} from './polling.js';
+
+describe('poll Tests', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should not start a run before the previous one settled', async () => {
+		// GIVEN
+		let running = 0;
+		let overlapped = false;
+		const work = vi.fn(async () => {
+			running++;
+			overlapped ||= running > 1;
+			await new Promise(resolve => {
+				setTimeout(resolve, 2500);
+			});
+			running--;
+		});
+
+		// WHEN
+		const stop = poll(work, 1000, vi.fn());
+		await vi.advanceTimersByTimeAsync(7000);
+		stop();
+
+		// THEN
+		expect(work).toHaveBeenCalledTimes(2);
+		expect(overlapped).toBe(false);
+	});
+
+	it('should report a failed run and keep polling until stopped', async () => {
+		// GIVEN
+		const failure = new Error('Database locked');
+		const work = vi.fn().mockRejectedValueOnce(failure).mockResolvedValue(undefined);
+		const onError = vi.fn();
+
+		// WHEN
+		const stop = poll(work, 1000, onError);
+		await vi.advanceTimersByTimeAsync(2000);
+		stop();
+		await vi.advanceTimersByTimeAsync(5000);
+
+		// THEN
+		expect(onError.mock.calls).toEqual([[failure]]);
+		expect(work).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,31 @@
+/**
+ * Runs the work in the background every interval until the returned function is called. A run
+ * starts an interval after the previous one settled, so runs never overlap, and a failed run is
+ * handed to onError without stopping the next ones.
+ */
+export function poll(work: () => Promise<unknown>, interval: number, onError: (error: unknown) => void): () => void {
+	let stopped = false;
+	let timer: NodeJS.Timeout | undefined;
+
+	const schedule = () => {
+		timer = setTimeout(async () => {
+			try {
+				await work();
+			} catch (error) {
+				onError(error);
+			}
+
+			if (!stopped) {
+				schedule();
+			}
+		}, interval);
+		// Polling alone must not keep the process alive
+		timer.unref();
+	};
+
+	schedule();
+	return () => {
+		stopped = true;
+		clearTimeout(timer);
+	};
+}
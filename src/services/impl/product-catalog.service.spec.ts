@@ -0,0 +1,179 @@
+import {
+	describe, it, expect, beforeEach, afterEach, vi,
+} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingDependencies} from '../../utils/test-utils/order-processing-tools.js';
+import {InvalidProductError, ProductInUseError, ProductStockChangedError} from '../errors.js';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {BackorderService} from './backorder.service.js';
+import {GoodsReceivingService} from './goods-receiving.service.js';
+import {ProductCatalogService} from './product-catalog.service.js';
+import {SystemClock} from './clock.js';
+import {orders, ordersToProducts, products} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('ProductCatalogService Tests', () => {
+	let productCatalogService: ProductCatalogService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		const {productStrategyRegistry, clock} = createOrderProcessingDependencies(databaseMock);
+		productCatalogService = new ProductCatalogService({
+			db: databaseMock,
+			backorderService: new BackorderService({db: databaseMock, fns: mockDeep<IFulfilmentNotificationService>(), clock}),
+			productStrategyRegistry,
+			clock,
+		});
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should refuse a type change that leaves the product without its required fields', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'Watermelon', leadTime: 15, available: 5,
+		});
+
+		// WHEN
+		const update = productCatalogService.updateProduct(product.id, {type: 'SEASONAL'});
+
+		// THEN
+		await expect(update).rejects.toBeInstanceOf(InvalidProductError);
+		expect(await productCatalogService.getProduct(product.id)).toEqual(product);
+	});
+
+	it('should accept a type change carrying the fields of the new type and clear the old ones', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'EXPIRABLE', name: 'Watermelon', leadTime: 15, available: 5, expiryDate: new Date('2030-01-01'),
+		});
+
+		// WHEN
+		const updatedProduct = await productCatalogService.updateProduct(product.id, {
+			type: 'SEASONAL',
+			seasonStartDate: new Date('2030-06-01'),
+			seasonEndDate: new Date('2030-09-01'),
+		});
+
+		// THEN
+		expect(updatedProduct).toMatchObject({
+			type: 'SEASONAL',
+			expiryDate: null,
+			seasonStartDate: new Date('2030-06-01'),
+			seasonEndDate: new Date('2030-09-01'),
+		});
+	});
+
+	it('should replace the season dates with season windows and go back to them', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'SEASONAL', name: 'Apples', leadTime: 15, available: 5, seasonStartDate: new Date('2030-06-01'), seasonEndDate: new Date('2030-09-01'),
+		});
+		const windows = [
+			{startsOn: '2030-04-01', endsOn: '2030-05-31', recurring: true},
+			{startsOn: '2030-09-15', endsOn: '2030-11-15', recurring: true},
+		];
+
+		// WHEN
+		const withWindows = await productCatalogService.updateProduct(product.id, {seasonWindows: windows});
+		const storedWindows = await productCatalogService.getSeasonWindows(product.id);
+		const renamed = await productCatalogService.updateProduct(product.id, {name: 'Pink Lady Apples'});
+		const refusal = productCatalogService.updateProduct(product.id, {seasonWindows: null});
+
+		// THEN
+		expect(withWindows).toMatchObject({seasonStartDate: null, seasonEndDate: null});
+		expect(storedWindows).toEqual(windows);
+		expect(renamed.name).toBe('Pink Lady Apples');
+		expect(await productCatalogService.getSeasonWindows(product.id)).toEqual(windows);
+		await expect(refusal).rejects.toThrow('seasonWindows: A seasonal product needs season windows or season dates');
+	});
+
+	it('should leave the stock alone when a change does not carry it', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 5,
+		});
+		vi.spyOn(productCatalogService, 'getProduct').mockResolvedValue(product);
+		await databaseMock.update(products).set({available: 3});
+
+		// WHEN
+		const updated = await productCatalogService.updateProduct(product.id, {name: 'USB-C Cable'});
+
+		// THEN
+		expect(updated).toMatchObject({name: 'USB-C Cable', available: 3});
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({kind}) => kind)).toEqual(['INITIAL']);
+	});
+
+	it('should refuse to set the stock of a product whose stock moved since it was read', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 5,
+		});
+		vi.spyOn(productCatalogService, 'getProduct').mockResolvedValue(product);
+		await databaseMock.update(products).set({available: 3});
+
+		// WHEN
+		const update = productCatalogService.updateProduct(product.id, {available: 10});
+
+		// THEN
+		await expect(update).rejects.toBeInstanceOf(ProductStockChangedError);
+		const [stored] = await databaseMock.query.products.findMany();
+		expect(stored?.available).toBe(3);
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({kind}) => kind)).toEqual(['INITIAL']);
+	});
+
+	it('should refuse to delete a product referenced by an order', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 5,
+		});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: product.id});
+
+		// WHEN
+		const deletion = productCatalogService.deleteProduct(product.id);
+
+		// THEN
+		await expect(deletion).rejects.toBeInstanceOf(ProductInUseError);
+	});
+
+	it('should refuse to delete a restocked product and keep its ledger', async () => {
+		// GIVEN
+		const clock = new SystemClock();
+		const backorderService = new BackorderService({db: databaseMock, fns: mockDeep<IFulfilmentNotificationService>(), clock});
+		const product = await productCatalogService.createProduct({
+			type: 'EXPIRABLE', name: 'Milk', leadTime: 15, available: 0, expiryDate: new Date('2030-12-10'),
+		});
+		await new GoodsReceivingService({db: databaseMock, backorderService, clock}).receiveGoods({
+			supplierReference: 'DN-1',
+			lines: [{productId: product.id, quantity: 10, expiryDate: new Date('2030-12-10')}],
+		});
+
+		// WHEN
+		const deletion = productCatalogService.deleteProduct(product.id);
+
+		// THEN
+		await expect(deletion).rejects.toBeInstanceOf(ProductInUseError);
+		const movements = await databaseMock.query.stockMovements.findMany();
+		expect(movements.map(({kind, quantity}) => [kind, quantity])).toEqual([['RESTOCK', 10]]);
+	});
+
+	it('should delete a product that has no history', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 5,
+		});
+
+		// WHEN
+		await productCatalogService.deleteProduct(product.id);
+
+		// THEN
+		expect(await databaseMock.query.products.findMany()).toEqual([]);
+		expect(await databaseMock.query.stockMovements.findMany()).toEqual([]);
+	});
+});
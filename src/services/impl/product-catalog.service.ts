@@ -0,0 +1,326 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	and, asc, eq, inArray, ne, sql, sum,
+} from 'drizzle-orm';
+import {z} from 'zod';
+import {
+	InvalidProductError, ProductInUseError, ProductNotFoundError, ProductStockChangedError,
+} from '../errors.js';
+import {type IClock} from '../clock.port.js';
+import {type BackorderService} from './backorder.service.js';
+import {recordStockMovement} from './stock-ledger.service.js';
+import {
+	bundleComponentSchema, seasonWindowSchema, type BundleComponentInput, type ProductDefinition, type SeasonWindowInput,
+} from './product-definition.js';
+import {type ProductStrategyRegistry} from './product-strategy-registry.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+import {
+	bundleComponents,
+	expiryWarnings,
+	goodsReceiptLines,
+	ordersToProducts,
+	products,
+	productSuppliers,
+	purchaseOrderLines,
+	seasonWindows,
+	stockLots,
+	stockMovements,
+	type Product,
+	type ProductInsert,
+	type StockLot,
+} from '@/db/schema.js';
+
+export const productPatchSchema = z.object({
+	name: z.string(),
+	leadTime: z.number(),
+	available: z.number(),
+	type: z.string(),
+	expiryDate: z.coerce.date().nullable(),
+	seasonStartDate: z.coerce.date().nullable(),
+	seasonEndDate: z.coerce.date().nullable(),
+	// Null stops reordering the product automatically
+	reorderPoint: z.number().int().min(0).nullable(),
+	// Null goes back to the legacy season dates
+	seasonWindows: z.array(seasonWindowSchema).nullable(),
+	components: z.array(bundleComponentSchema),
+}).partial().strict();
+
+export type ProductPatch = z.infer<typeof productPatchSchema>;
+
+// Fields that do not belong to the product type are cleared
+function toProductRow(definition: ProductDefinition): Omit<ProductInsert, 'id'> {
+	const fields = {
+		expiryDate: null,
+		seasonStartDate: null,
+		seasonEndDate: null,
+		reorderPoint: null,
+	};
+	if (definition.type === 'BUNDLE') {
+		const {components, ...bundle} = definition;
+		return {...fields, ...bundle, available: 0};
+	}
+
+	if (definition.type === 'SEASONAL') {
+		// Season windows replace the legacy season dates
+		const {
+			seasonWindows, seasonStartDate, seasonEndDate, ...seasonal
+		} = definition;
+		return {
+			...fields,
+			...seasonal,
+			seasonStartDate: seasonWindows ? null : seasonStartDate ?? null,
+			seasonEndDate: seasonWindows ? null : seasonEndDate ?? null,
+			reorderPoint: definition.reorderPoint ?? null,
+		};
+	}
+
+	return {...fields, ...definition, reorderPoint: definition.reorderPoint ?? null};
+}
+
+export class ProductCatalogService {
+	private readonly database: Database;
+	private readonly backorderService: BackorderService;
+	private readonly strategyRegistry: ProductStrategyRegistry;
+	private readonly clock: IClock;
+
+	constructor({
+		db, backorderService, productStrategyRegistry, clock,
+	}: Pick<Cradle, 'db' | 'backorderService' | 'productStrategyRegistry' | 'clock'>) {
+		this.database = db;
+		this.backorderService = backorderService;
+		this.strategyRegistry = productStrategyRegistry;
+		this.clock = clock;
+	}
+
+	async createProduct(definition: ProductDefinition): Promise<Product> {
+		await this.assertValidComponents(definition);
+		return this.database.transaction(tx => {
+			const product = tx.insert(products).values(toProductRow(definition)).returning().get();
+			recordStockMovement(tx, {
+				productId: product.id, kind: 'INITIAL', quantity: product.available, balanceAfter: product.available, occurredAt: this.clock.now(),
+			});
+			replaceBundleComponents(tx, product.id, definition);
+			replaceSeasonWindows(tx, product.id, definition);
+			return product;
+		});
+	}
+
+	async getProduct(productId: number): Promise<Product> {
+		const product = await this.database.query.products.findFirst({where: eq(products.id, productId)});
+		if (!product) {
+			throw new ProductNotFoundError(productId);
+		}
+
+		return product;
+	}
+
+	async getBundleComponents(productId: number): Promise<BundleComponentInput[]> {
+		await this.getProduct(productId);
+		return this.database
+			.select({productId: bundleComponents.componentId, quantity: bundleComponents.quantity})
+			.from(bundleComponents)
+			.where(eq(bundleComponents.bundleId, productId))
+			.orderBy(asc(bundleComponents.componentId));
+	}
+
+	async getSeasonWindows(productId: number): Promise<SeasonWindowInput[]> {
+		await this.getProduct(productId);
+		return this.database
+			.select({startsOn: seasonWindows.startsOn, endsOn: seasonWindows.endsOn, recurring: seasonWindows.recurring})
+			.from(seasonWindows)
+			.where(eq(seasonWindows.productId, productId))
+			.orderBy(asc(seasonWindows.id));
+	}
+
+	async listStockLots(productId: number): Promise<StockLot[]> {
+		await this.getProduct(productId);
+		return this.database.query.stockLots.findMany({
+			where: eq(stockLots.productId, productId),
+			orderBy: [asc(stockLots.expiryDate), asc(stockLots.id)],
+		});
+	}
+
+	async listProducts(type?: string): Promise<Product[]> {
+		return this.database.query.products.findMany({
+			...(type ? {where: eq(products.type, type)} : {}),
+			orderBy: asc(products.id),
+		});
+	}
+
+	async replaceProduct(productId: number, definition: ProductDefinition): Promise<Product> {
+		return this.writeProduct(productId, definition, true);
+	}
+
+	/**
+	 * Applies a partial change, then validates the resulting product as a whole so that
+	 * e.g. a switch to SEASONAL without season dates is refused. The stock is only written
+	 * when the change carries it.
+	 */
+	async updateProduct(productId: number, patch: ProductPatch): Promise<Product> {
+		const {id, ...current} = await this.getProduct(productId);
+		const components = current.type === 'BUNDLE' ? await this.getBundleComponents(id) : undefined;
+		const windows = current.type === 'SEASONAL' ? await this.getSeasonWindows(id) : [];
+		const seasonWindows = windows.length > 0 ? windows : undefined;
+		const result = this.strategyRegistry.definitionSchema.safeParse(stripNulls({
+			...current, components, seasonWindows, ...patch,
+		}));
+		if (!result.success) {
+			throw new InvalidProductError(result.error.issues.map(({path, message}) => `${path.join('.')}: ${message}`).join(', '));
+		}
+
+		return this.writeProduct(id, result.data, patch.available !== undefined);
+	}
+
+	/**
+	 * Deletes a product that has no history: a product that was ordered, restocked, swept or whose
+	 * stock moved since it was created stays, as the ledger only ever grows.
+	 */
+	async deleteProduct(productId: number): Promise<void> {
+		await this.getProduct(productId);
+		const orderLine = await this.database.query.ordersToProducts.findFirst({where: eq(ordersToProducts.productId, productId)});
+		const bundle = await this.database.query.bundleComponents.findFirst({where: eq(bundleComponents.componentId, productId)});
+		const purchaseOrderLine = await this.database.query.purchaseOrderLines.findFirst({where: eq(purchaseOrderLines.productId, productId)});
+		const receiptLine = await this.database.query.goodsReceiptLines.findFirst({where: eq(goodsReceiptLines.productId, productId)});
+		const lot = await this.database.query.stockLots.findFirst({where: eq(stockLots.productId, productId)});
+		const warning = await this.database.query.expiryWarnings.findFirst({where: eq(expiryWarnings.productId, productId)});
+		const movement = await this.database.query.stockMovements.findFirst({
+			where: and(eq(stockMovements.productId, productId), ne(stockMovements.kind, 'INITIAL')),
+		});
+		if (orderLine ?? bundle ?? purchaseOrderLine ?? receiptLine ?? lot ?? warning ?? movement) {
+			throw new ProductInUseError(productId);
+		}
+
+		// Only the entry recording the creation of the product is left in its ledger, it goes with it
+		this.database.transaction(tx => {
+			tx.delete(bundleComponents).where(eq(bundleComponents.bundleId, productId)).run();
+			tx.delete(seasonWindows).where(eq(seasonWindows.productId, productId)).run();
+			tx.delete(productSuppliers).where(eq(productSuppliers.productId, productId)).run();
+			tx.delete(stockMovements).where(eq(stockMovements.productId, productId)).run();
+			tx.delete(products).where(eq(products.id, productId)).run();
+		});
+	}
+
+	/**
+	 * Writes the stock only when asked to, or when the product becomes a bundle which holds none,
+	 * and only if it did not move since it was read so that the adjustment recorded is the one made.
+	 */
+	private async writeProduct(productId: number, definition: ProductDefinition, writesAvailable: boolean): Promise<Product> {
+		const current = await this.getProduct(productId);
+		await this.assertValidComponents(definition, productId);
+		this.assertLotsStillFit(productId, definition);
+		const {available, ...row} = toProductRow(definition);
+		const stockChange = writesAvailable || definition.type === 'BUNDLE';
+		const product = this.database.transaction(tx => {
+			const product = tx
+				.update(products)
+				.set(stockChange ? {...row, available} : row)
+				.where(stockChange ? and(eq(products.id, productId), eq(products.available, current.available)) : eq(products.id, productId))
+				.returning()
+				.get();
+			if (!product) {
+				throw new ProductStockChangedError(productId);
+			}
+
+			if (stockChange) {
+				recordStockMovement(tx, {
+					productId,
+					kind: 'MANUAL_ADJUSTMENT',
+					quantity: product.available - current.available,
+					balanceAfter: product.available,
+					occurredAt: this.clock.now(),
+				});
+			}
+
+			replaceBundleComponents(tx, productId, definition);
+			replaceSeasonWindows(tx, productId, definition);
+			return product;
+		});
+		if (!stockChange || product.available <= current.available) {
+			return product;
+		}
+
+		// Added stock first serves the backorders waiting for it
+		const allocations = await this.backorderService.allocate([productId]);
+		return allocations.length > 0 ? this.getProduct(productId) : product;
+	}
+
+	/**
+	 * Stock received in lots is part of the available stock, it can only be taken out by orders
+	 * and write-offs, not by a catalog change.
+	 */
+	private assertLotsStillFit(productId: number, definition: ProductDefinition): void {
+		const {tracked} = this.database
+			.select({tracked: sql<number>`coalesce(${sum(stockLots.quantity)}, 0)`.mapWith(Number)})
+			.from(stockLots)
+			.where(eq(stockLots.productId, productId))
+			.get()!;
+		if (tracked === 0) {
+			return;
+		}
+
+		if (definition.type !== 'EXPIRABLE') {
+			throw new InvalidProductError(`${tracked} units are tracked in lots, the product must stay EXPIRABLE`);
+		}
+
+		if (definition.available < tracked) {
+			throw new InvalidProductError(`available cannot be lower than the ${tracked} units tracked in lots`);
+		}
+	}
+
+	/**
+	 * Components must be existing products that are not bundles themselves, and a product
+	 * that is a component of a bundle cannot become a bundle.
+	 */
+	private async assertValidComponents(definition: ProductDefinition, productId?: number): Promise<void> {
+		if (definition.type !== 'BUNDLE') {
+			return;
+		}
+
+		const componentIds = definition.components.map(({productId}) => productId);
+		const components = await this.database.query.products.findMany({where: inArray(products.id, componentIds)});
+		const unknownIds = componentIds.filter(componentId => !components.some(({id}) => id === componentId));
+		if (unknownIds.length > 0) {
+			throw new InvalidProductError(`components not found in the catalog: ${unknownIds.join(', ')}`);
+		}
+
+		const nestedBundle = components.find(({id, type}) => type === 'BUNDLE' || id === productId);
+		if (nestedBundle) {
+			throw new InvalidProductError(`"${nestedBundle.name}" is a bundle and cannot be a component`);
+		}
+
+		if (productId !== undefined) {
+			const usage = await this.database.query.bundleComponents.findFirst({where: eq(bundleComponents.componentId, productId)});
+			if (usage) {
+				throw new InvalidProductError(`product ${productId} is a component of bundle ${usage.bundleId} and cannot become a bundle`);
+			}
+		}
+	}
+}
+
+function replaceBundleComponents(executor: DatabaseExecutor, bundleId: number, definition: ProductDefinition): void {
+	executor.delete(bundleComponents).where(eq(bundleComponents.bundleId, bundleId)).run();
+	if (definition.type !== 'BUNDLE') {
+		return;
+	}
+
+	executor
+		.insert(bundleComponents)
+		.values(definition.components.map(({productId, quantity}) => ({bundleId, componentId: productId, quantity})))
+		.run();
+}
+
+function replaceSeasonWindows(executor: DatabaseExecutor, productId: number, definition: ProductDefinition): void {
+	executor.delete(seasonWindows).where(eq(seasonWindows.productId, productId)).run();
+	if (definition.type !== 'SEASONAL' || !definition.seasonWindows) {
+		return;
+	}
+
+	executor
+		.insert(seasonWindows)
+		.values(definition.seasonWindows.map(window => ({productId, ...window})))
+		.run();
+}
+
+function stripNulls(record: Record<string, unknown>): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null));
+}
@@ -0,0 +1,111 @@
+import {z} from 'zod';
+import {addDays, withYear} from './business-dates.js';
+
+export const bundleComponentSchema = z.object({
+	productId: z.number().int().positive(),
+	quantity: z.number().int().positive().default(1),
+});
+
+export const seasonWindowSchema = z.object({
+	// First and last day of the season, both included, in the business time zone
+	startsOn: z.string().date(),
+	endsOn: z.string().date(),
+	// The season comes back every year on the same days
+	recurring: z.boolean().default(false),
+}).superRefine((window, context) => {
+	if (window.endsOn < window.startsOn) {
+		context.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ['endsOn'],
+			message: 'Season must end after it starts',
+		});
+	}
+
+	if (window.recurring && window.endsOn >= addDays(withYear(window.startsOn, Number(window.startsOn.slice(0, 4)) + 1), -1)) {
+		context.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ['endsOn'],
+			message: 'A recurring season must last less than a year',
+		});
+	}
+});
+
+export const productBaseSchema = z.object({
+	name: z.string().min(1),
+	leadTime: z.number().int().min(0),
+	available: z.number().int().min(0),
+	// A purchase order is drafted when processing orders leaves the stock below it
+	reorderPoint: z.number().int().min(0).optional(),
+});
+
+/**
+ * Fields a product of one type is defined with, its type included. Each strategy that can be
+ * defined through the catalog declares its own.
+ */
+export type ProductTypeDefinitionSchema = z.ZodObject<z.ZodRawShape & {type: z.ZodLiteral<string>}>;
+
+export const normalDefinitionSchema = productBaseSchema.extend({
+	type: z.literal('NORMAL'),
+});
+
+// Seasons are given as windows, or as the single season between the legacy season dates
+export const seasonalDefinitionSchema = productBaseSchema.extend({
+	type: z.literal('SEASONAL'),
+	seasonStartDate: z.coerce.date().optional(),
+	seasonEndDate: z.coerce.date().optional(),
+	seasonWindows: z.array(seasonWindowSchema).min(1).optional(),
+});
+
+export const expirableDefinitionSchema = productBaseSchema.extend({
+	type: z.literal('EXPIRABLE'),
+	expiryDate: z.coerce.date(),
+});
+
+// A bundle holds no stock of its own, it is drawn from its components
+export const bundleDefinitionSchema = productBaseSchema.omit({available: true, reorderPoint: true}).extend({
+	type: z.literal('BUNDLE'),
+	components: z.array(bundleComponentSchema).min(1).refine(
+		components => new Set(components.map(({productId}) => productId)).size === components.length,
+		{message: 'Each component can only appear once'},
+	),
+});
+
+const builtInDefinitionSchemas = [normalDefinitionSchema, seasonalDefinitionSchema, expirableDefinitionSchema, bundleDefinitionSchema] as const;
+
+export type ProductDefinition = z.infer<(typeof builtInDefinitionSchemas)[number]>;
+
+export type BundleComponentInput = z.infer<typeof bundleComponentSchema>;
+
+export type SeasonWindowInput = z.infer<typeof seasonWindowSchema>;
+
+/**
+ * Accepts a product of any of the given types, with the fields its type requires.
+ */
+export function buildProductDefinitionSchema(schemas: ProductTypeDefinitionSchema[]): z.ZodType<ProductDefinition, z.ZodTypeDef, unknown> {
+	const [first, ...others] = schemas;
+	if (!first) {
+		throw new Error('No product type can be defined');
+	}
+
+	return z.discriminatedUnion('type', [first, ...others]).superRefine((product, context) => {
+		// Only the built-in types are refined further, a type of another shape is not SEASONAL
+		const definition = product as ProductDefinition;
+		if (definition.type !== 'SEASONAL' || definition.seasonWindows) {
+			return;
+		}
+
+		if (!definition.seasonStartDate || !definition.seasonEndDate) {
+			context.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ['seasonWindows'],
+				message: 'A seasonal product needs season windows or season dates',
+			});
+		} else if (definition.seasonStartDate >= definition.seasonEndDate) {
+			context.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ['seasonEndDate'],
+				message: 'Season must end after it starts',
+			});
+		}
+	}) as unknown as z.ZodType<ProductDefinition, z.ZodTypeDef, unknown>;
+}
@@ -0,0 +1,98 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {z} from 'zod';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {type INotificationService} from '../notifications.port.js';
+import {UnknownProductTypeError} from '../errors.js';
+import {type IProductStrategy} from './product-strategy.js';
+import {productBaseSchema} from './product-definition.js';
+import {builtInProductStrategies, ProductStrategyRegistry} from './product-strategy-registry.js';
+import {SystemClock} from './clock.js';
+import {products} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('ProductStrategyRegistry Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	function createRegistry(extraStrategies: Record<string, IProductStrategy> = {}) {
+		return new ProductStrategyRegistry({
+			db: databaseMock,
+			productStrategies: {...builtInProductStrategies(mockDeep<INotificationService>(), databaseMock, new SystemClock()), ...extraStrategies},
+		});
+	}
+
+	it('should resolve the strategy registered for a product type', () => {
+		// GIVEN
+		const giftCardStrategy = mockDeep<IProductStrategy>();
+		const registry = createRegistry({GIFT_CARD: giftCardStrategy});
+
+		// WHEN
+		const strategy = registry.getStrategy('GIFT_CARD');
+
+		// THEN
+		expect(strategy).toBe(giftCardStrategy);
+		expect(registry.types).toEqual(['NORMAL', 'SEASONAL', 'EXPIRABLE', 'GIFT_CARD']);
+	});
+
+	it('should accept the definitions of the registered product types only', () => {
+		// GIVEN
+		const definitionSchema = productBaseSchema.extend({type: z.literal('GIFT_CARD'), value: z.number().positive()});
+		const registry = createRegistry({GIFT_CARD: Object.assign(mockDeep<IProductStrategy>(), {definitionSchema})});
+
+		// WHEN
+		const giftCard = registry.definitionSchema.safeParse({
+			type: 'GIFT_CARD', name: 'Gift card', leadTime: 0, available: 10, value: 50,
+		});
+		const bundle = registry.definitionSchema.safeParse({
+			type: 'BUNDLE', name: 'Gift Box', leadTime: 0, components: [{productId: 1}],
+		});
+
+		// THEN
+		expect(giftCard.success).toBe(true);
+		expect(bundle.success).toBe(false);
+	});
+
+	it('should refuse an unregistered product type with a domain error', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 5, type: 'GIFT_CARD', name: 'Gift card',
+		});
+		const orderProcessingService = createOrderProcessingService(databaseMock, {productStrategyRegistry: createRegistry()});
+		const product = (await databaseMock.query.products.findFirst())!;
+
+		// WHEN
+		const processing = orderProcessingService.processProductOrder(product);
+
+		// THEN
+		await expect(processing).rejects.toBeInstanceOf(UnknownProductTypeError);
+	});
+
+	it('should report the catalog product types without a strategy', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 5, type: 'NORMAL', name: 'USB Cable',
+			},
+			{
+				id: 2, leadTime: 15, available: 5, type: 'GIFT_CARD', name: 'Gift card',
+			},
+		]);
+
+		// WHEN
+		const validation = createRegistry().assertCatalogIsCovered();
+
+		// THEN
+		await expect(validation).rejects.toThrow('No strategy is registered for product type GIFT_CARD');
+		await expect(createRegistry({GIFT_CARD: mockDeep<IProductStrategy>()}).assertCatalogIsCovered()).resolves.toBeUndefined();
+	});
+});
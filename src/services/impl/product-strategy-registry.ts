@@ -0,0 +1,79 @@
+import {type Cradle} from '@fastify/awilix';
+import {type z} from 'zod';
+import {type INotificationService} from '../notifications.port.js';
+import {type IClock} from '../clock.port.js';
+import {UnknownProductTypeError} from '../errors.js';
+import {
+	type IProductStrategy,
+	NormalProductStrategy,
+	SeasonalProductStrategy,
+	ExpirableProductStrategy,
+} from './product-strategy.js';
+import {EtaService} from './eta.service.js';
+import {buildProductDefinitionSchema, type ProductDefinition} from './product-definition.js';
+import {products, type Product} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+/**
+ * Strategies keyed by the product type they process.
+ */
+export type ProductStrategies = Record<Product['type'], IProductStrategy>;
+
+/**
+ * Builds the strategies of every product type around the given notification service and clock,
+ * so that they can also be run against another date without notifying anyone.
+ */
+export type ProductStrategiesFactory = (notificationService: INotificationService, clock: IClock) => ProductStrategies;
+
+export function builtInProductStrategies(notificationService: INotificationService, database: Database, clock: IClock): ProductStrategies {
+	const eta = new EtaService({clock});
+	return {
+		NORMAL: new NormalProductStrategy(notificationService, eta),
+		SEASONAL: new SeasonalProductStrategy(notificationService, database, clock, eta),
+		EXPIRABLE: new ExpirableProductStrategy(notificationService, database, clock, eta),
+	};
+}
+
+export class ProductStrategyRegistry {
+	private readonly database: Database;
+	private readonly strategies: Map<Product['type'], IProductStrategy>;
+	private productDefinitionSchema: z.ZodType<ProductDefinition, z.ZodTypeDef, unknown> | undefined;
+
+	constructor({db, productStrategies}: Pick<Cradle, 'db' | 'productStrategies'>) {
+		this.database = db;
+		this.strategies = new Map(Object.entries(productStrategies));
+	}
+
+	get types(): Array<Product['type']> {
+		return [...this.strategies.keys()];
+	}
+
+	/**
+	 * Schema of the products the catalog accepts, of the registered types that can be defined there.
+	 */
+	get definitionSchema(): z.ZodType<ProductDefinition, z.ZodTypeDef, unknown> {
+		this.productDefinitionSchema ??= buildProductDefinitionSchema([...this.strategies.values()].flatMap(({definitionSchema}) => definitionSchema ? [definitionSchema] : []));
+		return this.productDefinitionSchema;
+	}
+
+	getStrategy(productType: Product['type']): IProductStrategy {
+		const strategy = this.strategies.get(productType);
+		if (!strategy) {
+			throw new UnknownProductTypeError(productType);
+		}
+
+		return strategy;
+	}
+
+	/**
+	 * Fails when the catalog holds products of a type no strategy is registered for,
+	 * so that a missing registration is caught at startup rather than on the first order.
+	 */
+	async assertCatalogIsCovered(): Promise<void> {
+		const catalogTypes = await this.database.selectDistinct({type: products.type}).from(products);
+		const unknownTypes = catalogTypes.map(({type}) => type).filter(type => !this.strategies.has(type));
+		if (unknownTypes.length > 0) {
+			throw new UnknownProductTypeError(unknownTypes.join(', '));
+		}
+	}
+}
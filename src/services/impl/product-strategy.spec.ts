@@ -1,26 +1,35 @@
 import {
-	describe, it, expect, beforeEach,
+	describe, it, expect, beforeEach, afterEach,
 } from 'vitest';
 import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
 import {type INotificationService} from '../notifications.port.js';
 import {
 	NormalProductStrategy,
 	SeasonalProductStrategy,
 	ExpirableProductStrategy,
 } from './product-strategy.js';
-import {type Product} from '@/db/schema.js';
+import {FixedClock, SystemClock} from './clock.js';
+import {EtaService} from './eta.service.js';
+import {
+	products, seasonWindows, stockLots, type Product,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
 
 describe('Product Strategy Tests', () => {
 	let notificationServiceMock: DeepMockProxy<INotificationService>;
+	const etaIn = (timezone: string, clock: FixedClock) => new EtaService({clock}, {timezone, workingDays: ['MON', 'TUE', 'WED', 'THU', 'FRI'], holidays: []});
 
 	beforeEach(() => {
 		notificationServiceMock = mockDeep<INotificationService>();
 	});
 
 	describe('NormalProductStrategy', () => {
+		const eta = new EtaService({clock: new SystemClock()});
+
 		it('should decrease available stock when product is available', async () => {
 			// GIVEN
-			const strategy = new NormalProductStrategy(notificationServiceMock);
+			const strategy = new NormalProductStrategy(notificationServiceMock, eta);
 			const product: Product = {
 				id: 1,
 				leadTime: 15,
@@ -30,6 +39,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: null,
 				seasonEndDate: null,
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -39,11 +49,12 @@ describe('Product Strategy Tests', () => {
 			expect(result.shouldUpdateStock).toBe(true);
 			expect(result.updatedProduct?.available).toBe(4);
 			expect(result.notificationAction).toBeUndefined();
+			expect(result).toMatchObject({outcome: 'FULFILLED', reason: 'IN_STOCK'});
 		});
 
 		it('should notify delay when product is out of stock with lead time', async () => {
 			// GIVEN
-			const strategy = new NormalProductStrategy(notificationServiceMock);
+			const strategy = new NormalProductStrategy(notificationServiceMock, eta);
 			const product: Product = {
 				id: 1,
 				leadTime: 15,
@@ -53,6 +64,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: null,
 				seasonEndDate: null,
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -62,15 +74,95 @@ describe('Product Strategy Tests', () => {
 			expect(result.shouldUpdateStock).toBe(true);
 			expect(result.updatedProduct?.leadTime).toBe(15);
 			expect(result.notificationAction).toBeDefined();
+			expect(result).toMatchObject({outcome: 'DELAYED', reason: 'AWAITING_RESTOCK', leadTime: 15});
+
+			// Execute notification
+			result.notificationAction!();
+			expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(15, 'USB Cable');
+		});
+
+		it('should serve the available stock and delay the remainder when stock is short', async () => {
+			// GIVEN
+			const strategy = new NormalProductStrategy(notificationServiceMock, eta);
+			const product: Product = {
+				id: 1,
+				leadTime: 15,
+				available: 2,
+				type: 'NORMAL',
+				name: 'USB Cable',
+				expiryDate: null,
+				seasonStartDate: null,
+				seasonEndDate: null,
+				reorderPoint: null,
+			};
+
+			// WHEN
+			const result = await strategy.processOrder(product, 3);
+
+			// THEN
+			expect(result.shouldUpdateStock).toBe(true);
+			expect(result.updatedProduct?.available).toBe(0);
+			expect(result.fulfilledQuantity).toBe(2);
+			expect(result.unfulfilledQuantity).toBe(1);
 
 			// Execute notification
 			result.notificationAction!();
 			expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(15, 'USB Cable');
 		});
 
+		it('should not serve stock reserved by other orders', async () => {
+			// GIVEN
+			const strategy = new NormalProductStrategy(notificationServiceMock, eta);
+			const product: Product = {
+				id: 1,
+				leadTime: 15,
+				available: 3,
+				type: 'NORMAL',
+				name: 'USB Cable',
+				expiryDate: null,
+				seasonStartDate: null,
+				seasonEndDate: null,
+				reorderPoint: null,
+			};
+
+			// WHEN
+			const result = await strategy.processOrder(product, 2, 2);
+
+			// THEN
+			expect(result.updatedProduct?.available).toBe(2);
+			expect(result.fulfilledQuantity).toBe(1);
+			expect(result.outcome).toBe('DELAYED');
+		});
+
+		it('should refuse the remainder when stock is short with no lead time', async () => {
+			// GIVEN
+			const strategy = new NormalProductStrategy(notificationServiceMock, eta);
+			const product: Product = {
+				id: 1,
+				leadTime: 0,
+				available: 2,
+				type: 'NORMAL',
+				name: 'USB Cable',
+				expiryDate: null,
+				seasonStartDate: null,
+				seasonEndDate: null,
+				reorderPoint: null,
+			};
+
+			// WHEN
+			const result = await strategy.processOrder(product, 3);
+
+			// THEN
+			expect(result.shouldUpdateStock).toBe(true);
+			expect(result.updatedProduct?.available).toBe(0);
+			expect(result.fulfilledQuantity).toBe(2);
+			expect(result.unfulfilledQuantity).toBe(1);
+			expect(result.notificationAction).toBeUndefined();
+		});
+
 		it('should do nothing when product is out of stock with no lead time', async () => {
 			// GIVEN
-			const strategy = new NormalProductStrategy(notificationServiceMock);
+			const strategy = new NormalProductStrategy(notificationServiceMock, eta);
 			const product: Product = {
 				id: 1,
 				leadTime: 0,
@@ -80,6 +172,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: null,
 				seasonEndDate: null,
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -92,9 +185,18 @@ describe('Product Strategy Tests', () => {
 	});
 
 	describe('SeasonalProductStrategy', () => {
+		let databaseMock: Database;
+		let databaseName: string;
+
+		beforeEach(async () => {
+			({databaseMock, databaseName} = await createDatabaseMock());
+		});
+
+		afterEach(async () => cleanUp(databaseName));
+
 		it('should decrease stock when product is in season and available', async () => {
 			// GIVEN
-			const strategy = new SeasonalProductStrategy(notificationServiceMock);
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const product: Product = {
 				id: 1,
@@ -105,6 +207,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: new Date(currentDate.getTime() - (10 * 24 * 60 * 60 * 1000)), // 10 days ago
 				seasonEndDate: new Date(currentDate.getTime() + (50 * 24 * 60 * 60 * 1000)), // 50 days from now
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -118,7 +221,7 @@ describe('Product Strategy Tests', () => {
 
 		it('should notify out of stock when lead time exceeds season end', async () => {
 			// GIVEN
-			const strategy = new SeasonalProductStrategy(notificationServiceMock);
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const product: Product = {
 				id: 1,
@@ -129,6 +232,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: new Date(currentDate.getTime() - (10 * 24 * 60 * 60 * 1000)), // 10 days ago
 				seasonEndDate: new Date(currentDate.getTime() + (20 * 24 * 60 * 60 * 1000)), // 20 days from now (< lead time)
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -146,7 +250,7 @@ describe('Product Strategy Tests', () => {
 
 		it('should notify delay when out of stock but lead time is within season', async () => {
 			// GIVEN
-			const strategy = new SeasonalProductStrategy(notificationServiceMock);
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const product: Product = {
 				id: 1,
@@ -157,6 +261,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: new Date(currentDate.getTime() - (10 * 24 * 60 * 60 * 1000)), // 10 days ago
 				seasonEndDate: new Date(currentDate.getTime() + (50 * 24 * 60 * 60 * 1000)), // 50 days from now (> lead time)
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -172,9 +277,38 @@ describe('Product Strategy Tests', () => {
 			expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(15, 'Watermelon');
 		});
 
+		it('should serve the available stock and notify out of stock when the remainder cannot arrive in season', async () => {
+			// GIVEN
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
+			const currentDate = new Date();
+			const product: Product = {
+				id: 1,
+				leadTime: 30,
+				available: 2,
+				type: 'SEASONAL',
+				name: 'Watermelon',
+				expiryDate: null,
+				seasonStartDate: new Date(currentDate.getTime() - (10 * 24 * 60 * 60 * 1000)), // 10 days ago
+				seasonEndDate: new Date(currentDate.getTime() + (20 * 24 * 60 * 60 * 1000)), // 20 days from now (< lead time)
+				reorderPoint: null,
+			};
+
+			// WHEN
+			const result = await strategy.processOrder(product, 3);
+
+			// THEN
+			expect(result.updatedProduct?.available).toBe(0);
+			expect(result.fulfilledQuantity).toBe(2);
+			expect(result.unfulfilledQuantity).toBe(1);
+
+			// Execute notification
+			result.notificationAction!();
+			expect(notificationServiceMock.sendOutOfStockNotification).toHaveBeenCalledWith('Watermelon');
+		});
+
 		it('should notify out of stock when product is before season start', async () => {
 			// GIVEN
-			const strategy = new SeasonalProductStrategy(notificationServiceMock);
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const product: Product = {
 				id: 1,
@@ -185,6 +319,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: null,
 				seasonStartDate: new Date(currentDate.getTime() + (30 * 24 * 60 * 60 * 1000)), // 30 days from now
 				seasonEndDate: new Date(currentDate.getTime() + (90 * 24 * 60 * 60 * 1000)), // 90 days from now
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -193,17 +328,122 @@ describe('Product Strategy Tests', () => {
 			// THEN
 			expect(result.shouldUpdateStock).toBe(false);
 			expect(result.notificationAction).toBeDefined();
+			expect(result).toMatchObject({outcome: 'OUT_OF_SEASON', reason: 'SEASON_NOT_STARTED'});
 
 			// Execute notification
 			result.notificationAction!();
 			expect(notificationServiceMock.sendOutOfStockNotification).toHaveBeenCalledWith('Grapes');
 		});
+
+		it('should evaluate the season at the date given by the clock', async () => {
+			// GIVEN
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, new FixedClock(new Date('2030-07-01')));
+			const product: Product = {
+				id: 1,
+				leadTime: 15,
+				available: 5,
+				type: 'SEASONAL',
+				name: 'Watermelon',
+				expiryDate: null,
+				seasonStartDate: new Date('2030-06-01'),
+				seasonEndDate: new Date('2030-09-01'),
+				reorderPoint: null,
+			};
+
+			// WHEN
+			const result = await strategy.processOrder(product);
+
+			// THEN
+			expect(result).toMatchObject({outcome: 'FULFILLED', updatedProduct: {available: 4}});
+		});
+
+		it('should follow recurring seasons from one year to the next, including over the new year', async () => {
+			// GIVEN
+			await databaseMock.insert(products).values({
+				id: 1, leadTime: 15, available: 5, type: 'SEASONAL', name: 'Chestnuts',
+			});
+			await databaseMock.insert(seasonWindows).values([
+				{
+					productId: 1, startsOn: '2024-11-15', endsOn: '2025-02-15', recurring: true,
+				},
+				{
+					productId: 1, startsOn: '2024-04-01', endsOn: '2024-05-31', recurring: true,
+				},
+			]);
+			const product = (await databaseMock.query.products.findFirst())!;
+			const strategyAt = (date: string) => {
+				const clock = new FixedClock(new Date(date));
+				return new SeasonalProductStrategy(notificationServiceMock, databaseMock, clock, etaIn('UTC', clock));
+			};
+
+			// WHEN
+			const winter = await strategyAt('2031-01-10T12:00:00Z').processOrder(product);
+			const betweenSeasons = await strategyAt('2031-03-10T12:00:00Z').processOrder(product);
+			const restockedForSpring = await strategyAt('2031-03-10T12:00:00Z').processOrder({...product, available: 0});
+			const restockedAfterSpring = await strategyAt('2031-05-20T12:00:00Z').processOrder({...product, available: 0});
+
+			// THEN
+			expect(winter).toMatchObject({outcome: 'FULFILLED'});
+			expect(betweenSeasons).toMatchObject({outcome: 'OUT_OF_SEASON', reason: 'SEASON_NOT_STARTED'});
+			expect(restockedForSpring).toMatchObject({outcome: 'DELAYED', leadTime: 15});
+			expect(restockedAfterSpring).toMatchObject({outcome: 'OUT_OF_STOCK', reason: 'RESTOCK_AFTER_SEASON_END'});
+		});
+
+		it('should open and close the season at midnight in the business time zone', async () => {
+			// GIVEN
+			await databaseMock.insert(products).values({
+				id: 1, leadTime: 15, available: 5, type: 'SEASONAL', name: 'Strawberries',
+			});
+			await databaseMock.insert(seasonWindows).values({productId: 1, startsOn: '2030-06-01', endsOn: '2030-06-30'});
+			const product = (await databaseMock.query.products.findFirst())!;
+			// One in the morning of the 1st of June in Auckland, still the 31st of May in UTC
+			const clock = new FixedClock(new Date('2030-05-31T13:00:00Z'));
+
+			// WHEN
+			const inAuckland = await new SeasonalProductStrategy(notificationServiceMock, databaseMock, clock, etaIn('Pacific/Auckland', clock)).processOrder(product);
+			const inUtc = await new SeasonalProductStrategy(notificationServiceMock, databaseMock, clock, etaIn('UTC', clock)).processOrder(product);
+
+			// THEN
+			expect(inAuckland).toMatchObject({outcome: 'FULFILLED'});
+			expect(inUtc).toMatchObject({outcome: 'OUT_OF_SEASON', reason: 'SEASON_NOT_STARTED'});
+		});
+
+		it('should count the lead time in working days against the end of the season', async () => {
+			// GIVEN
+			await databaseMock.insert(products).values({
+				id: 1, leadTime: 8, available: 0, type: 'SEASONAL', name: 'Cherries',
+			});
+			await databaseMock.insert(seasonWindows).values({productId: 1, startsOn: '2030-06-01', endsOn: '2030-06-14'});
+			const product = (await databaseMock.query.products.findFirst())!;
+			// Monday the 3rd of June, the 10th being a holiday
+			const clock = new FixedClock(new Date('2030-06-03T09:00:00Z'));
+			const eta = new EtaService({clock}, {timezone: 'UTC', workingDays: ['MON', 'TUE', 'WED', 'THU', 'FRI'], holidays: ['2030-06-10']});
+			const strategy = new SeasonalProductStrategy(notificationServiceMock, databaseMock, clock, eta);
+
+			// WHEN
+			const withinSeason = await strategy.processOrder(product);
+			// Ten calendar days would still fall in season, ten working days do not
+			const afterSeason = await strategy.processOrder({...product, leadTime: 10});
+
+			// THEN
+			expect(withinSeason).toMatchObject({outcome: 'DELAYED', leadTime: 8, promisedDate: '2030-06-14'});
+			expect(afterSeason).toMatchObject({outcome: 'OUT_OF_STOCK', reason: 'RESTOCK_AFTER_SEASON_END'});
+		});
 	});
 
 	describe('ExpirableProductStrategy', () => {
+		let databaseMock: Database;
+		let databaseName: string;
+
+		beforeEach(async () => {
+			({databaseMock, databaseName} = await createDatabaseMock());
+		});
+
+		afterEach(async () => cleanUp(databaseName));
+
 		it('should decrease stock when product is available and not expired', async () => {
 			// GIVEN
-			const strategy = new ExpirableProductStrategy(notificationServiceMock);
+			const strategy = new ExpirableProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const product: Product = {
 				id: 1,
@@ -214,6 +454,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate: new Date(currentDate.getTime() + (10 * 24 * 60 * 60 * 1000)), // 10 days from now
 				seasonStartDate: null,
 				seasonEndDate: null,
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -225,9 +466,39 @@ describe('Product Strategy Tests', () => {
 			expect(result.notificationAction).toBeUndefined();
 		});
 
+		it('should serve the available stock and delay the remainder when stock is short', async () => {
+			// GIVEN
+			const strategy = new ExpirableProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
+			const currentDate = new Date();
+			const product: Product = {
+				id: 1,
+				leadTime: 15,
+				available: 2,
+				type: 'EXPIRABLE',
+				name: 'Milk',
+				expiryDate: new Date(currentDate.getTime() + (10 * 24 * 60 * 60 * 1000)), // 10 days from now
+				seasonStartDate: null,
+				seasonEndDate: null,
+				reorderPoint: null,
+			};
+
+			// WHEN
+			const result = await strategy.processOrder(product, 3);
+
+			// THEN
+			expect(result.updatedProduct?.available).toBe(0);
+			expect(result.fulfilledQuantity).toBe(2);
+			expect(result.unfulfilledQuantity).toBe(1);
+
+			// Execute notification
+			result.notificationAction!();
+			expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(15, 'Milk');
+			expect(notificationServiceMock.sendExpirationNotification).not.toHaveBeenCalled();
+		});
+
 		it('should notify expiration when product is expired', async () => {
 			// GIVEN
-			const strategy = new ExpirableProductStrategy(notificationServiceMock);
+			const strategy = new ExpirableProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const expiryDate = new Date(currentDate.getTime() - (5 * 24 * 60 * 60 * 1000)); // 5 days ago
 			const product: Product = {
@@ -239,6 +510,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate,
 				seasonStartDate: null,
 				seasonEndDate: null,
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -248,15 +520,16 @@ describe('Product Strategy Tests', () => {
 			expect(result.shouldUpdateStock).toBe(true);
 			expect(result.updatedProduct?.available).toBe(0);
 			expect(result.notificationAction).toBeDefined();
+			expect(result).toMatchObject({outcome: 'EXPIRED', reason: 'PRODUCT_EXPIRED'});
 
 			// Execute notification
 			result.notificationAction!();
 			expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalledWith('Milk', expiryDate);
 		});
 
-		it('should notify expiration when product is out of stock', async () => {
+		it('should notify an out of stock product that did not expire', async () => {
 			// GIVEN
-			const strategy = new ExpirableProductStrategy(notificationServiceMock);
+			const strategy = new ExpirableProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
 			const currentDate = new Date();
 			const expiryDate = new Date(currentDate.getTime() + (10 * 24 * 60 * 60 * 1000)); // 10 days from now
 			const product: Product = {
@@ -268,6 +541,7 @@ describe('Product Strategy Tests', () => {
 				expiryDate,
 				seasonStartDate: null,
 				seasonEndDate: null,
+				reorderPoint: null,
 			};
 
 			// WHEN
@@ -280,7 +554,79 @@ describe('Product Strategy Tests', () => {
 
 			// Execute notification
 			result.notificationAction!();
-			expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalledWith('Milk', expiryDate);
+			expect(result.outcome).toBe('OUT_OF_STOCK');
+			expect(notificationServiceMock.sendOutOfStockNotification).toHaveBeenCalledWith('Milk');
+			expect(notificationServiceMock.sendExpirationNotification).not.toHaveBeenCalled();
+		});
+
+		it('should consume the lots that expire first', async () => {
+			// GIVEN
+			const strategy = new ExpirableProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
+			const currentDate = new Date();
+			const [product] = await databaseMock.insert(products).values({
+				id: 1,
+				leadTime: 15,
+				available: 10,
+				type: 'EXPIRABLE',
+				name: 'Milk',
+				expiryDate: new Date(currentDate.getTime() + (20 * 24 * 60 * 60 * 1000)),
+			}).returning();
+			await databaseMock.insert(stockLots).values([
+				{
+					productId: 1, lotNumber: 'L-LATE', quantity: 4, expiryDate: new Date(currentDate.getTime() + (20 * 24 * 60 * 60 * 1000)), receivedAt: currentDate,
+				},
+				{
+					productId: 1, lotNumber: 'L-SOON', quantity: 6, expiryDate: new Date(currentDate.getTime() + (5 * 24 * 60 * 60 * 1000)), receivedAt: currentDate,
+				},
+			]);
+
+			// WHEN
+			const result = await strategy.processOrder(product!, 7);
+
+			// THEN
+			expect(result).toMatchObject({fulfilledQuantity: 7, outcome: 'FULFILLED', updatedProduct: {available: 3}});
+			expect(result.lotChanges?.map(({lot, quantity, kind}) => [lot?.lotNumber, quantity, kind])).toEqual([
+				['L-SOON', 6, 'ORDER_CONSUMPTION'],
+				['L-LATE', 1, 'ORDER_CONSUMPTION'],
+			]);
+		});
+
+		it('should only write off the expired lots and name them in the expiration notification', async () => {
+			// GIVEN
+			const strategy = new ExpirableProductStrategy(notificationServiceMock, databaseMock, new SystemClock());
+			const currentDate = new Date();
+			const expiredOn = new Date(currentDate.getTime() - (2 * 24 * 60 * 60 * 1000)); // 2 days ago
+			const [product] = await databaseMock.insert(products).values({
+				id: 1,
+				leadTime: 15,
+				available: 8,
+				type: 'EXPIRABLE',
+				name: 'Milk',
+				expiryDate: expiredOn,
+			}).returning();
+			await databaseMock.insert(stockLots).values([
+				{
+					productId: 1, lotNumber: 'L-OLD', quantity: 3, expiryDate: expiredOn, receivedAt: currentDate,
+				},
+				{
+					productId: 1, lotNumber: 'L-FRESH', quantity: 5, expiryDate: new Date(currentDate.getTime() + (10 * 24 * 60 * 60 * 1000)), receivedAt: currentDate,
+				},
+			]);
+
+			// WHEN
+			const result = await strategy.processOrder(product!, 2);
+
+			// THEN
+			expect(result).toMatchObject({fulfilledQuantity: 2, outcome: 'FULFILLED', updatedProduct: {available: 3}});
+			expect(result.lotChanges?.map(({lot, quantity, kind}) => [lot?.lotNumber, quantity, kind])).toEqual([
+				['L-OLD', 3, 'EXPIRY_WRITE_OFF'],
+				['L-FRESH', 2, 'ORDER_CONSUMPTION'],
+			]);
+
+			// Execute notification
+			result.notificationAction!();
+			expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalledOnce();
+			expect(notificationServiceMock.sendExpirationNotification).toHaveBeenCalledWith('Milk (lot L-OLD)', expiredOn);
 		});
 	});
 });
@@ -1,83 +1,215 @@
 import {type INotificationService} from '../notifications.port.js';
+import {type IClock} from '../clock.port.js';
+import {
+	describeLot, getStockLots, planLotConsumption, type StockLotChange,
+} from './stock-lots.js';
+import {getSeasonPeriods, locateSeason} from './season-windows.js';
+import {EtaService} from './eta.service.js';
+import {
+	expirableDefinitionSchema, normalDefinitionSchema, seasonalDefinitionSchema, type ProductTypeDefinitionSchema,
+} from './product-definition.js';
 import {type Product} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+export const LINE_OUTCOMES = ['FULFILLED', 'DELAYED', 'OUT_OF_STOCK', 'OUT_OF_SEASON', 'EXPIRED'] as const;
+export type LineOutcome = (typeof LINE_OUTCOMES)[number];
+
+export const LINE_REASON_CODES = [
+	'IN_STOCK',
+	'AWAITING_RESTOCK',
+	'NO_RESTOCK_PLANNED',
+	'NO_STOCK',
+	'RESTOCK_AFTER_SEASON_END',
+	'SEASON_NOT_STARTED',
+	'SEASON_ENDED',
+	'PRODUCT_EXPIRED',
+] as const;
+export type LineReasonCode = (typeof LINE_REASON_CODES)[number];
 
 export type IProductStrategy = {
-	processOrder(product: Product): Promise<ProductProcessingResult>;
+	// Fields the products of the type are defined with in the catalog, none when they cannot be defined there
+	readonly definitionSchema?: ProductTypeDefinitionSchema;
+	// Stock reserved by other orders is not available to this order
+	processOrder(product: Product, quantity?: number, reservedForOthers?: number, context?: OrderLineContext): Promise<ProductProcessingResult>;
+};
+
+/**
+ * What strategies drawing on the stock of other products, such as bundles, need to know of the order.
+ */
+export type OrderLineContext = {
+	// The order whose own reservations are not held against it, none when lines are processed on their own
+	orderId?: number | undefined;
+	// Stock of each product the earlier lines of the order take
+	takenByOrder?: ReadonlyMap<number, number>;
 };
 
 export type ProductProcessingResult = {
 	shouldUpdateStock: boolean;
 	updatedProduct?: Partial<Product>;
 	notificationAction?: () => void;
+	fulfilledQuantity: number;
+	unfulfilledQuantity: number;
+	// What happened to the unfulfilled quantity, FULFILLED when there is none
+	outcome: LineOutcome;
+	reason: LineReasonCode;
+	// Lead time in days announced to the customer when the outcome is DELAYED
+	leadTime?: number;
+	// Business date (YYYY-MM-DD) the line is promised for, when it is served or awaits a restock
+	promisedDate?: string;
+	// Stock changes of the components a bundle is made of, applied in place of its own
+	components?: ComponentProcessingResult[];
+	// Component that kept a bundle from being fulfilled
+	blockedBy?: BlockingComponent;
+	// Lots the stock change is taken from, for products tracked by lot
+	lotChanges?: StockLotChange[];
+};
+
+export type ComponentProcessingResult = {
+	product: Product;
+	result: ProductProcessingResult;
+};
+
+export type BlockingComponent = {
+	productId: number;
+	productName: string;
+	outcome: LineOutcome;
+	reason: LineReasonCode;
 };
 
 export class NormalProductStrategy implements IProductStrategy {
-	constructor(private readonly notificationService: INotificationService) {}
+	readonly definitionSchema = normalDefinitionSchema;
+
+	constructor(
+		private readonly notificationService: INotificationService,
+		private readonly eta: EtaService,
+	) {}
 
-	async processOrder(product: Product): Promise<ProductProcessingResult> {
-		if (product.available > 0) {
+	async processOrder(product: Product, quantity = 1, reservedForOthers = 0): Promise<ProductProcessingResult> {
+		const free = Math.max(product.available - reservedForOthers, 0);
+
+		if (free >= quantity) {
 			return {
 				shouldUpdateStock: true,
 				updatedProduct: {
 					...product,
-					available: product.available - 1,
+					available: product.available - quantity,
 				},
+				fulfilledQuantity: quantity,
+				unfulfilledQuantity: 0,
+				outcome: 'FULFILLED',
+				reason: 'IN_STOCK',
+				promisedDate: this.eta.promisedDate(),
 			};
 		}
 
+		// Serve what is left, the remainder waits for the restock
+		const fulfilledQuantity = free;
+		const unfulfilledQuantity = quantity - fulfilledQuantity;
+
 		// Product is out of stock, check lead time
 		if (product.leadTime > 0) {
 			return {
 				shouldUpdateStock: true,
 				updatedProduct: {
 					...product,
+					available: product.available - fulfilledQuantity,
 					leadTime: product.leadTime,
 				},
 				notificationAction: () => {
 					this.notificationService.sendDelayNotification(product.leadTime, product.name);
 				},
+				fulfilledQuantity,
+				unfulfilledQuantity,
+				outcome: 'DELAYED',
+				reason: 'AWAITING_RESTOCK',
+				leadTime: product.leadTime,
+				promisedDate: this.eta.promisedDate(product.leadTime),
+			};
+		}
+
+		// No restock expected if no lead time, the remainder is refused
+		if (fulfilledQuantity > 0) {
+			return {
+				shouldUpdateStock: true,
+				updatedProduct: {
+					...product,
+					available: product.available - fulfilledQuantity,
+				},
+				fulfilledQuantity,
+				unfulfilledQuantity,
+				outcome: 'OUT_OF_STOCK',
+				reason: 'NO_RESTOCK_PLANNED',
 			};
 		}
 
 		// No action needed if no lead time
-		return {shouldUpdateStock: false};
+		return {
+			shouldUpdateStock: false,
+			fulfilledQuantity,
+			unfulfilledQuantity,
+			outcome: 'OUT_OF_STOCK',
+			reason: 'NO_RESTOCK_PLANNED',
+		};
 	}
 }
 
+/**
+ * The product is sold during its seasons only, evaluated in the time zone of the business calendar.
+ */
 export class SeasonalProductStrategy implements IProductStrategy {
-	constructor(private readonly notificationService: INotificationService) {}
+	readonly definitionSchema = seasonalDefinitionSchema;
 
-	async processOrder(product: Product): Promise<ProductProcessingResult> {
-		const currentDate = new Date();
-		const millisecondsPerDay = 1000 * 60 * 60 * 24;
+	constructor(
+		private readonly notificationService: INotificationService,
+		private readonly database: Database,
+		private readonly clock: IClock,
+		private readonly eta: EtaService = new EtaService({clock}),
+	) {}
+
+	async processOrder(product: Product, quantity = 1, reservedForOthers = 0): Promise<ProductProcessingResult> {
+		const currentDate = this.clock.now();
+		const {current, next, last} = locateSeason(getSeasonPeriods(this.database, product, currentDate, this.eta.timeZone), currentDate);
+		const inSeason = current !== undefined;
+		const free = Math.max(product.available - reservedForOthers, 0);
 
 		// Check if product is in season and available
-		if (currentDate > product.seasonStartDate!
-			&& currentDate < product.seasonEndDate!
-			&& product.available > 0) {
+		if (inSeason && free >= quantity) {
 			return {
 				shouldUpdateStock: true,
 				updatedProduct: {
 					...product,
-					available: product.available - 1,
+					available: product.available - quantity,
 				},
+				fulfilledQuantity: quantity,
+				unfulfilledQuantity: 0,
+				outcome: 'FULFILLED',
+				reason: 'IN_STOCK',
+				promisedDate: this.eta.promisedDate(),
 			};
 		}
 
-		// Product is out of stock or out of season
-		if (product.available === 0) {
-			// Check if lead time would exceed season end
-			const restockDate = new Date(currentDate.getTime() + (product.leadTime * millisecondsPerDay));
-			if (restockDate > product.seasonEndDate!) {
+		// Product is in season but short: serve what is left, the remainder follows the out of stock rules
+		if (inSeason || free === 0) {
+			const fulfilledQuantity = inSeason ? free : 0;
+			const unfulfilledQuantity = quantity - fulfilledQuantity;
+
+			// Check if the restock, counted in working days, would come after the season in progress, or else the next one
+			const season = current ?? next ?? last;
+			const promisedDate = this.eta.promisedDate(product.leadTime);
+			if (!season || this.eta.startOf(promisedDate) >= season.end) {
 				return {
 					shouldUpdateStock: true,
 					updatedProduct: {
 						...product,
-						available: 0,
+						available: product.available - fulfilledQuantity,
 					},
 					notificationAction: () => {
 						this.notificationService.sendOutOfStockNotification(product.name);
 					},
+					fulfilledQuantity,
+					unfulfilledQuantity,
+					outcome: 'OUT_OF_STOCK',
+					reason: 'RESTOCK_AFTER_SEASON_END',
 				};
 			}
 
@@ -86,55 +218,132 @@ export class SeasonalProductStrategy implements IProductStrategy {
 				shouldUpdateStock: true,
 				updatedProduct: {
 					...product,
+					available: product.available - fulfilledQuantity,
 					leadTime: product.leadTime,
 				},
 				notificationAction: () => {
 					this.notificationService.sendDelayNotification(product.leadTime, product.name);
 				},
+				fulfilledQuantity,
+				unfulfilledQuantity,
+				outcome: 'DELAYED',
+				reason: 'AWAITING_RESTOCK',
+				leadTime: product.leadTime,
+				promisedDate,
 			};
 		}
 
 		// Product is out of season
-		if (product.seasonStartDate! > currentDate) {
+		if (next) {
 			return {
 				shouldUpdateStock: false,
 				notificationAction: () => {
 					this.notificationService.sendOutOfStockNotification(product.name);
 				},
+				fulfilledQuantity: 0,
+				unfulfilledQuantity: quantity,
+				outcome: 'OUT_OF_SEASON',
+				reason: 'SEASON_NOT_STARTED',
 			};
 		}
 
-		return {shouldUpdateStock: false};
+		return {
+			shouldUpdateStock: false,
+			fulfilledQuantity: 0,
+			unfulfilledQuantity: quantity,
+			outcome: 'OUT_OF_SEASON',
+			reason: 'SEASON_ENDED',
+		};
 	}
 }
 
+/**
+ * Stock is consumed first expired first out across the lots of the product. Lots past their
+ * expiry date are written off, each with its own expiration notification.
+ */
 export class ExpirableProductStrategy implements IProductStrategy {
-	constructor(private readonly notificationService: INotificationService) {}
+	readonly definitionSchema = expirableDefinitionSchema;
+
+	constructor(
+		private readonly notificationService: INotificationService,
+		private readonly database: Database,
+		private readonly clock: IClock,
+		private readonly eta: EtaService = new EtaService({clock}),
+	) {}
+
+	async processOrder(product: Product, quantity = 1, reservedForOthers = 0): Promise<ProductProcessingResult> {
+		const currentDate = this.clock.now();
+		const lots = getStockLots(this.database, product);
+		const expiredLots = lots.filter(({expiryDate}) => expiryDate <= currentDate);
+		const usableLots = lots.filter(({expiryDate}) => expiryDate > currentDate);
+
+		const writtenOff = expiredLots.reduce((total, lot) => total + lot.quantity, 0);
+		const usable = usableLots.reduce((total, lot) => total + lot.quantity, 0);
+		const free = Math.max(usable - reservedForOthers, 0);
+		const fulfilledQuantity = Math.min(free, quantity);
+		const unfulfilledQuantity = quantity - fulfilledQuantity;
 
-	async processOrder(product: Product): Promise<ProductProcessingResult> {
-		const currentDate = new Date();
+		const lotChanges: StockLotChange[] = [
+			...expiredLots.map(lot => ({...lot, kind: 'EXPIRY_WRITE_OFF' as const})),
+			...planLotConsumption(usableLots, fulfilledQuantity),
+		];
+		const updatedProduct = {
+			...product,
+			available: product.available - writtenOff - fulfilledQuantity,
+		};
+		const notifyExpiredLots = () => {
+			for (const lot of expiredLots) {
+				this.notificationService.sendExpirationNotification(describeLot(product, lot), lot.expiryDate);
+			}
+		};
 
-		// Check if product is available and not expired
-		if (product.available > 0 && product.expiryDate! > currentDate) {
+		const stockChange = {
+			shouldUpdateStock: true,
+			updatedProduct,
+			lotChanges,
+			...(expiredLots.length > 0 ? {notificationAction: notifyExpiredLots} : {}),
+			fulfilledQuantity,
+			unfulfilledQuantity,
+		};
+
+		if (unfulfilledQuantity === 0) {
 			return {
-				shouldUpdateStock: true,
-				updatedProduct: {
-					...product,
-					available: product.available - 1,
+				...stockChange, outcome: 'FULFILLED', reason: 'IN_STOCK', promisedDate: this.eta.promisedDate(),
+			};
+		}
+
+		// Nothing left but expired stock, which is written off entirely
+		if (fulfilledQuantity === 0 && writtenOff > 0) {
+			return {...stockChange, outcome: 'EXPIRED', reason: 'PRODUCT_EXPIRED'};
+		}
+
+		// Product is unavailable, none of its stock expired
+		if (fulfilledQuantity === 0) {
+			return {
+				...stockChange,
+				notificationAction: () => {
+					this.notificationService.sendOutOfStockNotification(product.name);
 				},
+				outcome: 'OUT_OF_STOCK',
+				reason: 'NO_STOCK',
 			};
 		}
 
-		// Product is expired or unavailable
-		return {
-			shouldUpdateStock: true,
-			updatedProduct: {
-				...product,
-				available: 0,
-			},
-			notificationAction: () => {
-				this.notificationService.sendExpirationNotification(product.name, product.expiryDate!);
-			},
-		};
+		// Remainder of a partially served line is delayed until the next delivery
+		if (product.leadTime > 0) {
+			return {
+				...stockChange,
+				notificationAction: () => {
+					notifyExpiredLots();
+					this.notificationService.sendDelayNotification(product.leadTime, product.name);
+				},
+				outcome: 'DELAYED',
+				reason: 'AWAITING_RESTOCK',
+				leadTime: product.leadTime,
+				promisedDate: this.eta.promisedDate(product.leadTime),
+			};
+		}
+
+		return {...stockChange, outcome: 'OUT_OF_STOCK', reason: 'NO_RESTOCK_PLANNED'};
 	}
 }
@@ -5,6 +5,7 @@ import {
 import {mockDeep, type DeepMockProxy} from 'vitest-mock-extended';
 import {type INotificationService} from '../notifications.port.js';
 import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingDependencies} from '../../utils/test-utils/order-processing-tools.js';
 import {ProductService} from './product.service.js';
 import {products, type Product} from '@/db/schema.js';
 import {type Database} from '@/db/type.js';
@@ -18,10 +19,7 @@ describe('ProductService Tests', () => {
 	beforeEach(async () => {
 		({databaseMock, databaseName} = await createDatabaseMock());
 		notificationServiceMock = mockDeep<INotificationService>();
-		productService = new ProductService({
-			ns: notificationServiceMock,
-			db: databaseMock,
-		});
+		productService = new ProductService(createOrderProcessingDependencies(databaseMock, {ns: notificationServiceMock}));
 	});
 
 	afterEach(async () => cleanUp(databaseName));
@@ -37,6 +35,7 @@ describe('ProductService Tests', () => {
 			expiryDate: null,
 			seasonStartDate: null,
 			seasonEndDate: null,
+			reorderPoint: null,
 		};
 		await databaseMock.insert(products).values(product);
 
@@ -46,7 +45,11 @@ describe('ProductService Tests', () => {
 		// THEN
 		expect(product.available).toBe(0);
 		expect(product.leadTime).toBe(15);
-		expect(notificationServiceMock.sendDelayNotification).toHaveBeenCalledWith(product.leadTime, product.name);
+		const notifications = await databaseMock.query.notificationOutbox.findMany();
+		expect(notifications).toMatchObject([{
+			kind: 'DELAY', productName: 'RJ45 Cable', leadTime: 15, status: 'PENDING',
+		}]);
+		expect(notificationServiceMock.sendDelayNotification).not.toHaveBeenCalled();
 		const result = await databaseMock.query.products.findFirst({
 			where: (product, {eq}) => eq(product.id, product.id),
 		});
@@ -1,6 +1,6 @@
 import {type Cradle} from '@fastify/awilix';
 import {eq} from 'drizzle-orm';
-import {type INotificationService} from '../notifications.port.js';
+import {type OutboxNotificationService} from './notification-outbox.service.js';
 import {OrderProcessingService} from './order-processing.service.js';
 import {products, type Product} from '@/db/schema.js';
 import {type Database} from '@/db/type.js';
@@ -10,20 +10,27 @@ import {type Database} from '@/db/type.js';
  * @deprecated Use OrderProcessingService directly instead
  */
 export class ProductService {
-	private readonly notificationService: INotificationService;
+	private readonly notificationOutbox: OutboxNotificationService;
 	private readonly database: Database;
 	private readonly orderProcessingService: OrderProcessingService;
 
-	public constructor({ns, db}: Pick<Cradle, 'ns' | 'db'>) {
-		this.notificationService = ns;
+	public constructor({
+		db, productStrategyRegistry, eventBus, notificationOutbox, logger, clock,
+	}: Pick<Cradle, 'db' | 'productStrategyRegistry' | 'eventBus' | 'notificationOutbox' | 'logger' | 'clock'>) {
+		this.notificationOutbox = notificationOutbox;
 		this.database = db;
-		this.orderProcessingService = new OrderProcessingService({ns, db});
+		this.orderProcessingService = new OrderProcessingService({
+			db, productStrategyRegistry, eventBus, notificationOutbox, logger, clock,
+		});
 	}
 
 	public async notifyDelay(leadTime: number, product: Product): Promise<void> {
 		product.leadTime = leadTime;
-		await this.database.update(products).set(product).where(eq(products.id, product.id));
-		this.notificationService.sendDelayNotification(leadTime, product.name);
+		// The notification is queued in the outbox, so it commits with the new lead time
+		this.database.transaction(tx => {
+			tx.update(products).set(product).where(eq(products.id, product.id)).run();
+			this.notificationOutbox.sendDelayNotification(leadTime, product.name);
+		});
 	}
 
 	/**
@@ -0,0 +1,113 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {IllegalPurchaseOrderStatusTransitionError} from '../errors.js';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {BackorderService} from './backorder.service.js';
+import {FixedClock} from './clock.js';
+import {GoodsReceivingService} from './goods-receiving.service.js';
+import {type OrderProcessingService} from './order-processing.service.js';
+import {PurchaseOrderService} from './purchase-order.service.js';
+import {products, productSuppliers, suppliers} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('PurchaseOrderService Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+	let orderProcessingService: OrderProcessingService;
+	let purchaseOrderService: PurchaseOrderService;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		orderProcessingService = createOrderProcessingService(databaseMock);
+		// Monday the 2nd of December
+		const clock = new FixedClock(new Date('2030-12-02T10:00:00Z'));
+		purchaseOrderService = new PurchaseOrderService({
+			db: databaseMock,
+			clock,
+			goodsReceivingService: new GoodsReceivingService({
+				db: databaseMock,
+				backorderService: new BackorderService({db: databaseMock, fns: mockDeep<IFulfilmentNotificationService>(), clock}),
+				clock,
+			}),
+		});
+		await databaseMock.insert(suppliers).values([{id: 1, name: 'Cables & Co'}, {id: 2, name: 'Quick Wires'}]);
+		await databaseMock.insert(products).values([
+			{
+				id: 1, leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Cable', reorderPoint: 8,
+			},
+			{
+				id: 2, leadTime: 15, available: 10, type: 'NORMAL', name: 'USB Dongle', reorderPoint: 8,
+			},
+		]);
+		await databaseMock.insert(productSuppliers).values([
+			{
+				productId: 1, supplierId: 1, leadTime: 10, minimumOrderQuantity: 1,
+			},
+			{
+				productId: 1, supplierId: 2, leadTime: 3, minimumOrderQuantity: 5,
+			},
+			{
+				productId: 2, supplierId: 2, leadTime: 5, minimumOrderQuantity: 1,
+			},
+		]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	async function order(quantities: Record<number, number>) {
+		const orderedProducts = await databaseMock.query.products.findMany();
+		return orderProcessingService.processOrder(orderedProducts
+			.filter(({id}) => quantities[id])
+			.map(product => ({product, quantity: quantities[product.id]!})));
+	}
+
+	it('should draft a purchase order from the quickest supplier when stock falls below the reorder point', async () => {
+		// WHEN
+		await order({1: 3, 2: 4});
+		// Already on order, nothing more is drafted until the stock falls further
+		await order({1: 1});
+
+		// THEN
+		const drafts = await purchaseOrderService.listPurchaseOrders('DRAFT');
+		expect(drafts).toMatchObject([{
+			supplierId: 2,
+			status: 'DRAFT',
+			lines: [{productId: 1, quantity: 5}, {productId: 2, quantity: 2}],
+		}]);
+	});
+
+	it('should approve, send and receive a purchase order into stock', async () => {
+		// GIVEN
+		await order({2: 4});
+		const [draft] = await purchaseOrderService.listPurchaseOrders('DRAFT');
+
+		// WHEN
+		await purchaseOrderService.approvePurchaseOrder(draft!.id);
+		const sent = await purchaseOrderService.sendPurchaseOrder(draft!.id);
+		const received = await purchaseOrderService.receivePurchaseOrder(draft!.id);
+
+		// THEN
+		expect(sent).toMatchObject({status: 'SENT', expectedOn: '2030-12-09'});
+		expect(received).toMatchObject({status: 'RECEIVED', receiptId: expect.any(Number) as number});
+		const dongle = await databaseMock.query.products.findFirst({where: (products, {eq}) => eq(products.id, 2)});
+		expect(dongle!.available).toBe(8);
+		await expect(purchaseOrderService.receivePurchaseOrder(draft!.id)).rejects.toThrow(IllegalPurchaseOrderStatusTransitionError);
+	});
+
+	it('should only move a purchase order forward one step at a time', async () => {
+		// GIVEN
+		await order({2: 4});
+		const [draft] = await purchaseOrderService.listPurchaseOrders('DRAFT');
+
+		// WHEN
+		const sending = purchaseOrderService.sendPurchaseOrder(draft!.id);
+
+		// THEN
+		await expect(sending).rejects.toThrow(IllegalPurchaseOrderStatusTransitionError);
+		expect(await purchaseOrderService.getPurchaseOrder(draft!.id)).toMatchObject({status: 'DRAFT', sentAt: null});
+	});
+});
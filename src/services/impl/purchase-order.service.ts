@@ -0,0 +1,252 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	and, asc, eq, inArray, isNotNull, sql, sum,
+} from 'drizzle-orm';
+import {type IClock} from '../clock.port.js';
+import {
+	IllegalPurchaseOrderStatusTransitionError, InvalidGoodsReceiptError, PurchaseOrderNotFoundError,
+} from '../errors.js';
+import {EtaService} from './eta.service.js';
+import {type GoodsReceivingService} from './goods-receiving.service.js';
+import {
+	productSuppliers,
+	products,
+	purchaseOrderLines,
+	purchaseOrders,
+	type PurchaseOrder,
+	type PurchaseOrderStatus,
+} from '@/db/schema.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+
+export const PURCHASE_ORDER_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, readonly PurchaseOrderStatus[]> = {
+	DRAFT: ['APPROVED'],
+	APPROVED: ['SENT'],
+	SENT: ['RECEIVED'],
+	RECEIVED: [],
+};
+
+// Purchase orders whose goods are still to come
+const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['DRAFT', 'APPROVED', 'SENT'];
+
+export type PurchaseOrderDraft = {
+	purchaseOrderId: number;
+	supplierId: number;
+	productId: number;
+	quantity: number;
+};
+
+export type PurchaseOrderReceiptLine = {
+	productId: number;
+	// What was actually delivered, the ordered quantity by default
+	quantity?: number | undefined;
+	expiryDate?: Date | undefined;
+	lotNumber?: string | undefined;
+};
+
+/**
+ * Quantities of the products ordered from suppliers and not received yet.
+ */
+export function getQuantitiesOnOrder(executor: DatabaseExecutor, productIds: number[]): Map<number, number> {
+	if (productIds.length === 0) {
+		return new Map();
+	}
+
+	const rows = executor
+		.select({
+			productId: purchaseOrderLines.productId,
+			quantity: sql<number>`${sum(purchaseOrderLines.quantity)}`.mapWith(Number),
+		})
+		.from(purchaseOrderLines)
+		.innerJoin(purchaseOrders, eq(purchaseOrders.id, purchaseOrderLines.purchaseOrderId))
+		.where(and(inArray(purchaseOrderLines.productId, productIds), inArray(purchaseOrders.status, OPEN_PURCHASE_ORDER_STATUSES)))
+		.groupBy(purchaseOrderLines.productId)
+		.all();
+	return new Map(rows.map(({productId, quantity}) => [productId, quantity]));
+}
+
+/**
+ * Drafts purchase orders for the products whose stock, counting what is already on order, is
+ * below their reorder point. Each product is bought from the supplier delivering it the soonest,
+ * enough to get back to the reorder point but no less than the minimum order quantity, and the
+ * lines of a supplier are gathered on its draft purchase order. Meant to run in the transaction
+ * that changed the stock.
+ */
+export function draftReorders(executor: DatabaseExecutor, productIds: number[]): PurchaseOrderDraft[] {
+	if (productIds.length === 0) {
+		return [];
+	}
+
+	const candidates = executor
+		.select()
+		.from(products)
+		.where(and(inArray(products.id, productIds), isNotNull(products.reorderPoint)))
+		.all();
+	const onOrder = getQuantitiesOnOrder(executor, candidates.map(({id}) => id));
+	const drafts: PurchaseOrderDraft[] = [];
+
+	for (const product of candidates) {
+		const shortfall = product.reorderPoint! - product.available - (onOrder.get(product.id) ?? 0);
+		if (shortfall <= 0) {
+			continue;
+		}
+
+		const supplier = executor
+			.select()
+			.from(productSuppliers)
+			.where(eq(productSuppliers.productId, product.id))
+			.orderBy(asc(productSuppliers.leadTime), asc(productSuppliers.supplierId))
+			.get();
+		// Without a supplier the product can only be restocked by hand
+		if (!supplier) {
+			continue;
+		}
+
+		const quantity = Math.max(shortfall, supplier.minimumOrderQuantity);
+		const purchaseOrder = executor
+			.select({id: purchaseOrders.id})
+			.from(purchaseOrders)
+			.where(and(eq(purchaseOrders.supplierId, supplier.supplierId), eq(purchaseOrders.status, 'DRAFT')))
+			.get()
+			?? executor.insert(purchaseOrders).values({supplierId: supplier.supplierId}).returning({id: purchaseOrders.id}).get();
+		const {changes} = executor
+			.update(purchaseOrderLines)
+			.set({quantity: sql`${purchaseOrderLines.quantity} + ${quantity}`})
+			.where(and(eq(purchaseOrderLines.purchaseOrderId, purchaseOrder.id), eq(purchaseOrderLines.productId, product.id)))
+			.run();
+		if (changes === 0) {
+			executor.insert(purchaseOrderLines).values({purchaseOrderId: purchaseOrder.id, productId: product.id, quantity}).run();
+		}
+
+		drafts.push({
+			purchaseOrderId: purchaseOrder.id, supplierId: supplier.supplierId, productId: product.id, quantity,
+		});
+	}
+
+	return drafts;
+}
+
+export class PurchaseOrderService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+	private readonly goodsReceivingService: GoodsReceivingService;
+	private readonly eta: EtaService;
+
+	constructor({db, clock, goodsReceivingService}: Pick<Cradle, 'db' | 'clock' | 'goodsReceivingService'>) {
+		this.database = db;
+		this.clock = clock;
+		this.goodsReceivingService = goodsReceivingService;
+		this.eta = new EtaService({clock});
+	}
+
+	async listPurchaseOrders(status?: PurchaseOrderStatus) {
+		return this.database.query.purchaseOrders.findMany({
+			...(status ? {where: eq(purchaseOrders.status, status)} : {}),
+			with: {
+				lines: {
+					columns: {productId: true, quantity: true},
+					orderBy: asc(purchaseOrderLines.id),
+				},
+			},
+			orderBy: asc(purchaseOrders.id),
+		});
+	}
+
+	async getPurchaseOrder(purchaseOrderId: number) {
+		const purchaseOrder = await this.database.query.purchaseOrders.findFirst({
+			where: eq(purchaseOrders.id, purchaseOrderId),
+			with: {
+				lines: {
+					columns: {productId: true, quantity: true},
+					orderBy: asc(purchaseOrderLines.id),
+				},
+			},
+		});
+		if (!purchaseOrder) {
+			throw new PurchaseOrderNotFoundError(purchaseOrderId);
+		}
+
+		return purchaseOrder;
+	}
+
+	async approvePurchaseOrder(purchaseOrderId: number) {
+		const purchaseOrder = await this.getPurchaseOrder(purchaseOrderId);
+		this.transition(purchaseOrder, 'APPROVED', {approvedAt: this.clock.now()});
+		return this.getPurchaseOrder(purchaseOrderId);
+	}
+
+	/**
+	 * Marks the purchase order as sent to the supplier, expected after the longest lead time the
+	 * supplier gives for its products, counted in working days.
+	 */
+	async sendPurchaseOrder(purchaseOrderId: number) {
+		const purchaseOrder = await this.getPurchaseOrder(purchaseOrderId);
+		const terms = await this.database.query.productSuppliers.findMany({
+			where: and(
+				eq(productSuppliers.supplierId, purchaseOrder.supplierId),
+				inArray(productSuppliers.productId, purchaseOrder.lines.map(({productId}) => productId)),
+			),
+		});
+		const leadTime = Math.max(0, ...terms.map(({leadTime}) => leadTime));
+		this.transition(purchaseOrder, 'SENT', {sentAt: this.clock.now(), expectedOn: this.eta.promisedDate(leadTime)});
+		return this.getPurchaseOrder(purchaseOrderId);
+	}
+
+	/**
+	 * Takes the delivery of a sent purchase order into stock through a goods receipt, which then
+	 * serves the backorders waiting for it. Lines not given are received as ordered, a line
+	 * received with no quantity was not delivered.
+	 */
+	async receivePurchaseOrder(purchaseOrderId: number, receivedLines: PurchaseOrderReceiptLine[] = []) {
+		const purchaseOrder = await this.getPurchaseOrder(purchaseOrderId);
+		const unknownLines = receivedLines.filter(({productId}) => !purchaseOrder.lines.some(line => line.productId === productId));
+		if (unknownLines.length > 0) {
+			throw new InvalidGoodsReceiptError(`products ${unknownLines.map(({productId}) => productId).join(', ')} are not on purchase order ${purchaseOrderId}`);
+		}
+
+		const lines = purchaseOrder.lines
+			.map(({productId, quantity}) => {
+				const received = receivedLines.find(line => line.productId === productId);
+				return {
+					productId, quantity: received?.quantity ?? quantity, expiryDate: received?.expiryDate, lotNumber: received?.lotNumber,
+				};
+			})
+			.filter(({quantity}) => quantity > 0);
+		if (lines.length === 0) {
+			throw new InvalidGoodsReceiptError(`nothing was received on purchase order ${purchaseOrderId}`);
+		}
+
+		// Claimed first so that the same delivery cannot be taken into stock twice
+		this.transition(purchaseOrder, 'RECEIVED', {receivedAt: this.clock.now()});
+		try {
+			const receipt = await this.goodsReceivingService.receiveGoods({supplierReference: `PO-${purchaseOrderId}`, lines});
+			await this.database.update(purchaseOrders).set({receiptId: receipt.id}).where(eq(purchaseOrders.id, purchaseOrderId));
+		} catch (error) {
+			await this.database
+				.update(purchaseOrders)
+				.set({status: 'SENT', receivedAt: null})
+				.where(eq(purchaseOrders.id, purchaseOrderId));
+			throw error;
+		}
+
+		return this.getPurchaseOrder(purchaseOrderId);
+	}
+
+	/**
+	 * The update only applies if the purchase order is still in the status it was read with,
+	 * so two concurrent transitions of the same purchase order cannot both succeed.
+	 */
+	private transition(purchaseOrder: Pick<PurchaseOrder, 'id' | 'status'>, to: PurchaseOrderStatus, changes: Partial<PurchaseOrder>): void {
+		if (!PURCHASE_ORDER_STATUS_TRANSITIONS[purchaseOrder.status].includes(to)) {
+			throw new IllegalPurchaseOrderStatusTransitionError(purchaseOrder.id, purchaseOrder.status, to);
+		}
+
+		const result = this.database
+			.update(purchaseOrders)
+			.set({...changes, status: to})
+			.where(and(eq(purchaseOrders.id, purchaseOrder.id), eq(purchaseOrders.status, purchaseOrder.status)))
+			.run();
+		if (result.changes === 0) {
+			throw new IllegalPurchaseOrderStatusTransitionError(purchaseOrder.id, purchaseOrder.status, to);
+		}
+	}
+}
@@ -0,0 +1,30 @@
+import {type IClock} from '../clock.port.js';
+
+export type RateLimitOptions = {
+	max: number;
+	window: number;
+};
+
+/**
+ * Counts what each recipient was sent over a sliding window, in memory.
+ */
+export class RecipientRateLimiter {
+	private readonly sentAt = new Map<string, number[]>();
+
+	constructor(private readonly options: RateLimitOptions, private readonly clock: IClock) {}
+
+	/**
+	 * Counts one more message for the recipient, unless it already reached its limit.
+	 */
+	public tryAcquire(recipient: string): boolean {
+		const now = this.clock.now().getTime();
+		const recent = (this.sentAt.get(recipient) ?? []).filter(sentAt => sentAt > now - this.options.window);
+		const acquired = recent.length < this.options.max;
+		if (acquired) {
+			recent.push(now);
+		}
+
+		this.sentAt.set(recipient, recent);
+		return acquired;
+	}
+}
@@ -0,0 +1,73 @@
+import {asc, eq} from 'drizzle-orm';
+import {
+	addDays, startOfBusinessDate, toBusinessDate, withYear,
+} from './business-dates.js';
+import {seasonWindows, type Product, type SeasonWindow} from '@/db/schema.js';
+import {type DatabaseExecutor} from '@/db/type.js';
+
+/**
+ * One occurrence of a season, from the instant it opens until the instant it closes.
+ */
+export type SeasonPeriod = {
+	start: Date;
+	end: Date;
+};
+
+export type SeasonPosition = {
+	// Season in progress
+	current: SeasonPeriod | undefined;
+	// First season still to come
+	next: SeasonPeriod | undefined;
+	// Last season that closed
+	last: SeasonPeriod | undefined;
+};
+
+/**
+ * Occurrences of the window around the given instant: the window itself, or the ones of the
+ * previous, current and next years for a recurring window.
+ */
+export function expandSeasonWindow(window: Pick<SeasonWindow, 'startsOn' | 'endsOn' | 'recurring'>, around: Date, timeZone: string): SeasonPeriod[] {
+	const toPeriod = (startsOn: string, endsOn: string): SeasonPeriod => ({
+		start: startOfBusinessDate(startsOn, timeZone),
+		end: startOfBusinessDate(addDays(endsOn, 1), timeZone),
+	});
+	if (!window.recurring) {
+		return [toPeriod(window.startsOn, window.endsOn)];
+	}
+
+	// A window running over the new year ends the year after it starts
+	const span = Number(window.endsOn.slice(0, 4)) - Number(window.startsOn.slice(0, 4));
+	const year = Number(toBusinessDate(around, timeZone).slice(0, 4));
+	return [year - 1, year, year + 1].map(startYear => toPeriod(withYear(window.startsOn, startYear), withYear(window.endsOn, startYear + span)));
+}
+
+/**
+ * Seasons of the product around the given instant, in chronological order. A product without
+ * season windows has the single season of its season dates.
+ */
+export function getSeasonPeriods(executor: DatabaseExecutor, product: Product, around: Date, timeZone: string): SeasonPeriod[] {
+	const windows = executor
+		.select()
+		.from(seasonWindows)
+		.where(eq(seasonWindows.productId, product.id))
+		.orderBy(asc(seasonWindows.id))
+		.all();
+	if (windows.length === 0) {
+		return product.seasonStartDate && product.seasonEndDate ? [{start: product.seasonStartDate, end: product.seasonEndDate}] : [];
+	}
+
+	return windows
+		.flatMap(window => expandSeasonWindow(window, around, timeZone))
+		.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Where the instant stands among the seasons.
+ */
+export function locateSeason(periods: SeasonPeriod[], instant: Date): SeasonPosition {
+	return {
+		current: periods.find(({start, end}) => start <= instant && instant < end),
+		next: periods.find(({start}) => start > instant),
+		last: periods.findLast(({end}) => end <= instant),
+	};
+}
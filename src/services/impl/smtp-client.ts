@@ -0,0 +1,221 @@
+import {once} from 'node:events';
+import {connect as connectTcp, type Socket} from 'node:net';
+import {connect as connectTls} from 'node:tls';
+import {hostname} from 'node:os';
+
+export type SmtpOptions = {
+	host: string;
+	port: number;
+	// Implicit TLS from the first byte, as on port 465
+	secure: boolean;
+	user?: string;
+	password?: string;
+	timeout: number;
+};
+
+export type Mail = {
+	from: string;
+	to: string[];
+	subject: string;
+	text: string;
+};
+
+type SmtpReply = {
+	code: number;
+	text: string;
+};
+
+/**
+ * Minimal SMTP conversation over a single connection: enough to hand a plain text mail to a relay.
+ */
+class SmtpConnection {
+	private buffer = '';
+	private readonly replyLines: string[] = [];
+	private readonly replies: SmtpReply[] = [];
+	private waiting: {resolve: (reply: SmtpReply) => void; reject: (error: Error) => void} | undefined;
+	private failure: Error | undefined;
+
+	constructor(private readonly socket: Socket) {
+		socket.setEncoding('utf8');
+		socket.on('data', (chunk: string) => {
+			this.receive(chunk);
+		});
+		socket.on('error', error => {
+			this.fail(error);
+		});
+		socket.on('close', () => {
+			this.fail(new Error('SMTP connection closed by the server'));
+		});
+	}
+
+	async expect(verb: string, expectedCodes: number[]): Promise<SmtpReply> {
+		const reply = await this.nextReply();
+		if (!expectedCodes.includes(reply.code)) {
+			throw new Error(`SMTP server refused ${verb}: ${reply.code} ${reply.text}`);
+		}
+
+		return reply;
+	}
+
+	async command(line: string, expectedCodes: number[]): Promise<SmtpReply> {
+		this.socket.write(`${line}\r\n`);
+		// Only the verb is reported, a command may carry credentials
+		return this.expect(line.split(' ')[0]!, expectedCodes);
+	}
+
+	write(data: string): void {
+		this.socket.write(data);
+	}
+
+	close(): void {
+		this.socket.end();
+	}
+
+	/**
+	 * Hands the socket over, to be wrapped in TLS once the server agreed to STARTTLS.
+	 */
+	detach(): Socket {
+		this.socket.removeAllListeners('data');
+		this.socket.removeAllListeners('error');
+		this.socket.removeAllListeners('close');
+		return this.socket;
+	}
+
+	private async nextReply(): Promise<SmtpReply> {
+		const reply = this.replies.shift();
+		if (reply) {
+			return reply;
+		}
+
+		if (this.failure) {
+			throw this.failure;
+		}
+
+		return new Promise((resolve, reject) => {
+			this.waiting = {resolve, reject};
+		});
+	}
+
+	private receive(chunk: string): void {
+		this.buffer += chunk;
+		let end = this.buffer.indexOf('\r\n');
+		while (end !== -1) {
+			const line = this.buffer.slice(0, end);
+			this.buffer = this.buffer.slice(end + 2);
+			this.replyLines.push(line.slice(4));
+			// A multiline reply goes on with "250-" lines and ends with a "250 " line
+			if (line.charAt(3) !== '-') {
+				this.settle({code: Number(line.slice(0, 3)), text: this.replyLines.splice(0).join(' ')});
+			}
+
+			end = this.buffer.indexOf('\r\n');
+		}
+	}
+
+	private settle(reply: SmtpReply): void {
+		if (this.waiting) {
+			this.waiting.resolve(reply);
+			this.waiting = undefined;
+			return;
+		}
+
+		this.replies.push(reply);
+	}
+
+	private fail(error: Error): void {
+		this.failure ??= error;
+		this.waiting?.reject(this.failure);
+		this.waiting = undefined;
+	}
+}
+
+function encodeHeader(value: string): string {
+	return /^[ -~]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function formatMail({from, to, subject, text}: Mail): string {
+	const headers = [
+		`From: ${from}`,
+		`To: ${to.join(', ')}`,
+		`Subject: ${encodeHeader(subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		'MIME-Version: 1.0',
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: 8bit',
+	];
+	// Lines starting with a dot are doubled so that none of them ends the DATA section early
+	const body = text.split(/\r?\n/).map(line => line.startsWith('.') ? `.${line}` : line);
+	return `${[...headers, '', ...body].join('\r\n')}\r\n.\r\n`;
+}
+
+function limitSilence(socket: Socket, timeout: number): void {
+	socket.setTimeout(timeout, () => {
+		socket.destroy(new Error(`SMTP server did not answer within ${timeout} ms`));
+	});
+}
+
+async function startTls(socket: Socket, options: SmtpOptions): Promise<SmtpConnection> {
+	// The TLS socket watches the silence of the server from now on
+	socket.setTimeout(0);
+	const tlsSocket = connectTls({socket, servername: options.host});
+	limitSilence(tlsSocket, options.timeout);
+	await once(tlsSocket, 'secureConnect');
+	return new SmtpConnection(tlsSocket);
+}
+
+/**
+ * Sends one mail through the SMTP server and resolves once the server accepted it. Without implicit
+ * TLS, the connection is upgraded with STARTTLS whenever the server offers it, and credentials are
+ * never sent over a connection that is not encrypted.
+ */
+export async function sendMail(options: SmtpOptions, mail: Mail): Promise<void> {
+	const socket = options.secure
+		? connectTls({host: options.host, port: options.port, servername: options.host})
+		: connectTcp({host: options.host, port: options.port});
+	limitSilence(socket, options.timeout);
+	let connection = new SmtpConnection(socket);
+
+	try {
+		await connection.expect('the connection', [220]);
+		const greeting = await connection.command(`EHLO ${hostname()}`, [250]);
+		let encrypted = options.secure;
+		if (!encrypted && /\bSTARTTLS\b/.test(greeting.text)) {
+			await connection.command('STARTTLS', [220]);
+			connection = await startTls(connection.detach(), options);
+			encrypted = true;
+			// The server forgets what was said before the upgrade
+			await connection.command(`EHLO ${hostname()}`, [250]);
+		}
+
+		if (options.user) {
+			if (!encrypted) {
+				throw new Error('SMTP server does not offer STARTTLS, credentials are not sent over an unencrypted connection');
+			}
+
+			const credentials = Buffer.from(`\u0000${options.user}\u0000${options.password ?? ''}`).toString('base64');
+			await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+		}
+
+		await connection.command(`MAIL FROM:<${mail.from}>`, [250]);
+		for (const recipient of mail.to) {
+			// eslint-disable-next-line no-await-in-loop
+			await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+		}
+
+		await connection.command('DATA', [354]);
+		connection.write(formatMail(mail));
+		await connection.expect('the mail', [250]);
+	} catch (error) {
+		connection.close();
+		throw error;
+	}
+
+	// The mail is sent once the server accepted it, a failed goodbye must not have it sent again
+	try {
+		await connection.command('QUIT', [221]);
+	} catch {
+		// The server may drop the connection as it likes once the mail is queued
+	} finally {
+		connection.close();
+	}
+}
@@ -0,0 +1,99 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {mockDeep} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingDependencies, createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {type IFulfilmentNotificationService} from '../fulfilment-notifications.port.js';
+import {StockLedgerService} from './stock-ledger.service.js';
+import {BackorderService} from './backorder.service.js';
+import {ProductCatalogService} from './product-catalog.service.js';
+import {type OrderProcessingService} from './order-processing.service.js';
+import {products, orders, ordersToProducts} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('StockLedgerService Tests', () => {
+	let stockLedgerService: StockLedgerService;
+	let productCatalogService: ProductCatalogService;
+	let orderProcessingService: OrderProcessingService;
+	let databaseMock: Database;
+	let databaseName: string;
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		const {productStrategyRegistry, clock} = createOrderProcessingDependencies(databaseMock);
+		stockLedgerService = new StockLedgerService({db: databaseMock, clock});
+		productCatalogService = new ProductCatalogService({
+			db: databaseMock,
+			backorderService: new BackorderService({db: databaseMock, fns: mockDeep<IFulfilmentNotificationService>(), clock}),
+			productStrategyRegistry,
+			clock,
+		});
+		orderProcessingService = createOrderProcessingService(databaseMock);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should record every stock change of a product', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 5,
+		});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: product.id, quantity: 2});
+
+		// WHEN
+		await orderProcessingService.processOrderById(1);
+		await productCatalogService.updateProduct(product.id, {available: 10});
+
+		// THEN
+		const history = await stockLedgerService.getHistory(product.id);
+		expect(history.map(({kind, quantity, balanceAfter, orderId}) => ({
+			kind, quantity, balanceAfter, orderId,
+		}))).toEqual([
+			{
+				kind: 'INITIAL', quantity: 5, balanceAfter: 5, orderId: null,
+			},
+			{
+				kind: 'ORDER_CONSUMPTION', quantity: -2, balanceAfter: 3, orderId: 1,
+			},
+			{
+				kind: 'MANUAL_ADJUSTMENT', quantity: 7, balanceAfter: 10, orderId: null,
+			},
+		]);
+	});
+
+	it('should record the write-off of expired stock', async () => {
+		// GIVEN
+		const product = await productCatalogService.createProduct({
+			type: 'EXPIRABLE', name: 'Milk', leadTime: 15, available: 4, expiryDate: new Date(Date.now() - (24 * 60 * 60 * 1000)),
+		});
+
+		// WHEN
+		await orderProcessingService.processProductOrder(product);
+
+		// THEN
+		const history = await stockLedgerService.getHistory(product.id);
+		expect(history.at(-1)).toMatchObject({kind: 'EXPIRY_WRITE_OFF', quantity: -4, balanceAfter: 0});
+	});
+
+	it('should flag products whose stock drifted from the ledger', async () => {
+		// GIVEN
+		const inSync = await productCatalogService.createProduct({
+			type: 'NORMAL', name: 'USB Cable', leadTime: 15, available: 5,
+		});
+		await databaseMock.insert(products).values({
+			id: 2, leadTime: 10, available: 3, type: 'NORMAL', name: 'USB Dongle',
+		});
+
+		// WHEN
+		const reconciliation = await stockLedgerService.reconcile();
+
+		// THEN
+		expect(reconciliation.checkedProducts).toBe(2);
+		expect(reconciliation.drifts).toEqual([{
+			productId: 2, productName: 'USB Dongle', available: 3, ledgerBalance: 0, drift: 3,
+		}]);
+		expect(reconciliation.drifts.map(({productId}) => productId)).not.toContain(inSync.id);
+	});
+});
@@ -0,0 +1,103 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	asc, eq, sql, sum,
+} from 'drizzle-orm';
+import {ProductNotFoundError} from '../errors.js';
+import {type IClock} from '../clock.port.js';
+import {publishWebhookEvent} from './webhook-subscription.service.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+import {
+	products, stockMovements, type StockMovement, type StockMovementInsert,
+} from '@/db/schema.js';
+
+export type StockDrift = {
+	productId: number;
+	productName: string;
+	available: number;
+	ledgerBalance: number;
+	drift: number;
+};
+
+export type StockReconciliation = {
+	checkedAt: Date;
+	checkedProducts: number;
+	drifts: StockDrift[];
+};
+
+/**
+ * Appends a movement to the ledger, meant to run in the transaction that changes the stock.
+ * Movements that do not change the stock are not recorded.
+ * Partners subscribed to them are told when the movement writes stock off or empties it.
+ */
+export function recordStockMovement(
+	executor: DatabaseExecutor,
+	movement: Omit<StockMovementInsert, 'id' | 'occurredAt'> & {occurredAt: Date},
+): void {
+	if (movement.quantity === 0) {
+		return;
+	}
+
+	const {occurredAt} = movement;
+	executor
+		.insert(stockMovements)
+		.values(movement)
+		.run();
+
+	const {productId, orderId = null, reference = null} = movement;
+	if (movement.kind === 'EXPIRY_WRITE_OFF') {
+		publishWebhookEvent(executor, 'PRODUCT_WRITTEN_OFF', {
+			productId, quantity: -movement.quantity, lotNumber: reference, orderId,
+		}, occurredAt);
+	}
+
+	if (movement.quantity < 0 && movement.balanceAfter === 0) {
+		publishWebhookEvent(executor, 'PRODUCT_OUT_OF_STOCK', {productId, orderId}, occurredAt);
+	}
+}
+
+export class StockLedgerService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+
+	constructor({db, clock}: Pick<Cradle, 'db' | 'clock'>) {
+		this.database = db;
+		this.clock = clock;
+	}
+
+	async getHistory(productId: number): Promise<StockMovement[]> {
+		const product = await this.database.query.products.findFirst({where: eq(products.id, productId)});
+		if (!product) {
+			throw new ProductNotFoundError(productId);
+		}
+
+		return this.database.query.stockMovements.findMany({
+			where: eq(stockMovements.productId, productId),
+			orderBy: asc(stockMovements.id),
+		});
+	}
+
+	/**
+	 * Recomputes the stock of every product from its ledger and reports those that drifted from `available`.
+	 */
+	async reconcile(): Promise<StockReconciliation> {
+		const balances = await this.database
+			.select({
+				productId: products.id,
+				productName: products.name,
+				available: products.available,
+				ledgerBalance: sql<number>`coalesce(${sum(stockMovements.quantity)}, 0)`.mapWith(Number),
+			})
+			.from(products)
+			.leftJoin(stockMovements, eq(stockMovements.productId, products.id))
+			.groupBy(products.id)
+			.orderBy(asc(products.id));
+
+		return {
+			checkedAt: this.clock.now(),
+			checkedProducts: balances.length,
+			drifts: balances
+				.map(balance => ({...balance, drift: balance.available - balance.ledgerBalance}))
+				.filter(({drift}) => drift !== 0),
+		};
+	}
+}
@@ -0,0 +1,88 @@
+import {
+	and, asc, eq, gt, gte, sql,
+} from 'drizzle-orm';
+import {StockConflictError} from '../errors.js';
+import {
+	stockLots, type Product, type StockLot, type StockMovementKind,
+} from '@/db/schema.js';
+import {type DatabaseExecutor} from '@/db/type.js';
+
+/**
+ * Part of the stock of a product sharing one expiry date. Stock that was not received as a lot
+ * is untracked: it has no lot and carries the expiry date of the product itself.
+ */
+export type StockLotBalance = {
+	lot?: Pick<StockLot, 'id' | 'lotNumber'>;
+	quantity: number;
+	expiryDate: Date;
+};
+
+export type StockLotChange = StockLotBalance & {
+	kind: Extract<StockMovementKind, 'ORDER_CONSUMPTION' | 'EXPIRY_WRITE_OFF'>;
+};
+
+/**
+ * Lots of a product still holding stock, first expired first.
+ */
+export function getStockLots(executor: DatabaseExecutor, product: Product): StockLotBalance[] {
+	const lots: StockLotBalance[] = executor
+		.select()
+		.from(stockLots)
+		.where(and(eq(stockLots.productId, product.id), gt(stockLots.quantity, 0)))
+		.orderBy(asc(stockLots.expiryDate), asc(stockLots.id))
+		.all()
+		.map(({
+			id, lotNumber, quantity, expiryDate,
+		}) => ({lot: {id, lotNumber}, quantity, expiryDate}));
+
+	const untracked = product.available - lots.reduce((total, {quantity}) => total + quantity, 0);
+	if (untracked > 0 && product.expiryDate) {
+		lots.push({quantity: untracked, expiryDate: product.expiryDate});
+	}
+
+	return lots.sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+}
+
+/**
+ * Takes the quantity out of the given lots in their order, which is first expired first out.
+ */
+export function planLotConsumption(lots: StockLotBalance[], quantity: number): StockLotChange[] {
+	const changes: StockLotChange[] = [];
+	let remaining = quantity;
+	for (const lot of lots) {
+		if (remaining === 0) {
+			break;
+		}
+
+		const taken = Math.min(lot.quantity, remaining);
+		remaining -= taken;
+		changes.push({...lot, quantity: taken, kind: 'ORDER_CONSUMPTION'});
+	}
+
+	return changes;
+}
+
+/**
+ * Removes the changed quantities from their lots. Untracked stock only lives in the product's
+ * available stock, which the caller updates.
+ */
+export function applyLotChanges(executor: DatabaseExecutor, product: Pick<Product, 'name'>, changes: StockLotChange[]): void {
+	for (const {lot, quantity} of changes) {
+		if (!lot) {
+			continue;
+		}
+
+		const {changes: updatedRows} = executor
+			.update(stockLots)
+			.set({quantity: sql`${stockLots.quantity} - ${quantity}`})
+			.where(and(eq(stockLots.id, lot.id), gte(stockLots.quantity, quantity)))
+			.run();
+		if (updatedRows === 0) {
+			throw new StockConflictError(product.name);
+		}
+	}
+}
+
+export function describeLot(product: Pick<Product, 'name'>, {lot}: Pick<StockLotBalance, 'lot'>): string {
+	return lot ? `${product.name} (lot ${lot.lotNumber})` : product.name;
+}
@@ -0,0 +1,82 @@
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {
+	closeReservations, expireReservations, getReservedQuantities, reserveStock,
+} from './stock-reservations.js';
+import {
+	bundleComponents, products, orders,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+describe('Stock Reservations Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+	const now = new Date('2030-01-01T00:00:00Z');
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 3, type: 'NORMAL', name: 'USB Cable',
+		});
+		await databaseMock.insert(orders).values([{id: 1}, {id: 2}]);
+	});
+
+	afterEach(async () => cleanUp(databaseName));
+
+	it('should only reserve stock that other orders do not hold', async () => {
+		// WHEN
+		reserveStock(databaseMock, 1, [{productId: 1, quantity: 2}], now);
+		reserveStock(databaseMock, 2, [{productId: 1, quantity: 2}], now);
+
+		// THEN
+		const reservations = await databaseMock.query.stockReservations.findMany();
+		expect(reservations.map(({orderId, quantity}) => [orderId, quantity])).toEqual([[1, 2], [2, 1]]);
+		expect(getReservedQuantities(databaseMock, [1], {now})).toEqual(new Map([[1, 3]]));
+		expect(getReservedQuantities(databaseMock, [1], {excludeOrderId: 2, now})).toEqual(new Map([[1, 2]]));
+	});
+
+	it('should reserve the components of a bundle line, together with the other lines drawing on them', async () => {
+		// GIVEN
+		await databaseMock.insert(products).values({
+			id: 2, leadTime: 0, available: 0, type: 'BUNDLE', name: 'Cable Pack',
+		});
+		await databaseMock.insert(bundleComponents).values({bundleId: 2, componentId: 1, quantity: 2});
+
+		// WHEN
+		reserveStock(databaseMock, 1, [{productId: 2, quantity: 1}], now);
+		reserveStock(databaseMock, 2, [{productId: 1, quantity: 1}, {productId: 2, quantity: 1}], now);
+
+		// THEN
+		const reservations = await databaseMock.query.stockReservations.findMany();
+		expect(reservations.map(({orderId, productId, quantity}) => [orderId, productId, quantity])).toEqual([[1, 1, 2], [2, 1, 1]]);
+		expect(getReservedQuantities(databaseMock, [1, 2], {now})).toEqual(new Map([[1, 3]]));
+	});
+
+	it('should ignore and expire reservations past their expiry date', async () => {
+		// GIVEN
+		const createdAt = new Date(now.getTime() - (24 * 60 * 60 * 1000));
+		reserveStock(databaseMock, 1, [{productId: 1, quantity: 2}], createdAt);
+
+		// WHEN
+		const reserved = getReservedQuantities(databaseMock, [1], {now});
+		expireReservations(databaseMock, now);
+
+		// THEN
+		expect(reserved).toEqual(new Map());
+		const reservation = await databaseMock.query.stockReservations.findFirst();
+		expect(reservation?.status).toBe('EXPIRED');
+	});
+
+	it('should release the stock held by an order', async () => {
+		// GIVEN
+		reserveStock(databaseMock, 1, [{productId: 1, quantity: 3}], now);
+
+		// WHEN
+		closeReservations(databaseMock, 1, 'RELEASED', now);
+
+		// THEN
+		expect(getReservedQuantities(databaseMock, [1], {now})).toEqual(new Map());
+	});
+});
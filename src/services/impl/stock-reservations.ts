@@ -0,0 +1,134 @@
+import {
+	and, eq, gt, inArray, lte, ne, sql, sum,
+} from 'drizzle-orm';
+import {CONFIG} from '@/configuration/index.js';
+import {
+	bundleComponents, products, stockReservations, type ReservationStatus,
+} from '@/db/schema.js';
+import {type DatabaseExecutor} from '@/db/type.js';
+
+const reservationConfig = CONFIG.get('reservation');
+
+export type ReservationRequest = {
+	productId: number;
+	quantity: number;
+};
+
+/**
+ * Marks reservations past their expiry date as EXPIRED. Expired reservations are already ignored
+ * when computing reserved stock, this only keeps their status truthful.
+ */
+export function expireReservations(executor: DatabaseExecutor, now: Date): void {
+	executor
+		.update(stockReservations)
+		.set({status: 'EXPIRED', closedAt: now})
+		.where(and(eq(stockReservations.status, 'ACTIVE'), lte(stockReservations.expiresAt, now)))
+		.run();
+}
+
+/**
+ * Quantity of each product held by active reservations, optionally leaving out those of one order.
+ */
+export function getReservedQuantities(
+	executor: DatabaseExecutor,
+	productIds: number[],
+	{excludeOrderId, now}: {excludeOrderId?: number | undefined; now: Date},
+): Map<number, number> {
+	if (productIds.length === 0) {
+		return new Map();
+	}
+
+	const rows = executor
+		.select({
+			productId: stockReservations.productId,
+			reserved: sql<number>`${sum(stockReservations.quantity)}`.mapWith(Number),
+		})
+		.from(stockReservations)
+		.where(and(
+			eq(stockReservations.status, 'ACTIVE'),
+			gt(stockReservations.expiresAt, now),
+			inArray(stockReservations.productId, productIds),
+			excludeOrderId === undefined ? undefined : ne(stockReservations.orderId, excludeOrderId),
+		))
+		.groupBy(stockReservations.productId)
+		.all();
+
+	return new Map(rows.map(({productId, reserved}) => [productId, reserved]));
+}
+
+/**
+ * The stock the lines draw on: a bundle holds none of its own, its lines draw on its components.
+ * Lines drawing on the same product are added together.
+ */
+function expandBundleLines(executor: DatabaseExecutor, requests: ReservationRequest[]): ReservationRequest[] {
+	const billsOfMaterials = requests.length === 0 ? [] : executor
+		.select()
+		.from(bundleComponents)
+		.where(inArray(bundleComponents.bundleId, requests.map(({productId}) => productId)))
+		.all();
+
+	const quantities = new Map<number, number>();
+	for (const {productId, quantity} of requests) {
+		const components = billsOfMaterials.filter(({bundleId}) => bundleId === productId);
+		for (const {componentId, quantity: quantityPerBundle} of components.length === 0 ? [{componentId: productId, quantity: 1}] : components) {
+			quantities.set(componentId, (quantities.get(componentId) ?? 0) + (quantityPerBundle * quantity));
+		}
+	}
+
+	return [...quantities].map(([productId, quantity]) => ({productId, quantity}));
+}
+
+/**
+ * Holds the stock of each line for the order, as far as stock not reserved by other orders allows.
+ * Bundle lines hold the stock of their components.
+ */
+export function reserveStock(
+	executor: DatabaseExecutor,
+	orderId: number,
+	orderLines: ReservationRequest[],
+	now: Date,
+): void {
+	expireReservations(executor, now);
+
+	const requests = expandBundleLines(executor, orderLines);
+	const productIds = requests.map(({productId}) => productId);
+	const stock = executor
+		.select({id: products.id, available: products.available})
+		.from(products)
+		.where(inArray(products.id, productIds))
+		.all();
+	const available = new Map(stock.map(({id, available}) => [id, available]));
+	const reserved = getReservedQuantities(executor, productIds, {now});
+	const expiresAt = new Date(now.getTime() + reservationConfig.ttl);
+
+	for (const {productId, quantity} of requests) {
+		const free = (available.get(productId) ?? 0) - (reserved.get(productId) ?? 0);
+		const reservedQuantity = Math.min(quantity, Math.max(free, 0));
+		if (reservedQuantity === 0) {
+			continue;
+		}
+
+		executor
+			.insert(stockReservations)
+			.values({
+				orderId, productId, quantity: reservedQuantity, createdAt: now, expiresAt,
+			})
+			.run();
+	}
+}
+
+/**
+ * Closes the active reservations of an order, CONSUMED once processed or RELEASED when cancelled.
+ */
+export function closeReservations(
+	executor: DatabaseExecutor,
+	orderId: number,
+	status: Extract<ReservationStatus, 'CONSUMED' | 'RELEASED'>,
+	now: Date,
+): void {
+	executor
+		.update(stockReservations)
+		.set({status, closedAt: now})
+		.where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'ACTIVE')))
+		.run();
+}
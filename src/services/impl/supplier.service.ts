@@ -0,0 +1,91 @@
+import {type Cradle} from '@fastify/awilix';
+import {and, asc, eq} from 'drizzle-orm';
+import {
+	InvalidProductError, ProductNotFoundError, ProductSupplierNotFoundError, SupplierNotFoundError,
+} from '../errors.js';
+import {
+	products, productSuppliers, suppliers, type Product, type ProductSupplier, type Supplier,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+export type SupplierRequest = {
+	name: string;
+	email?: string | undefined;
+};
+
+export type SupplyTerms = {
+	leadTime: number;
+	minimumOrderQuantity: number;
+};
+
+export class SupplierService {
+	private readonly database: Database;
+
+	constructor({db}: Pick<Cradle, 'db'>) {
+		this.database = db;
+	}
+
+	async createSupplier({name, email}: SupplierRequest): Promise<Supplier> {
+		const [supplier] = await this.database.insert(suppliers).values({name, email: email ?? null}).returning();
+		return supplier!;
+	}
+
+	async listSuppliers(): Promise<Supplier[]> {
+		return this.database.query.suppliers.findMany({orderBy: asc(suppliers.id)});
+	}
+
+	async getSupplier(supplierId: number): Promise<Supplier> {
+		const supplier = await this.database.query.suppliers.findFirst({where: eq(suppliers.id, supplierId)});
+		if (!supplier) {
+			throw new SupplierNotFoundError(supplierId);
+		}
+
+		return supplier;
+	}
+
+	async listProductSuppliers(productId: number): Promise<ProductSupplier[]> {
+		await this.getProduct(productId);
+		return this.database.query.productSuppliers.findMany({
+			where: eq(productSuppliers.productId, productId),
+			orderBy: [asc(productSuppliers.leadTime), asc(productSuppliers.supplierId)],
+		});
+	}
+
+	/**
+	 * Links the product to the supplier, or changes the terms it is bought on from that supplier.
+	 */
+	async setProductSupplier(productId: number, supplierId: number, terms: SupplyTerms): Promise<ProductSupplier> {
+		const product = await this.getProduct(productId);
+		// A bundle holds no stock of its own, its components are bought instead
+		if (product.type === 'BUNDLE') {
+			throw new InvalidProductError(`"${product.name}" is a bundle and cannot be bought from a supplier`);
+		}
+
+		await this.getSupplier(supplierId);
+		const [link] = await this.database
+			.insert(productSuppliers)
+			.values({productId, supplierId, ...terms})
+			.onConflictDoUpdate({target: [productSuppliers.productId, productSuppliers.supplierId], set: terms})
+			.returning();
+		return link!;
+	}
+
+	async removeProductSupplier(productId: number, supplierId: number): Promise<void> {
+		const {changes} = this.database
+			.delete(productSuppliers)
+			.where(and(eq(productSuppliers.productId, productId), eq(productSuppliers.supplierId, supplierId)))
+			.run();
+		if (changes === 0) {
+			throw new ProductSupplierNotFoundError(productId, supplierId);
+		}
+	}
+
+	private async getProduct(productId: number): Promise<Product> {
+		const product = await this.database.query.products.findFirst({where: eq(products.id, productId)});
+		if (!product) {
+			throw new ProductNotFoundError(productId);
+		}
+
+		return product;
+	}
+}
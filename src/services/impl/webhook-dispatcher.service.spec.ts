@@ -0,0 +1,194 @@
+import {createServer, type IncomingHttpHeaders, type Server} from 'node:http';
+import {type AddressInfo} from 'node:net';
+import {
+	describe, it, expect, beforeEach, afterEach,
+} from 'vitest';
+import {type FastifyBaseLogger} from 'fastify';
+import {mockDeep} from 'vitest-mock-extended';
+import {createDatabaseMock, cleanUp} from '../../utils/test-utils/database-tools.ts.js';
+import {createOrderProcessingService} from '../../utils/test-utils/order-processing-tools.js';
+import {type IClock} from '../clock.port.js';
+import {FixedClock} from './clock.js';
+import {WebhookDispatcher, signWebhookPayload, type WebhookDispatchOptions} from './webhook-dispatcher.service.js';
+import {WebhookSubscriptionService} from './webhook-subscription.service.js';
+import {orders, ordersToProducts, products} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+type ReceivedRequest = {
+	headers: IncomingHttpHeaders;
+	body: string;
+};
+
+describe('WebhookDispatcher Tests', () => {
+	let databaseMock: Database;
+	let databaseName: string;
+	let endpoint: Server;
+	let endpointUrl: string;
+	let endpointStatus: number;
+	let received: ReceivedRequest[];
+	let webhookSubscriptionService: WebhookSubscriptionService;
+	const start = new Date('2030-01-01T00:00:00Z');
+	const options: WebhookDispatchOptions = {
+		pollInterval: 1000, timeout: 2000, maxAttempts: 3, retryDelay: 1000, disableAfterFailures: 4, allowPrivateTargets: true,
+	};
+
+	beforeEach(async () => {
+		({databaseMock, databaseName} = await createDatabaseMock());
+		webhookSubscriptionService = new WebhookSubscriptionService({db: databaseMock, clock: new FixedClock(start)}, options);
+		endpointStatus = 200;
+		received = [];
+		endpoint = createServer((request, response) => {
+			let body = '';
+			request.setEncoding('utf8');
+			request.on('data', (chunk: string) => {
+				body += chunk;
+			});
+			request.on('end', () => {
+				received.push({headers: request.headers, body});
+				response.writeHead(endpointStatus).end();
+			});
+		});
+		await new Promise<void>(resolve => {
+			endpoint.listen(0, '127.0.0.1', resolve);
+		});
+		endpointUrl = `http://127.0.0.1:${(endpoint.address() as AddressInfo).port}/hooks`;
+	});
+
+	afterEach(async () => {
+		endpoint.close();
+		await cleanUp(databaseName);
+	});
+
+	function dispatcherAt(date: Date | IClock) {
+		const clock = date instanceof Date ? new FixedClock(date) : date;
+		return new WebhookDispatcher({db: databaseMock, clock, logger: mockDeep<FastifyBaseLogger>()}, options);
+	}
+
+	async function processOrder() {
+		await databaseMock.insert(products).values({
+			id: 1, leadTime: 15, available: 2, type: 'NORMAL', name: 'USB Cable',
+		});
+		await databaseMock.insert(orders).values({id: 1});
+		await databaseMock.insert(ordersToProducts).values({orderId: 1, productId: 1, quantity: 2});
+		const orderProcessingService = createOrderProcessingService(databaseMock);
+		await orderProcessingService.processOrderById(1);
+	}
+
+	it('should post a signed delivery of each event to the subscriptions that asked for it', async () => {
+		// GIVEN
+		const partner = await webhookSubscriptionService.createSubscription({
+			url: endpointUrl, eventTypes: ['ORDER_FULFILLED', 'PRODUCT_OUT_OF_STOCK'], secret: 'partner-secret-0123',
+		});
+		await webhookSubscriptionService.createSubscription({
+			url: endpointUrl, eventTypes: ['PRODUCT_WRITTEN_OFF'], secret: 'another-secret-0123',
+		});
+		await processOrder();
+
+		// WHEN
+		const report = await dispatcherAt(start).dispatchDue();
+
+		// THEN
+		expect(report).toEqual({
+			delivered: 2, retried: 0, failed: 0, disabledSubscriptions: [],
+		});
+		expect(received.map(({headers}) => headers['x-webhook-event'])).toEqual(['PRODUCT_OUT_OF_STOCK', 'ORDER_FULFILLED']);
+		const [outOfStock, fulfilled] = received;
+		expect(JSON.parse(fulfilled!.body)).toMatchObject({type: 'ORDER_FULFILLED', data: {orderId: 1}});
+		expect(JSON.parse(outOfStock!.body)).toMatchObject({type: 'PRODUCT_OUT_OF_STOCK', data: {productId: 1, orderId: 1}});
+		const timestamp = Number(fulfilled!.headers['x-webhook-timestamp']);
+		expect(timestamp).toBe(start.getTime() / 1000);
+		expect(fulfilled!.headers['x-webhook-signature']).toBe(signWebhookPayload('partner-secret-0123', timestamp, fulfilled!.body));
+		const deliveries = await webhookSubscriptionService.listDeliveries(partner.id);
+		expect(deliveries.every(({status, attempts}) => status === 'DELIVERED' && attempts.length === 1)).toBe(true);
+	});
+
+	it('should not post to an endpoint that resolves to a private address', async () => {
+		// GIVEN
+		const partner = await webhookSubscriptionService.createSubscription({
+			url: endpointUrl, eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123',
+		});
+		await processOrder();
+		const dispatcher = new WebhookDispatcher({db: databaseMock, clock: new FixedClock(start), logger: mockDeep<FastifyBaseLogger>()}, {
+			...options, allowPrivateTargets: false,
+		});
+
+		// WHEN
+		const report = await dispatcher.dispatchDue();
+
+		// THEN
+		expect(report).toMatchObject({delivered: 0, retried: 1});
+		expect(received).toEqual([]);
+		const [delivery] = await webhookSubscriptionService.listDeliveries(partner.id);
+		expect(delivery?.attempts).toMatchObject([{statusCode: null, error: `${new URL(endpointUrl).host} resolves to a loopback, private or link-local address`}]);
+	});
+
+	it('should stamp each delivery with the time it is sent', async () => {
+		// GIVEN
+		await webhookSubscriptionService.createSubscription({
+			url: endpointUrl, eventTypes: ['ORDER_FULFILLED', 'PRODUCT_OUT_OF_STOCK'], secret: 'partner-secret-0123',
+		});
+		await processOrder();
+		const sentLater = new Date(start.getTime() + 40_000);
+		const clock = mockDeep<IClock>();
+		clock.now.mockReturnValueOnce(start).mockReturnValueOnce(start).mockReturnValue(sentLater);
+
+		// WHEN
+		await dispatcherAt(clock).dispatchDue();
+
+		// THEN
+		expect(received.map(({headers}) => Number(headers['x-webhook-timestamp']))).toEqual([start.getTime() / 1000, sentLater.getTime() / 1000]);
+		const [, later] = received;
+		expect(later!.headers['x-webhook-signature']).toBe(signWebhookPayload('partner-secret-0123', sentLater.getTime() / 1000, later!.body));
+	});
+
+	it('should retry a failed delivery with an exponential backoff and log every attempt', async () => {
+		// GIVEN
+		const partner = await webhookSubscriptionService.createSubscription({
+			url: endpointUrl, eventTypes: ['ORDER_FULFILLED'], secret: 'partner-secret-0123',
+		});
+		await processOrder();
+		endpointStatus = 500;
+
+		// WHEN
+		const reports = [];
+		for (const delay of [0, 1000, 1999, 3000]) {
+			// eslint-disable-next-line no-await-in-loop
+			reports.push(await dispatcherAt(new Date(start.getTime() + delay)).dispatchDue());
+		}
+
+		// THEN
+		expect(reports.map(({retried, failed}) => [retried, failed])).toEqual([[1, 0], [1, 0], [0, 0], [0, 1]]);
+		const [delivery] = await webhookSubscriptionService.listDeliveries(partner.id);
+		expect(delivery).toMatchObject({status: 'FAILED'});
+		expect(delivery!.attempts).toHaveLength(3);
+		expect(delivery!.attempts[0]).toMatchObject({statusCode: 500, error: 'Endpoint answered 500 Internal Server Error'});
+	});
+
+	it('should disable a subscription whose endpoint keeps failing and resume once enabled again', async () => {
+		// GIVEN
+		const partner = await webhookSubscriptionService.createSubscription({
+			url: endpointUrl, eventTypes: ['ORDER_FULFILLED', 'PRODUCT_OUT_OF_STOCK'], secret: 'partner-secret-0123',
+		});
+		await processOrder();
+		endpointStatus = 503;
+		const retried = new Date(start.getTime() + 1000);
+		const later = new Date(start.getTime() + 60_000);
+		await dispatcherAt(start).dispatchDue();
+
+		// WHEN
+		const report = await dispatcherAt(retried).dispatchDue();
+		const whileDisabled = await dispatcherAt(later).dispatchDue();
+		await webhookSubscriptionService.enableSubscription(partner.id);
+		endpointStatus = 200;
+		const onceEnabled = await dispatcherAt(later).dispatchDue();
+
+		// THEN
+		expect(report.disabledSubscriptions).toEqual([partner.id]);
+		expect(whileDisabled).toEqual({
+			delivered: 0, retried: 0, failed: 0, disabledSubscriptions: [],
+		});
+		expect(onceEnabled.delivered).toBe(2);
+		expect(received).toHaveLength(6);
+		expect(await webhookSubscriptionService.getSubscription(partner.id)).toMatchObject({status: 'ACTIVE', consecutiveFailures: 0, disabledAt: null});
+	});
+});
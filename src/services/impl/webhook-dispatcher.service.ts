@@ -0,0 +1,207 @@
+import {createHmac} from 'node:crypto';
+import {performance} from 'node:perf_hooks';
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {
+	and, asc, eq, lte, sql,
+} from 'drizzle-orm';
+import {type IClock} from '../clock.port.js';
+import {poll} from './polling.js';
+import {resolvesToPrivateAddress, type WebhookTargetOptions} from './webhook-targets.js';
+import {CONFIG} from '@/configuration/index.js';
+import {
+	webhookDeliveries, webhookDeliveryAttempts, webhookSubscriptions, type WebhookDelivery, type WebhookSubscription,
+} from '@/db/schema.js';
+import {type Database} from '@/db/type.js';
+
+const webhooksConfig = CONFIG.get('webhooks');
+
+const DISPATCH_BATCH_SIZE = 100;
+
+export type WebhookDispatchOptions = WebhookTargetOptions & {
+	pollInterval: number;
+	timeout: number;
+	maxAttempts: number;
+	retryDelay: number;
+	disableAfterFailures: number;
+};
+
+export type WebhookDispatchReport = {
+	delivered: number;
+	retried: number;
+	failed: number;
+	disabledSubscriptions: number[];
+};
+
+type AttemptOutcome = {
+	statusCode: number | undefined;
+	error: string | undefined;
+};
+
+/**
+ * Signature sent in the X-Webhook-Signature header: the HMAC-SHA256 of the timestamp and the body
+ * joined by a dot, so that a receiver can both authenticate the delivery and refuse a stale replay.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+	return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export class WebhookDispatcher {
+	private readonly database: Database;
+	private readonly clock: IClock;
+	private readonly logger: FastifyBaseLogger;
+	private stopPolling: (() => void) | undefined;
+
+	constructor({db, clock, logger}: Pick<Cradle, 'db' | 'clock' | 'logger'>, private readonly options: WebhookDispatchOptions = webhooksConfig) {
+		this.database = db;
+		this.clock = clock;
+		this.logger = logger;
+	}
+
+	/**
+	 * Dispatches due deliveries in the background until stopped.
+	 */
+	start(): void {
+		if (this.stopPolling) {
+			return;
+		}
+
+		this.stopPolling = poll(async () => this.dispatchDue(), this.options.pollInterval, error => {
+			this.logger.error({err: error}, 'Webhook dispatch failed');
+		});
+	}
+
+	stop(): void {
+		this.stopPolling?.();
+		this.stopPolling = undefined;
+	}
+
+	/**
+	 * Posts the due deliveries of active subscriptions, oldest first, and logs every attempt.
+	 * A failed delivery is retried with an exponential backoff until it used up its attempts, and
+	 * a subscription whose endpoint keeps failing is disabled.
+	 */
+	async dispatchDue(): Promise<WebhookDispatchReport> {
+		const now = this.clock.now();
+		const report: WebhookDispatchReport = {
+			delivered: 0, retried: 0, failed: 0, disabledSubscriptions: [],
+		};
+		const dueDeliveries = this.database
+			.select({delivery: webhookDeliveries, subscription: webhookSubscriptions})
+			.from(webhookDeliveries)
+			.innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+			.where(and(
+				eq(webhookDeliveries.status, 'PENDING'),
+				lte(webhookDeliveries.nextAttemptAt, now),
+				eq(webhookSubscriptions.status, 'ACTIVE'),
+			))
+			.orderBy(asc(webhookDeliveries.id))
+			.limit(DISPATCH_BATCH_SIZE)
+			.all();
+
+		for (const {delivery, subscription} of dueDeliveries) {
+			// A subscription disabled earlier in this run keeps its remaining deliveries for later
+			if (report.disabledSubscriptions.includes(subscription.id)) {
+				continue;
+			}
+
+			// Endpoints refuse stale deliveries, so each one is stamped when it is actually sent
+			const attemptedAt = this.clock.now();
+			const startedAt = performance.now();
+			// eslint-disable-next-line no-await-in-loop
+			const {statusCode, error} = await this.post(subscription, delivery, attemptedAt);
+			const attempts = delivery.attempts + 1;
+			this.database.transaction(tx => {
+				tx.insert(webhookDeliveryAttempts)
+					.values({
+						deliveryId: delivery.id,
+						attemptedAt,
+						statusCode: statusCode ?? null,
+						error: error ?? null,
+						durationMs: Math.round(performance.now() - startedAt),
+					})
+					.run();
+
+				if (error === undefined) {
+					tx.update(webhookDeliveries)
+						.set({status: 'DELIVERED', attempts, deliveredAt: attemptedAt})
+						.where(eq(webhookDeliveries.id, delivery.id))
+						.run();
+					tx.update(webhookSubscriptions)
+						.set({consecutiveFailures: 0})
+						.where(eq(webhookSubscriptions.id, subscription.id))
+						.run();
+					report.delivered++;
+					return;
+				}
+
+				const failed = attempts >= this.options.maxAttempts;
+				tx.update(webhookDeliveries)
+					.set({
+						status: failed ? 'FAILED' : 'PENDING',
+						attempts,
+						nextAttemptAt: new Date(attemptedAt.getTime() + (this.options.retryDelay * (2 ** (attempts - 1)))),
+					})
+					.where(eq(webhookDeliveries.id, delivery.id))
+					.run();
+				report[failed ? 'failed' : 'retried']++;
+
+				const {consecutiveFailures} = tx
+					.update(webhookSubscriptions)
+					.set({consecutiveFailures: sql`${webhookSubscriptions.consecutiveFailures} + 1`})
+					.where(eq(webhookSubscriptions.id, subscription.id))
+					.returning({consecutiveFailures: webhookSubscriptions.consecutiveFailures})
+					.get();
+				if (consecutiveFailures >= this.options.disableAfterFailures) {
+					tx.update(webhookSubscriptions)
+						.set({status: 'DISABLED', disabledAt: attemptedAt})
+						.where(eq(webhookSubscriptions.id, subscription.id))
+						.run();
+					report.disabledSubscriptions.push(subscription.id);
+				}
+			});
+		}
+
+		return report;
+	}
+
+	private async post(subscription: WebhookSubscription, delivery: WebhookDelivery, sentAt: Date): Promise<AttemptOutcome> {
+		const body = JSON.stringify({
+			id: delivery.id,
+			type: delivery.eventType,
+			occurredAt: delivery.createdAt.toISOString(),
+			data: delivery.payload,
+		});
+		const timestamp = Math.floor(sentAt.getTime() / 1000);
+
+		try {
+			// The host may have been pointed at an internal address since it was subscribed
+			if (!this.options.allowPrivateTargets && await resolvesToPrivateAddress(subscription.url)) {
+				return {statusCode: undefined, error: `${new URL(subscription.url).host} resolves to a loopback, private or link-local address`};
+			}
+
+			const response = await fetch(subscription.url, {
+				method: 'POST',
+				headers: {
+					'content-type': 'application/json',
+					'x-webhook-id': String(delivery.id),
+					'x-webhook-event': delivery.eventType,
+					'x-webhook-timestamp': String(timestamp),
+					'x-webhook-signature': signWebhookPayload(subscription.secret, timestamp, body),
+				},
+				body,
+				// A redirection could lead anywhere, it is not followed
+				redirect: 'manual',
+				signal: AbortSignal.timeout(this.options.timeout),
+			});
+			// Only the status matters, the connection is freed without reading what the endpoint answered
+			await response.body?.cancel();
+			return {
+				statusCode: response.status,
+				error: response.ok ? undefined : `Endpoint answered ${response.status} ${response.statusText}`,
+			};
+		} catch (error) {
+			return {statusCode: undefined, error: error instanceof Error ? error.message : String(error)};
+		}
+	}
+}
@@ -0,0 +1,163 @@
+import {type Cradle} from '@fastify/awilix';
+import {
+	asc, desc, eq, inArray,
+} from 'drizzle-orm';
+import {type IClock} from '../clock.port.js';
+import {WebhookSubscriptionNotFoundError, WebhookTargetNotAllowedError} from '../errors.js';
+import {namesPrivateHost, type WebhookTargetOptions} from './webhook-targets.js';
+import {CONFIG} from '@/configuration/index.js';
+import {
+	webhookDeliveries,
+	webhookDeliveryAttempts,
+	webhookSubscriptions,
+	type WebhookDelivery,
+	type WebhookDeliveryAttempt,
+	type WebhookEventType,
+	type WebhookSubscription,
+} from '@/db/schema.js';
+import {type Database, type DatabaseExecutor} from '@/db/type.js';
+
+const webhooksConfig = CONFIG.get('webhooks');
+
+export type WebhookSubscriptionRequest = {
+	url: string;
+	eventTypes: WebhookEventType[];
+	secret: string;
+};
+
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+export type WebhookDeliveryLog = WebhookDelivery & {
+	attempts: WebhookDeliveryAttempt[];
+};
+
+function toView({secret, ...subscription}: WebhookSubscription): WebhookSubscriptionView {
+	return subscription;
+}
+
+/**
+ * Queues the event for every active subscription to its type, meant to run in the transaction
+ * the event happened in so that partners are only told about committed changes.
+ */
+export function publishWebhookEvent(
+	executor: DatabaseExecutor,
+	eventType: WebhookEventType,
+	data: Record<string, unknown>,
+	occurredAt: Date,
+): void {
+	const subscriptions = executor
+		.select({id: webhookSubscriptions.id, eventTypes: webhookSubscriptions.eventTypes})
+		.from(webhookSubscriptions)
+		.where(eq(webhookSubscriptions.status, 'ACTIVE'))
+		.all()
+		.filter(({eventTypes}) => eventTypes.includes(eventType));
+	if (subscriptions.length === 0) {
+		return;
+	}
+
+	executor
+		.insert(webhookDeliveries)
+		.values(subscriptions.map(({id}) => ({
+			subscriptionId: id,
+			eventType,
+			payload: data,
+			nextAttemptAt: occurredAt,
+			createdAt: occurredAt,
+		})))
+		.run();
+}
+
+export class WebhookSubscriptionService {
+	private readonly database: Database;
+	private readonly clock: IClock;
+
+	constructor({db, clock}: Pick<Cradle, 'db' | 'clock'>, private readonly options: WebhookTargetOptions = webhooksConfig) {
+		this.database = db;
+		this.clock = clock;
+	}
+
+	/**
+	 * Subscribes the URL, unless it names a loopback, private or link-local host. Where a host name
+	 * leads is checked again on each delivery, as it may change.
+	 */
+	async createSubscription(request: WebhookSubscriptionRequest): Promise<WebhookSubscriptionView> {
+		if (!this.options.allowPrivateTargets && namesPrivateHost(request.url)) {
+			throw new WebhookTargetNotAllowedError(new URL(request.url).host);
+		}
+
+		const [subscription] = await this.database
+			.insert(webhookSubscriptions)
+			.values({
+				url: request.url,
+				eventTypes: [...new Set(request.eventTypes)],
+				secret: request.secret,
+				createdAt: this.clock.now(),
+			})
+			.returning();
+		return toView(subscription!);
+	}
+
+	async listSubscriptions(): Promise<WebhookSubscriptionView[]> {
+		const subscriptions = await this.database.query.webhookSubscriptions.findMany({orderBy: asc(webhookSubscriptions.id)});
+		return subscriptions.map(subscription => toView(subscription));
+	}
+
+	async getSubscription(subscriptionId: number): Promise<WebhookSubscriptionView> {
+		return toView(await this.findSubscription(subscriptionId));
+	}
+
+	/**
+	 * Puts a disabled subscription back in service. The deliveries it missed meanwhile are still
+	 * pending and go out again on the next dispatch.
+	 */
+	async enableSubscription(subscriptionId: number): Promise<WebhookSubscriptionView> {
+		await this.findSubscription(subscriptionId);
+		const [subscription] = await this.database
+			.update(webhookSubscriptions)
+			.set({status: 'ACTIVE', consecutiveFailures: 0, disabledAt: null})
+			.where(eq(webhookSubscriptions.id, subscriptionId))
+			.returning();
+		return toView(subscription!);
+	}
+
+	/**
+	 * Removes the subscription together with its deliveries and their logs.
+	 */
+	async deleteSubscription(subscriptionId: number): Promise<void> {
+		await this.findSubscription(subscriptionId);
+		this.database.transaction(tx => {
+			const deliveryIds = tx
+				.select({id: webhookDeliveries.id})
+				.from(webhookDeliveries)
+				.where(eq(webhookDeliveries.subscriptionId, subscriptionId));
+			tx.delete(webhookDeliveryAttempts).where(inArray(webhookDeliveryAttempts.deliveryId, deliveryIds)).run();
+			tx.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, subscriptionId)).run();
+			tx.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, subscriptionId)).run();
+		});
+	}
+
+	/**
+	 * Deliveries of the subscription, most recent first, each with the log of its attempts.
+	 */
+	async listDeliveries(subscriptionId: number): Promise<WebhookDeliveryLog[]> {
+		await this.findSubscription(subscriptionId);
+		return this.database.query.webhookDeliveries.findMany({
+			where: eq(webhookDeliveries.subscriptionId, subscriptionId),
+			orderBy: desc(webhookDeliveries.id),
+			with: {
+				attempts: {
+					orderBy: asc(webhookDeliveryAttempts.id),
+				},
+			},
+		});
+	}
+
+	private async findSubscription(subscriptionId: number): Promise<WebhookSubscription> {
+		const subscription = await this.database.query.webhookSubscriptions.findFirst({where: eq(webhookSubscriptions.id, subscriptionId)});
+		if (!subscription) {
+			throw new WebhookSubscriptionNotFoundError(subscriptionId);
+		}
+
+		return subscription;
+	}
+}
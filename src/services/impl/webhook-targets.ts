@@ -0,0 +1,52 @@
+import {lookup} from 'node:dns/promises';
+import {BlockList, isIP} from 'node:net';
+
+export type WebhookTargetOptions = {
+	// Loopback, private and link-local endpoints, for local development only
+	allowPrivateTargets: boolean;
+};
+
+// Addresses a partner endpoint never has, but the services around this one or the cloud metadata do
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+	privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+	privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4 addresses mapped in IPv6, as ::ffff:127.0.0.1, are checked against the IPv4 subnets
+function isPrivateAddress(address: string): boolean {
+	return privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function hostOf(url: string): string {
+	// IPv6 hosts are bracketed in URLs
+	return new URL(url).hostname.replace(/^\[(.*)]$/, '$1');
+}
+
+/**
+ * Whether the URL names a loopback, private or link-local host outright. A host name is only known
+ * to be public once resolved, see resolvesToPrivateAddress.
+ */
+export function namesPrivateHost(url: string): boolean {
+	const host = hostOf(url).toLowerCase();
+	if (host === 'localhost' || host.endsWith('.localhost')) {
+		return true;
+	}
+
+	return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+/**
+ * Whether any address the host of the URL resolves to is loopback, private or link-local.
+ */
+export async function resolvesToPrivateAddress(url: string): Promise<boolean> {
+	if (namesPrivateHost(url)) {
+		return true;
+	}
+
+	const addresses = await lookup(hostOf(url), {all: true});
+	return addresses.some(({address}) => isPrivateAddress(address));
+}
@@ -0,0 +1,19 @@
+import fastifyPlugin from 'fastify-plugin';
+import {DOMAIN_EVENT_NAMES} from '@/services/event-bus.port.js';
+
+/**
+ * Keeps a trace of every domain event in the server log.
+ */
+export const auditSubscriber = fastifyPlugin(async server => {
+	const eventBus = server.diContainer.resolve('eventBus');
+
+	const unsubscribers = DOMAIN_EVENT_NAMES.map(name => eventBus.subscribe(name, event => {
+		server.log.info({event: name, payload: event}, `Domain event ${name}`);
+	}));
+
+	server.addHook('onClose', async () => {
+		for (const unsubscribe of unsubscribers) {
+			unsubscribe();
+		}
+	});
+});
@@ -0,0 +1,38 @@
+import fastifyPlugin from 'fastify-plugin';
+import {serializerCompiler, validatorCompiler, type ZodTypeProvider} from 'fastify-type-provider-zod';
+import {z} from 'zod';
+import {DOMAIN_EVENT_NAMES, type DomainEventName} from '@/services/event-bus.port.js';
+
+const eventCountsSchema = z.record(z.enum(DOMAIN_EVENT_NAMES), z.number());
+
+/**
+ * Counts the domain events published since the server started and exposes the counts.
+ */
+export const metricsSubscriber = fastifyPlugin(async server => {
+	// Add schema validator and serializer
+	server.setValidatorCompiler(validatorCompiler);
+	server.setSerializerCompiler(serializerCompiler);
+
+	const eventBus = server.diContainer.resolve('eventBus');
+	const counts = Object.fromEntries(DOMAIN_EVENT_NAMES.map(name => [name, 0])) as Record<DomainEventName, number>;
+
+	const unsubscribers = DOMAIN_EVENT_NAMES.map(name => eventBus.subscribe(name, () => {
+		counts[name]++;
+	}));
+
+	server.addHook('onClose', async () => {
+		for (const unsubscribe of unsubscribers) {
+			unsubscribe();
+		}
+	});
+
+	server.withTypeProvider<ZodTypeProvider>().get('/metrics/events', {
+		schema: {
+			response: {
+				200: eventCountsSchema,
+			},
+		},
+	}, async (_request, reply) => {
+		await reply.send(counts);
+	});
+});
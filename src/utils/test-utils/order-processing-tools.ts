@@ -0,0 +1,49 @@
+import {type Cradle} from '@fastify/awilix';
+import {type FastifyBaseLogger} from 'fastify';
+import {mockDeep} from 'vitest-mock-extended';
+import {type IEventBus} from '@/services/event-bus.port.js';
+import {type INotificationService} from '@/services/notifications.port.js';
+import {BundleProductStrategy} from '@/services/impl/bundle-product-strategy.js';
+import {SystemClock} from '@/services/impl/clock.js';
+import {OutboxNotificationService} from '@/services/impl/notification-outbox.service.js';
+import {OrderProcessingService} from '@/services/impl/order-processing.service.js';
+import {builtInProductStrategies, ProductStrategyRegistry} from '@/services/impl/product-strategy-registry.js';
+import {type Database} from '@/db/type.js';
+
+export type OrderProcessingDependencies = Pick<Cradle, 'db' | 'productStrategyRegistry' | 'eventBus' | 'notificationOutbox' | 'logger' | 'clock'>;
+
+export type OrderProcessingOverrides = Partial<Omit<OrderProcessingDependencies, 'db'>> & {
+	// Notifier handed to the strategies, a mock by default
+	ns?: INotificationService;
+};
+
+/**
+ * Dependencies of order processing wired as the DI container wires them, with every built-in
+ * strategy and bundles, and mocks for the notifier, the event bus and the logger unless given.
+ * The clock is the system clock unless given.
+ */
+export function createOrderProcessingDependencies(database: Database, {
+	ns = mockDeep<INotificationService>(),
+	clock = new SystemClock(),
+	eventBus = mockDeep<IEventBus>(),
+	notificationOutbox = new OutboxNotificationService({db: database, clock}),
+	productStrategyRegistry,
+	logger = mockDeep<FastifyBaseLogger>(),
+}: OrderProcessingOverrides = {}): OrderProcessingDependencies {
+	const strategies = builtInProductStrategies(ns, database, clock);
+	return {
+		db: database,
+		productStrategyRegistry: productStrategyRegistry ?? new ProductStrategyRegistry({
+			db: database,
+			productStrategies: {...strategies, BUNDLE: new BundleProductStrategy(database, strategies, clock)},
+		}),
+		eventBus,
+		notificationOutbox,
+		logger,
+		clock,
+	};
+}
+
+export function createOrderProcessingService(database: Database, overrides: OrderProcessingOverrides = {}): OrderProcessingService {
+	return new OrderProcessingService(createOrderProcessingDependencies(database, overrides));
+}
@@ -0,0 +1,117 @@
+import {createServer, type AddressInfo} from 'node:net';
+
+export type ReceivedMail = {
+	from: string;
+	to: string[];
+	data: string;
+	auth?: string;
+};
+
+/**
+ * Local SMTP server that accepts every mail and keeps it, to test code that mails without a relay.
+ * A verb listed in refusals is answered with the given reply instead, and the extensions are
+ * announced in the answer to EHLO.
+ */
+export async function startSmtpStandIn(refusals: Record<string, string> = {}, extensions: string[] = []) {
+	const mails: ReceivedMail[] = [];
+	const server = createServer(socket => {
+		let mail: ReceivedMail = {from: '', to: [], data: ''};
+		let readingData = false;
+		let buffer = '';
+		const reply = (line: string) => socket.write(`${line}\r\n`);
+
+		socket.setEncoding('utf8');
+		reply('220 stand-in ESMTP');
+		socket.on('data', (chunk: string) => {
+			buffer += chunk;
+			let end = buffer.indexOf('\r\n');
+			while (end !== -1) {
+				const line = buffer.slice(0, end);
+				buffer = buffer.slice(end + 2);
+				end = buffer.indexOf('\r\n');
+
+				if (readingData) {
+					if (line === '.') {
+						readingData = false;
+						mails.push(mail);
+						mail = {from: '', to: [], data: ''};
+						reply('250 Queued');
+					} else {
+						mail.data += `${line}\r\n`;
+					}
+
+					continue;
+				}
+
+				const [verb = '', ...rest] = line.split(' ');
+				const refusal = refusals[verb];
+				if (refusal) {
+					reply(refusal);
+					continue;
+				}
+
+				switch (verb) {
+					case 'EHLO': {
+						reply('250-stand-in');
+						for (const extension of extensions) {
+							reply(`250-${extension}`);
+						}
+
+						reply('250 AUTH PLAIN');
+						break;
+					}
+
+					case 'AUTH': {
+						mail.auth = Buffer.from(rest[1] ?? '', 'base64').toString();
+						reply('235 Authenticated');
+						break;
+					}
+
+					case 'MAIL': {
+						mail.from = /<(.*)>/.exec(line)?.[1] ?? '';
+						reply('250 OK');
+						break;
+					}
+
+					case 'RCPT': {
+						mail.to.push(/<(.*)>/.exec(line)?.[1] ?? '');
+						reply('250 OK');
+						break;
+					}
+
+					case 'DATA': {
+						readingData = true;
+						reply('354 End data with <CR><LF>.<CR><LF>');
+						break;
+					}
+
+					case 'QUIT': {
+						reply('221 Bye');
+						socket.end();
+						break;
+					}
+
+					default: {
+						reply('502 Command not implemented');
+					}
+				}
+			}
+		});
+	});
+
+	await new Promise<void>(resolve => {
+		server.listen(0, '127.0.0.1', resolve);
+	});
+
+	return {
+		port: (server.address() as AddressInfo).port,
+		mails,
+		async close() {
+			return new Promise<void>(resolve => {
+				server.close(() => {
+					resolve();
+				});
+			});
+		},
+	};
+}